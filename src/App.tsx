@@ -1,5 +1,5 @@
 import { useState, useCallback, useMemo } from 'react';
-import { DartsScoringEngine, type PlayerState } from './scoring/scoringEngine';
+import { MatchController, type MatchControllerState } from './scoring/matchController';
 import {
   Button,
   ScoreDisplay,
@@ -44,10 +44,8 @@ export default function App() {
   });
 
   // Game state
-  const [engine, setEngine] = useState<DartsScoringEngine | null>(null);
-  const [player1, setPlayer1] = useState<PlayerState | null>(null);
-  const [player2, setPlayer2] = useState<PlayerState | null>(null);
-  const [currentPlayer, setCurrentPlayer] = useState<1 | 2>(1);
+  const [controller, setController] = useState<MatchController | null>(null);
+  const [match, setMatch] = useState<MatchControllerState | null>(null);
   const [inputValue, setInputValue] = useState('');
   const [showStatsModal, setShowStatsModal] = useState(false);
   const [winner, setWinner] = useState<string | null>(null);
@@ -62,14 +60,14 @@ export default function App() {
       doubleOut: true
     };
 
-    const newEngine = new DartsScoringEngine(config);
-    const p1 = newEngine.createPlayerState(setup.player1Name);
-    const p2 = newEngine.createPlayerState(setup.player2Name);
+    const newController = new MatchController(config, [
+      { name: setup.player1Name },
+      { name: setup.player2Name }
+    ]);
+    newController.onChange(setMatch);
 
-    setEngine(newEngine);
-    setPlayer1(p1);
-    setPlayer2(p2);
-    setCurrentPlayer(1);
+    setController(newController);
+    setMatch(newController.getState());
     setInputValue('');
     setWinner(null);
     setScreen('game');
@@ -89,11 +87,16 @@ export default function App() {
   }, []);
 
   const handleUndo = useCallback(() => {
-    setInputValue(prev => prev.slice(0, -1));
-  }, []);
+    // Delete a typed digit first, otherwise take back the last visit
+    if (inputValue) {
+      setInputValue(prev => prev.slice(0, -1));
+    } else {
+      controller?.undo();
+    }
+  }, [controller, inputValue]);
 
   const handleEnter = useCallback(() => {
-    if (!engine || !player1 || !player2 || !inputValue) return;
+    if (!controller || !inputValue) return;
 
     const score = parseInt(inputValue, 10);
     if (isNaN(score)) {
@@ -101,56 +104,41 @@ export default function App() {
       return;
     }
 
-    const currentPlayerState = currentPlayer === 1 ? player1 : player2;
-    const setCurrentPlayerState = currentPlayer === 1 ? setPlayer1 : setPlayer2;
-    const otherPlayerState = currentPlayer === 1 ? player2 : player1;
-    const setOtherPlayerState = currentPlayer === 1 ? setPlayer2 : setPlayer1;
-
-    const { player: updatedPlayer, result } = engine.applyThrow(currentPlayerState, score);
-    setCurrentPlayerState(updatedPlayer);
+    // Controller handles busts, leg/set resets and starter alternation
+    const result = controller.throwScore(score);
 
     if (result.isMatchWon) {
-      setWinner(updatedPlayer.name);
+      const { players, winnerIndex } = controller.getState();
+      setWinner(winnerIndex !== null ? players[winnerIndex].name : null);
       setScreen('result');
-    } else if (result.isLegWon) {
-      // Reset both players for new leg
-      setCurrentPlayerState(engine.resetForNewLeg(updatedPlayer));
-      setOtherPlayerState(engine.resetForNewLeg(otherPlayerState));
-      // Switch starting player (the one who lost starts)
-      setCurrentPlayer(currentPlayer === 1 ? 2 : 1);
-    } else if (!result.isBust) {
-      // Normal throw - switch players
-      setCurrentPlayer(currentPlayer === 1 ? 2 : 1);
     }
-    // On bust, same player throws again (score resets to start of turn)
 
     setInputValue('');
-  }, [engine, player1, player2, currentPlayer, inputValue]);
+  }, [controller, inputValue]);
 
   const handleNewGame = useCallback(() => {
     setScreen('setup');
-    setEngine(null);
-    setPlayer1(null);
-    setPlayer2(null);
+    setController(null);
+    setMatch(null);
     setWinner(null);
   }, []);
 
   const handleRematch = useCallback(() => {
-    if (!engine || !player1 || !player2) return;
+    if (!controller) return;
 
-    setPlayer1(engine.resetForNewMatch(player1));
-    setPlayer2(engine.resetForNewMatch(player2));
-    setCurrentPlayer(1);
+    controller.reset();
     setInputValue('');
     setWinner(null);
     setScreen('game');
-  }, [engine, player1, player2]);
+  }, [controller]);
 
   // ==================== COMPUTED VALUES ====================
 
+  const [player1, player2] = match?.players ?? [];
+
   const currentPlayerState = useMemo(() =>
-    currentPlayer === 1 ? player1 : player2,
-    [currentPlayer, player1, player2]
+    match ? match.players[match.currentPlayerIndex] : null,
+    [match]
   );
 
   // ==================== RENDER ====================
@@ -307,7 +295,7 @@ export default function App() {
   }
 
   // Game screen
-  if (!engine || !player1 || !player2) return null;
+  if (!match || !player1 || !player2) return null;
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 flex flex-col">
@@ -345,7 +333,7 @@ export default function App() {
           playerName={player1.name}
           legs={player1.legs}
           average={player1.stats.average}
-          isActive={currentPlayer === 1}
+          isActive={match.currentPlayerIndex === 0}
           history={player1.matchHistory}
           showHistory={false}
         />
@@ -354,16 +342,19 @@ export default function App() {
           playerName={player2.name}
           legs={player2.legs}
           average={player2.stats.average}
-          isActive={currentPlayer === 2}
+          isActive={match.currentPlayerIndex === 1}
           history={player2.matchHistory}
           showHistory={false}
         />
       </div>
 
       {/* Checkout Suggestion */}
-      {currentPlayerState && currentPlayerState.score <= 170 && (
+      {currentPlayerState && (
         <div className="px-4">
-          <CheckoutSuggestion remaining={currentPlayerState.score} />
+          <CheckoutSuggestion
+            remaining={currentPlayerState.score}
+            outRule={controller?.getEngine().getRules().outRule}
+          />
         </div>
       )}
 
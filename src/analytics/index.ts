@@ -0,0 +1,17 @@
+/**
+ * Analytics Module
+ * Match outcome prediction and other derived insights
+ */
+
+export {
+  predictWinProbability,
+  getPreMatchOdds,
+  getMatchFormat,
+  getBroadcastSituation,
+  DEFAULT_PLAYER_PROFILE,
+  type PlayerProfile,
+  type MatchFormat,
+  type MatchSituation,
+  type WinProbability,
+  type PredictionOptions
+} from './winPredictor';
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type MatchSituation,
+  getMatchFormat,
+  getPreMatchOdds,
+  predictWinProbability
+} from './winPredictor';
+import { createRandom } from '../utils/random';
+
+const even = [
+  { average: 60, checkoutPercentage: 30 },
+  { average: 60, checkoutPercentage: 30 }
+] as const;
+
+const oneLeg = { startingScore: 501, legsNeeded: 1 };
+
+const situation = (overrides: Partial<MatchSituation> = {}): MatchSituation => ({
+  ...oneLeg,
+  scores: [501, 501],
+  legs: [0, 0],
+  thrower: 0,
+  ...overrides
+});
+
+describe('getMatchFormat', () => {
+  it('turns match settings into legs and sets needed', () => {
+    expect(getMatchFormat({ startingScore: 501, matchType: 'best_of', targetLegs: 5 }))
+      .toMatchObject({ legsNeeded: 3, setsNeeded: undefined });
+    expect(getMatchFormat({
+      startingScore: 501,
+      matchType: 'best_of',
+      targetSets: 5,
+      targetLegs: 3,
+      legsMatchType: 'first_to'
+    })).toMatchObject({ legsNeeded: 3, setsNeeded: 3 });
+  });
+});
+
+describe('predictWinProbability', () => {
+  it('is reproducible with a seeded random source', () => {
+    const run = () => predictWinProbability(situation(), even, { simulations: 50, random: createRandom(9) });
+    expect(run()).toEqual(run());
+  });
+
+  it('favours the player close to a finish', () => {
+    const result = predictWinProbability(
+      situation({ scores: [40, 501] }),
+      even,
+      { simulations: 100, random: createRandom(1) }
+    );
+    expect(result.player1).toBeGreaterThan(0.9);
+    expect(result.player1 + result.player2).toBeCloseTo(1);
+  });
+
+  it('favours the stronger player', () => {
+    const result = predictWinProbability(
+      situation(),
+      [{ average: 95, checkoutPercentage: 45 }, { average: 55, checkoutPercentage: 25 }],
+      { simulations: 50, random: createRandom(2) }
+    );
+    expect(result.player1).toBeGreaterThan(0.75);
+  });
+
+  it('stops at the time budget and reports what it ran', () => {
+    const result = predictWinProbability(situation(), even, {
+      simulations: 1000,
+      timeBudgetMs: 0,
+      random: createRandom(3)
+    });
+    expect(result.simulations).toBe(20);
+    expect(result.player1 + result.player2).toBeCloseTo(1);
+  });
+});
+
+describe('getPreMatchOdds', () => {
+  it('splits the throw between both players', () => {
+    const result = getPreMatchOdds(oneLeg, even, { simulations: 200, random: createRandom(4) });
+    expect(result.simulations).toBe(200);
+    expect(result.player1).toBeGreaterThan(0.35);
+    expect(result.player1).toBeLessThan(0.65);
+  });
+
+  it('shares a time budget across both halves', () => {
+    const result = getPreMatchOdds(oneLeg, even, { simulations: 1000, timeBudgetMs: 0, random: createRandom(5) });
+    expect(result.simulations).toBe(40);
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Match Outcome Predictor
+ * Monte Carlo win probability for X01 matches: plays the rest of the match
+ * many times with the bot dart model, one bot per player fitted to their
+ * scoring and checkout profile, and counts who wins
+ *
+ * Works from any point - mid-leg, mid-set, or before the first dart
+ * (pre-match odds, where each player starts half the simulations).
+ */
+
+import type { InOutRule, MatchConfig } from '../types';
+import { DartsBotEngine } from '../scoring/botEngine';
+import { estimateBotLevel } from '../scoring/botCalibration';
+import { winsNeeded } from '../scoring/scoringEngine';
+import { type RandomSource, defaultRandom } from '../utils/random';
+import type { BroadcastMatchState } from '../services/broadcastService';
+
+// ==================== TYPES ====================
+
+export interface PlayerProfile {
+  average: number;               // 3-dart average
+  checkoutPercentage: number;    // 0-100, visits on a finish that checked out
+}
+
+export interface MatchFormat {
+  startingScore: number;
+  legsNeeded: number;            // Legs to win the match, or a set when playing sets
+  setsNeeded?: number;
+  outRule?: InOutRule;           // Default 'double'
+}
+
+export interface MatchSituation extends MatchFormat {
+  scores: [number, number];      // Remaining in the current leg
+  legs: [number, number];        // Legs won (in the current set when playing sets)
+  sets?: [number, number];
+  thrower: 0 | 1;                // Throws next
+  legStarter?: 0 | 1;            // Started the current leg (default: thrower)
+}
+
+export interface WinProbability {
+  player1: number;               // 0-1
+  player2: number;
+  simulations: number;
+}
+
+export interface PredictionOptions {
+  simulations?: number;          // Default 1000
+  timeBudgetMs?: number;         // Stop early once this much time is spent (at least 20 simulations run)
+  random?: RandomSource;
+}
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Profile for a player with no history yet
+ */
+export const DEFAULT_PLAYER_PROFILE: Readonly<PlayerProfile> = Object.freeze({
+  average: 45,
+  checkoutPercentage: 20
+});
+
+const DEFAULT_SIMULATIONS = 1000;
+
+// With a time budget, the clock is checked after every batch this size
+const BUDGET_BATCH = 20;
+
+// Stops a simulated leg that can't finish (e.g. both players keep busting)
+const MAX_VISITS_PER_LEG = 200;
+
+// ==================== PREDICTION ====================
+
+/**
+ * Chance of each player winning from the current situation
+ * With a time budget, simulations reports how many were actually run
+ */
+export function predictWinProbability(
+  situation: MatchSituation,
+  profiles: readonly [PlayerProfile, PlayerProfile],
+  options: PredictionOptions = {}
+): WinProbability {
+  const simulations = Math.max(1, options.simulations ?? DEFAULT_SIMULATIONS);
+  const bots = createBots(profiles, situation.outRule ?? 'double', options.random ?? defaultRandom);
+  const deadline = options.timeBudgetMs === undefined ? Infinity : Date.now() + options.timeBudgetMs;
+
+  let player1Wins = 0;
+  let played = 0;
+  while (played < simulations) {
+    if (simulateMatch(situation, bots) === 0) player1Wins++;
+    played++;
+    if (played % BUDGET_BATCH === 0 && Date.now() >= deadline) break;
+  }
+
+  return {
+    player1: player1Wins / played,
+    player2: (played - player1Wins) / played,
+    simulations: played
+  };
+}
+
+/**
+ * Odds before the first dart - each player throws first in half the simulations
+ */
+export function getPreMatchOdds(
+  format: MatchFormat,
+  profiles: readonly [PlayerProfile, PlayerProfile],
+  options: PredictionOptions = {}
+): WinProbability {
+  const simulations = Math.max(2, options.simulations ?? DEFAULT_SIMULATIONS);
+  const half = Math.floor(simulations / 2);
+  const start = (thrower: 0 | 1): MatchSituation => ({
+    ...format,
+    scores: [format.startingScore, format.startingScore],
+    legs: [0, 0],
+    sets: format.setsNeeded ? [0, 0] : undefined,
+    thrower
+  });
+
+  const timeBudgetMs = options.timeBudgetMs === undefined ? undefined : options.timeBudgetMs / 2;
+  const first = predictWinProbability(start(0), profiles, { ...options, timeBudgetMs, simulations: half });
+  const second = predictWinProbability(start(1), profiles, { ...options, timeBudgetMs, simulations: simulations - half });
+
+  // Each player starts half the matches, however many simulations a budget allowed
+  const player1 = (first.player1 + second.player1) / 2;
+
+  return { player1, player2: 1 - player1, simulations: first.simulations + second.simulations };
+}
+
+/**
+ * Match format from X01 match settings
+ * With sets, targetLegs is per set (legsMatchType picks its rule)
+ */
+export function getMatchFormat(
+  config: Pick<MatchConfig, 'startingScore' | 'matchType' | 'targetLegs' | 'targetSets' | 'legsMatchType' | 'outRule'>
+): MatchFormat {
+  const setsNeeded = config.targetSets ? winsNeeded(config.matchType, config.targetSets) : undefined;
+  const legRule = setsNeeded ? config.legsMatchType ?? config.matchType : config.matchType;
+
+  return {
+    startingScore: config.startingScore,
+    legsNeeded: winsNeeded(legRule, config.targetLegs),
+    setsNeeded,
+    outRule: config.outRule
+  };
+}
+
+/**
+ * Situation from a live broadcast state
+ */
+export function getBroadcastSituation(state: BroadcastMatchState): MatchSituation {
+  const format = getMatchFormat(state);
+
+  return {
+    ...format,
+    scores: [state.player1.score, state.player2.score],
+    legs: [state.legs.player1, state.legs.player2],
+    sets: state.sets && [state.sets.player1, state.sets.player2],
+    thrower: state.currentThrower === 1 ? 0 : 1,
+    legStarter: state.legStarter && (state.legStarter === 1 ? 0 : 1)
+  };
+}
+
+// ==================== SIMULATION ====================
+
+function createBots(
+  profiles: readonly [PlayerProfile, PlayerProfile],
+  outRule: InOutRule,
+  random: RandomSource
+): [DartsBotEngine, DartsBotEngine] {
+  const bot = (profile: PlayerProfile) => new DartsBotEngine(
+    estimateBotLevel(profile.average > 0 ? profile : DEFAULT_PLAYER_PROFILE),
+    { outRule, random }
+  );
+  return [bot(profiles[0]), bot(profiles[1])];
+}
+
+/**
+ * Play the match out once - returns the winner's index
+ * Leg starters alternate, and each set is started by the other player
+ * from the last set (matches MatchController's rotation)
+ */
+function simulateMatch(situation: MatchSituation, bots: readonly [DartsBotEngine, DartsBotEngine]): 0 | 1 {
+  const scores = [...situation.scores];
+  const legs = [...situation.legs];
+  const sets = situation.sets ? [...situation.sets] : [0, 0];
+  const setsNeeded = situation.setsNeeded;
+
+  let legStarter = situation.legStarter ?? situation.thrower;
+  let thrower = situation.thrower;
+  let visits = 0;
+
+  // Work back to who started this set
+  let setStarter = (legs[0] + legs[1]) % 2 === 1 ? other(legStarter) : legStarter;
+
+  for (;;) {
+    const visit = bots[thrower].throwVisit(scores[thrower]);
+    scores[thrower] = visit.remaining;
+
+    if (!visit.isCheckout) {
+      thrower = other(thrower);
+      if (++visits >= MAX_VISITS_PER_LEG) return scores[0] <= scores[1] ? 0 : 1;
+      continue;
+    }
+
+    // Leg won
+    legs[thrower]++;
+    visits = 0;
+    scores.fill(situation.startingScore);
+
+    if (legs[thrower] >= situation.legsNeeded) {
+      if (!setsNeeded) return thrower;
+
+      sets[thrower]++;
+      if (sets[thrower] >= setsNeeded) return thrower;
+
+      // New set
+      legs.fill(0);
+      setStarter = other(setStarter);
+      legStarter = setStarter;
+    } else {
+      legStarter = other(legStarter);
+    }
+    thrower = legStarter;
+  }
+}
+
+function other(index: 0 | 1): 0 | 1 {
+  return index === 0 ? 1 : 0;
+}
+
+export default predictWinProbability;
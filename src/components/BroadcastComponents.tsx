@@ -9,6 +9,9 @@
  */
 
 import React, { memo, useMemo } from 'react';
+import type { InOutRule } from '../types';
+import { getBestCheckout } from '../scoring/checkoutSolver';
+import { getSetupAdvice } from '../scoring/setupAdvisor';
 
 // ==================== TYPES ====================
 
@@ -51,14 +54,17 @@ export interface BroadcastMatchState {
   player1: BroadcastPlayer;
   player2: BroadcastPlayer;
   currentThrower: 1 | 2;
+  legStarter?: 1 | 2;            // Threw first in the current leg
   legs: { player1: number; player2: number };
   sets?: { player1: number; player2: number };
   targetLegs: number;
   targetSets?: number;
   matchType: 'first_to' | 'best_of';
   startingScore: number;
+  outRule?: InOutRule;           // Default 'double'
   status: 'waiting' | 'in_progress' | 'completed';
   winner?: 1 | 2;
+  winProbability?: { player1: number; player2: number };  // 0-1, X01 only
   lastUpdate: string;
 }
 
@@ -72,6 +78,7 @@ export type WidgetType =
   | 'match_stats'
   | 'last_throw'
   | 'checkout_suggestion'
+  | 'win_probability'
   | 'leaderboard'
   | 'schedule'
   | 'commentator_booth';
@@ -96,6 +103,7 @@ export const ScoreboardHorizontal: React.FC<ScoreboardHorizontalProps> = memo(({
   config
 }) => {
   const themeColor = config?.themeColor || '#EAB308';
+  const showSets = !!state.sets && config?.showSets !== false;
 
   return (
     <div
@@ -113,6 +121,15 @@ export const ScoreboardHorizontal: React.FC<ScoreboardHorizontalProps> = memo(({
       <div className="flex items-center gap-8">
         <div className="text-white font-black text-5xl">{state.player1.score}</div>
 
+        {showSets && state.sets && (
+          <div className="flex flex-col items-center">
+            <div className="text-white/80 text-xs uppercase">Sets</div>
+            <div className="text-white font-bold text-2xl">
+              {state.sets.player1} - {state.sets.player2}
+            </div>
+          </div>
+        )}
+
         <div className="flex flex-col items-center">
           <div className="text-white/80 text-xs uppercase">Legs</div>
           <div className="text-white font-bold text-2xl">
@@ -148,6 +165,7 @@ export const ScoreboardTV: React.FC<ScoreboardTVProps> = memo(({
 }) => {
   const themeColor = config?.themeColor || '#1e293b';
   const accentColor = config?.textColor || '#EAB308';
+  const showSets = !!state.sets && config?.showSets !== false;
 
   return (
     <div
@@ -163,6 +181,9 @@ export const ScoreboardTV: React.FC<ScoreboardTVProps> = memo(({
         <div className="flex-1 flex items-center px-4 py-2 gap-4">
           <div className="text-white font-bold text-lg flex-1">{state.player1.name}</div>
           <div className="text-white/60 text-sm w-16 text-center">{state.player1.average.toFixed(1)}</div>
+          {showSets && state.sets && (
+            <div className="text-white font-bold text-lg w-8 text-center">{state.sets.player1}</div>
+          )}
           <div className="text-white font-bold text-lg w-8 text-center">{state.legs.player1}</div>
           <div
             className="text-4xl font-black w-24 text-center"
@@ -182,6 +203,9 @@ export const ScoreboardTV: React.FC<ScoreboardTVProps> = memo(({
         <div className="flex-1 flex items-center px-4 py-2 gap-4">
           <div className="text-white font-bold text-lg flex-1">{state.player2.name}</div>
           <div className="text-white/60 text-sm w-16 text-center">{state.player2.average.toFixed(1)}</div>
+          {showSets && state.sets && (
+            <div className="text-white font-bold text-lg w-8 text-center">{state.sets.player2}</div>
+          )}
           <div className="text-white font-bold text-lg w-8 text-center">{state.legs.player2}</div>
           <div
             className="text-4xl font-black w-24 text-center"
@@ -209,6 +233,7 @@ export const ScoreboardDualCam: React.FC<ScoreboardDualCamProps> = memo(({
   config
 }) => {
   const themeColor = config?.themeColor || '#1e293b';
+  const showSets = !!state.sets && config?.showSets !== false;
 
   return (
     <div className="flex gap-4">
@@ -229,11 +254,19 @@ export const ScoreboardDualCam: React.FC<ScoreboardDualCamProps> = memo(({
         </div>
       </div>
 
-      {/* Center - Legs */}
+      {/* Center - Sets & Legs */}
       <div
         className="flex flex-col items-center justify-center px-4 rounded-lg"
         style={{ backgroundColor: themeColor }}
       >
+        {showSets && state.sets && (
+          <>
+            <div className="text-white/60 text-xs uppercase mb-1">Sets</div>
+            <div className="text-white font-bold text-2xl mb-2">
+              {state.sets.player1} - {state.sets.player2}
+            </div>
+          </>
+        )}
         <div className="text-white/60 text-xs uppercase mb-1">Legs</div>
         <div className="text-white font-bold text-2xl">
           {state.legs.player1} - {state.legs.player2}
@@ -376,6 +409,88 @@ export const MatchStatsWidget: React.FC<MatchStatsWidgetProps> = memo(({
 
 MatchStatsWidget.displayName = 'MatchStatsWidget';
 
+// ==================== CHECKOUT SUGGESTION WIDGET ====================
+
+interface CheckoutSuggestionWidgetProps {
+  state: BroadcastMatchState;
+  themeColor?: string;
+}
+
+/**
+ * Checkout route for the player to throw, or setup advice when there isn't one
+ */
+export const CheckoutSuggestionWidget: React.FC<CheckoutSuggestionWidgetProps> = memo(({
+  state,
+  themeColor = '#1e293b'
+}) => {
+  const player = state.currentThrower === 1 ? state.player1 : state.player2;
+  const outRule = state.outRule ?? 'double';
+
+  const suggestion = useMemo(() => {
+    const route = getBestCheckout(player.score, { outRule });
+    if (route) return { kind: 'Checkout', label: route.label };
+
+    const setup = getSetupAdvice(player.score, 3, { outRule });
+    return setup && { kind: 'Setup', label: setup.label };
+  }, [player.score, outRule]);
+
+  if (state.status !== 'in_progress' || !suggestion) return null;
+
+  return (
+    <div className="rounded-lg px-4 py-2 text-center" style={{ backgroundColor: themeColor }}>
+      <div className="text-white/60 text-xs uppercase">
+        {player.name} · {suggestion.kind} {player.score}
+      </div>
+      <div className="text-white font-black text-2xl">{suggestion.label}</div>
+    </div>
+  );
+});
+
+CheckoutSuggestionWidget.displayName = 'CheckoutSuggestionWidget';
+
+// ==================== WIN PROBABILITY WIDGET ====================
+
+interface WinProbabilityWidgetProps {
+  state: BroadcastMatchState;
+  themeColor?: string;
+  accentColor?: string;
+}
+
+/**
+ * Live win chance for each player as a split bar
+ */
+export const WinProbabilityWidget: React.FC<WinProbabilityWidgetProps> = memo(({
+  state,
+  themeColor = '#1e293b',
+  accentColor = '#EAB308'
+}) => {
+  const percentages = useMemo(() => {
+    if (!state.winProbability) return null;
+    const player1 = Math.round(state.winProbability.player1 * 100);
+    return { player1, player2: 100 - player1 };
+  }, [state.winProbability]);
+
+  if (!percentages) return null;
+
+  return (
+    <div className="rounded-lg px-4 py-2" style={{ backgroundColor: themeColor }}>
+      <div className="flex justify-between text-white text-sm font-bold mb-1">
+        <span>{state.player1.name} {percentages.player1}%</span>
+        <span className="text-white/60 text-xs uppercase">Win Probability</span>
+        <span>{percentages.player2}% {state.player2.name}</span>
+      </div>
+      <div className="flex h-3 rounded-full overflow-hidden bg-white/20">
+        <div
+          className="transition-all duration-500"
+          style={{ width: `${percentages.player1}%`, backgroundColor: accentColor }}
+        />
+      </div>
+    </div>
+  );
+});
+
+WinProbabilityWidget.displayName = 'WinProbabilityWidget';
+
 // ==================== OBS CONFIG HELPER ====================
 
 export const OBS_WIDGET_CONFIGS: Readonly<Record<WidgetType, WidgetConfig>> = Object.freeze({
@@ -388,6 +503,7 @@ export const OBS_WIDGET_CONFIGS: Readonly<Record<WidgetType, WidgetConfig>> = Ob
   match_stats: { type: 'match_stats', width: 400, height: 300, fps: 5 },
   last_throw: { type: 'last_throw', width: 200, height: 100, fps: 30 },
   checkout_suggestion: { type: 'checkout_suggestion', width: 250, height: 80, fps: 10 },
+  win_probability: { type: 'win_probability', width: 400, height: 80, fps: 10 },
   leaderboard: { type: 'leaderboard', width: 740, height: 510, fps: 1 },
   schedule: { type: 'schedule', width: 400, height: 600, fps: 1 },
   commentator_booth: { type: 'commentator_booth', width: 1280, height: 200, fps: 30 }
@@ -405,6 +521,8 @@ export default {
   ScoreboardDualCam,
   LastThrowWidget,
   MatchStatsWidget,
+  CheckoutSuggestionWidget,
+  WinProbabilityWidget,
   OBS_WIDGET_CONFIGS,
   getOBSWidgetConfig
 };
@@ -0,0 +1,211 @@
+/**
+ * Cricket Scorer React Components
+ * Marks board and per-dart scorer for standard and cut-throat Cricket
+ *
+ * Performance optimizations:
+ * - React.memo for all components
+ * - useCallback for event handlers
+ * - Game mode and engine created once per match
+ */
+
+import React, { memo, useCallback, useMemo, useState } from 'react';
+import {
+  CricketScoringEngine,
+  CRICKET_NUMBERS,
+  DEFAULT_CRICKET_CONFIG,
+  MARKS_TO_CLOSE,
+  calculateMarksPerRound,
+  formatMarks,
+  type CricketConfig,
+  type CricketPlayerState
+} from '../scoring/cricketEngine';
+import {
+  type Dart,
+  BULL_SEGMENT,
+  DARTS_PER_VISIT,
+  MISS,
+  createDart,
+  formatVisit,
+  type DartMultiplier
+} from '../scoring/dartModel';
+import { CricketGameMode, type CricketModeState } from '../scoring/gameModes';
+import { Button, ScoreCardInput } from './ScorerComponents';
+
+const numberLabel = (n: number): string => (n === BULL_SEGMENT ? 'Bull' : String(n));
+
+// ==================== CRICKET BOARD COMPONENT ====================
+
+interface CricketBoardProps {
+  players: readonly CricketPlayerState[];
+  currentPlayerIndex: number;
+}
+
+export const CricketBoard: React.FC<CricketBoardProps> = memo(({
+  players,
+  currentPlayerIndex
+}) => (
+  <div className="bg-slate-800 rounded-xl border border-slate-700 overflow-hidden">
+    <table className="w-full text-center">
+      <thead>
+        <tr className="border-b border-slate-700">
+          <th className="py-2 text-xs text-slate-500 uppercase" />
+          {players.map((p, i) => (
+            <th
+              key={p.id ?? i}
+              className={`py-2 font-bold ${i === currentPlayerIndex ? 'text-gold-500' : 'text-slate-300'}`}
+            >
+              {p.name}
+              <span className="block text-[10px] text-slate-500 font-semibold">
+                Legs {p.legs} · MPR {calculateMarksPerRound(p.totalMarks, p.rounds).toFixed(2)}
+              </span>
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody>
+        {CRICKET_NUMBERS.map(n => {
+          const allClosed = players.every(p => p.marks[n] >= MARKS_TO_CLOSE);
+          return (
+            <tr key={n} className={`border-b border-slate-700/50 ${allClosed ? 'opacity-40' : ''}`}>
+              <td className="py-1.5 font-bold text-slate-400">{numberLabel(n)}</td>
+              {players.map((p, i) => (
+                <td key={p.id ?? i} className="py-1.5 text-xl font-black text-white">
+                  {formatMarks(p.marks[n])}
+                </td>
+              ))}
+            </tr>
+          );
+        })}
+        <tr>
+          <td className="py-2 text-xs text-slate-500 uppercase">Pts</td>
+          {players.map((p, i) => (
+            <td key={p.id ?? i} className="py-2 text-2xl font-black text-gold-500">{p.points}</td>
+          ))}
+        </tr>
+      </tbody>
+    </table>
+  </div>
+));
+
+CricketBoard.displayName = 'CricketBoard';
+
+// ==================== CRICKET SCORER COMPONENT ====================
+
+interface CricketScorerProps {
+  playerNames: readonly string[];
+  config?: Partial<CricketConfig>;
+  onMatchComplete?: (players: CricketPlayerState[], winnerIndex: number) => void;
+}
+
+export const CricketScorer: React.FC<CricketScorerProps> = memo(({
+  playerNames,
+  config,
+  onMatchComplete
+}) => {
+  // The game mode owns the leg, turn and win rules
+  const mode = useMemo(() => new CricketGameMode(), []);
+  const [state, setState] = useState<CricketModeState>(() =>
+    mode.createState({ ...DEFAULT_CRICKET_CONFIG, ...config }, playerNames.map(name => ({ name })))
+  );
+  const [darts, setDarts] = useState<Dart[]>([]);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const engine = useMemo(() => new CricketScoringEngine(state.config), [state.config]);
+  const { players, currentPlayerIndex, isComplete } = state;
+
+  const scoringNumbers = useMemo(
+    () => engine.getScoringNumbers(players, currentPlayerIndex),
+    [engine, players, currentPlayerIndex]
+  );
+
+  const submitVisit = useCallback((visit: Dart[]) => {
+    const result = mode.applyVisit(state, { kind: 'darts', darts: visit });
+    setMessage(result.message ?? null);
+    if (!result.success) return;
+
+    setDarts([]);
+    setState(result.state);
+    if (result.isMatchWon) {
+      onMatchComplete?.(result.state.players, result.state.winnerIndex!);
+    }
+  }, [mode, state, onMatchComplete]);
+
+  const handleDart = useCallback((segment: number, multiplier: number) => {
+    if (isComplete) return;
+    const visit = [...darts, createDart(segment, multiplier as DartMultiplier)];
+
+    // Submit at three darts, or as soon as the leg is won
+    if (visit.length === DARTS_PER_VISIT ||
+        mode.applyVisit(state, { kind: 'darts', darts: visit }).isLegWon) {
+      submitVisit(visit);
+    } else {
+      setDarts(visit);
+      setMessage(null);
+    }
+  }, [darts, mode, state, submitVisit, isComplete]);
+
+  const handleUndoDart = useCallback(() => {
+    setDarts(prev => prev.slice(0, -1));
+  }, []);
+
+  const handleEnter = useCallback(() => {
+    if (isComplete) return;
+    // Darts not entered count as misses
+    const visit = [...darts];
+    while (visit.length < DARTS_PER_VISIT) visit.push(MISS);
+    submitVisit(visit);
+  }, [darts, submitVisit, isComplete]);
+
+  const lastDart = darts[darts.length - 1];
+
+  return (
+    <div className="flex flex-col gap-4">
+      <CricketBoard players={players} currentPlayerIndex={currentPlayerIndex} />
+
+      <div className="text-center">
+        <div className="text-sm text-slate-400">
+          {players[currentPlayerIndex].name} · Dart {darts.length + 1} of {DARTS_PER_VISIT}
+        </div>
+        <div className="text-lg font-bold text-white min-h-[1.75rem]">
+          {darts.length > 0 ? formatVisit(darts) : ''}
+        </div>
+        {message && <div className="text-sm text-gold-500">{message}</div>}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2">
+        {CRICKET_NUMBERS.map(n => {
+          const marks = players[currentPlayerIndex].marks[n];
+          return (
+            <ScoreCardInput
+              key={n}
+              label={numberLabel(n)}
+              subLabel={marks >= MARKS_TO_CLOSE ? 'Closed' : `${marks} / ${MARKS_TO_CLOSE}`}
+              value={lastDart && lastDart.segment === n ? lastDart.multiplier : -1}
+              onChange={(multiplier) => handleDart(n, multiplier)}
+              disableTreble={n === BULL_SEGMENT}
+              highlight={scoringNumbers.includes(n)}
+            />
+          );
+        })}
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        <Button variant="secondary" onClick={handleUndoDart} disabled={darts.length === 0}>
+          Undo Dart
+        </Button>
+        <Button onClick={handleEnter} disabled={isComplete}>
+          Enter
+        </Button>
+      </div>
+    </div>
+  );
+});
+
+CricketScorer.displayName = 'CricketScorer';
+
+// ==================== DEFAULT EXPORT ====================
+
+export default {
+  CricketBoard,
+  CricketScorer
+};
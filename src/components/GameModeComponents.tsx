@@ -0,0 +1,134 @@
+/**
+ * Game Mode React Components
+ * Mode picker and settings form generated from each mode's config schema
+ *
+ * Performance optimizations:
+ * - React.memo for all components
+ * - useCallback for event handlers
+ */
+
+import React, { memo, useCallback, useMemo } from 'react';
+import {
+  getAllGameModes,
+  getGameMode,
+  type GameModeConfigField
+} from '../scoring/gameModes';
+
+export interface GameModeSelection {
+  modeId: string;
+  config: Record<string, unknown>;
+}
+
+const OPTION_BASE = 'py-3 rounded-lg font-bold transition-all';
+const OPTION_ON = 'bg-gold-500 text-black';
+const OPTION_OFF = 'bg-slate-700 text-slate-300 hover:bg-slate-600';
+
+const optionLabel = (option: string | number): string =>
+  typeof option === 'number'
+    ? String(option)
+    : option.split('_').map(w => w.charAt(0).toUpperCase() + w.slice(1)).join(' ');
+
+// ==================== CONFIG FIELD COMPONENT ====================
+
+interface ConfigFieldProps {
+  field: GameModeConfigField;
+  value: unknown;
+  onChange: (key: string, value: unknown) => void;
+}
+
+const ConfigField: React.FC<ConfigFieldProps> = memo(({ field, value, onChange }) => (
+  <div>
+    <label className="block text-sm text-slate-400 mb-2">{field.label}</label>
+    {field.type === 'select' ? (
+      <div className={`grid gap-2 ${field.options && field.options.length > 2 ? 'grid-cols-3' : 'grid-cols-2'}`}>
+        {field.options?.map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => onChange(field.key, option)}
+            className={`${OPTION_BASE} ${value === option ? OPTION_ON : OPTION_OFF}`}
+          >
+            {optionLabel(option)}
+          </button>
+        ))}
+      </div>
+    ) : (
+      <input
+        type="number"
+        min={field.min}
+        max={field.max}
+        value={typeof value === 'number' ? value : ''}
+        placeholder={field.optional ? 'Off' : undefined}
+        onChange={(e) => onChange(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+        className="w-full bg-slate-900 border border-slate-600 rounded-lg px-4 py-3 text-white focus:border-gold-500 focus:outline-none transition-colors"
+      />
+    )}
+  </div>
+));
+
+ConfigField.displayName = 'ConfigField';
+
+// ==================== GAME MODE PICKER COMPONENT ====================
+
+interface GameModePickerProps {
+  value: GameModeSelection;
+  onChange: (selection: GameModeSelection) => void;
+}
+
+/**
+ * Lists every registered mode; switching mode starts from its defaults
+ */
+export const GameModePicker: React.FC<GameModePickerProps> = memo(({ value, onChange }) => {
+  const modes = useMemo(() => getAllGameModes(), []);
+  const mode = getGameMode(value.modeId);
+  const config = useMemo(
+    () => ({ ...(mode?.defaultConfig as Record<string, unknown>), ...value.config }),
+    [mode, value.config]
+  );
+
+  const handleMode = useCallback((modeId: string) => {
+    onChange({ modeId, config: {} });
+  }, [onChange]);
+
+  const handleField = useCallback((key: string, fieldValue: unknown) => {
+    onChange({ modeId: value.modeId, config: { ...value.config, [key]: fieldValue } });
+  }, [onChange, value]);
+
+  return (
+    <div className="flex flex-col gap-4">
+      <div>
+        <label className="block text-sm text-slate-400 mb-2">Game</label>
+        <div className="grid grid-cols-2 gap-2">
+          {modes.map(m => (
+            <button
+              key={m.id}
+              type="button"
+              title={m.description}
+              onClick={() => handleMode(m.id)}
+              className={`${OPTION_BASE} ${m.id === value.modeId ? OPTION_ON : OPTION_OFF}`}
+            >
+              {m.name}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {mode?.configSchema.map(field => (
+        <ConfigField
+          key={field.key}
+          field={field}
+          value={config[field.key]}
+          onChange={handleField}
+        />
+      ))}
+    </div>
+  );
+});
+
+GameModePicker.displayName = 'GameModePicker';
+
+// ==================== DEFAULT EXPORT ====================
+
+export default {
+  GameModePicker
+};
@@ -10,7 +10,10 @@
  */
 
 import React, { memo, useCallback, useMemo } from 'react';
-import { CHECKOUT_TABLE } from '../constants';
+import { getBestCheckout, type CheckoutPreferences } from '../scoring/checkoutSolver';
+import { getSetupAdvice } from '../scoring/setupAdvisor';
+import { MAX_CHECKOUT } from '../constants';
+import type { InOutRule } from '../types';
 
 // ==================== BUTTON COMPONENT ====================
 
@@ -554,17 +557,40 @@ ScoreCardInput.displayName = 'ScoreCardInput';
 
 interface CheckoutSuggestionProps {
   remaining: number;
+  dartsLeft?: number;            // Default 3 (start of visit)
+  outRule?: InOutRule;           // Default 'double'
+  preferences?: CheckoutPreferences;
+  showSetup?: boolean;           // Setup advice when there's no checkout (default true)
 }
 
-export const CheckoutSuggestion: React.FC<CheckoutSuggestionProps> = memo(({ remaining }) => {
-  const suggestion = CHECKOUT_TABLE[remaining];
+export const CheckoutSuggestion: React.FC<CheckoutSuggestionProps> = memo(({
+  remaining,
+  dartsLeft = 3,
+  outRule = 'double',
+  preferences,
+  showSetup = true
+}) => {
+  const suggestion = useMemo(() => {
+    const route = getBestCheckout(remaining, { ...preferences, dartsLeft, outRule });
+    if (route) return { kind: 'Checkout', label: route.label };
+
+    // Out of checkout range the advice is just where to score
+    const setup = showSetup ? getSetupAdvice(remaining, dartsLeft, { outRule }) : null;
+    return setup && { kind: remaining > MAX_CHECKOUT ? 'Score' : 'Setup', label: setup.label };
+  }, [remaining, dartsLeft, outRule, preferences, showSetup]);
+
+  if (!suggestion) return null;
 
-  if (!suggestion || remaining > 170) return null;
+  const isSetup = suggestion.kind !== 'Checkout';
 
   return (
-    <div className="bg-emerald-500/10 border border-emerald-500/30 rounded-lg p-2 text-center">
-      <span className="text-xs text-emerald-400 uppercase font-semibold">Checkout</span>
-      <div className="text-lg font-bold text-emerald-300">{suggestion}</div>
+    <div className={`rounded-lg p-2 text-center border ${
+      isSetup ? 'bg-sky-500/10 border-sky-500/30' : 'bg-emerald-500/10 border-emerald-500/30'
+    }`}>
+      <span className={`text-xs uppercase font-semibold ${isSetup ? 'text-sky-400' : 'text-emerald-400'}`}>
+        {suggestion.kind}
+      </span>
+      <div className={`text-lg font-bold ${isSetup ? 'text-sky-300' : 'text-emerald-300'}`}>{suggestion.label}</div>
     </div>
   );
 });
@@ -16,6 +16,18 @@ export {
   CheckoutSuggestion
 } from './ScorerComponents';
 
+// Cricket Components
+export {
+  CricketBoard,
+  CricketScorer
+} from './CricketComponents';
+
+// Game Mode Components
+export {
+  GameModePicker,
+  type GameModeSelection
+} from './GameModeComponents';
+
 // Broadcast Components
 export {
   ScoreboardHorizontal,
@@ -23,6 +35,8 @@ export {
   ScoreboardDualCam,
   LastThrowWidget,
   MatchStatsWidget,
+  CheckoutSuggestionWidget,
+  WinProbabilityWidget,
   OBS_WIDGET_CONFIGS,
   getOBSWidgetConfig,
   type BroadcastConfig,
@@ -3,6 +3,14 @@
  * Reduces duplication and improves maintainability
  */
 
+import { getBestCheckout, type CheckoutOptions } from '../scoring/checkoutSolver';
+import {
+  type RandomSource,
+  defaultRandom,
+  generateSeed,
+  randomInt
+} from '../utils/random';
+
 // ==================== VALID CHECKOUTS ====================
 
 /**
@@ -12,10 +20,10 @@
 export const VALID_CHECKOUTS = new Set([
   2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20,
   21, 22, 23, 24, 25, 26, 27, 28, 29, 30, 31, 32, 33, 34, 35, 36, 37, 38, 39, 40,
-  41, 42, 43, 44, 45, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58, 60,
-  61, 62, 63, 64, 65, 66, 67, 68, 70, 71, 72, 73, 74, 75, 76, 77, 78, 79, 80,
-  81, 82, 83, 84, 85, 86, 87, 88, 89, 90, 91, 92, 93, 94, 95, 96, 97, 98, 100,
-  101, 102, 103, 104, 105, 106, 107, 108, 110, 111, 112, 113, 114, 115, 116, 117, 118, 119, 120,
+  41, 42, 43, 44, 45, 46, 47, 48, 49, 50, 51, 52, 53, 54, 55, 56, 57, 58, 59, 60,
+  61, 62, 63, 64, 65, 66, 67, 68, 69, 70, 71, 72, 73, 74, 75, 76, 77, 78, 79, 80,
+  81, 82, 83, 84, 85, 86, 87, 88, 89, 90, 91, 92, 93, 94, 95, 96, 97, 98, 99, 100,
+  101, 102, 103, 104, 105, 106, 107, 108, 109, 110, 111, 112, 113, 114, 115, 116, 117, 118, 119, 120,
   121, 122, 123, 124, 125, 126, 127, 128, 129, 130, 131, 132, 133, 134, 135, 136, 137, 138, 139, 140,
   141, 142, 143, 144, 145, 146, 147, 148, 149, 150, 151, 152, 153, 154, 155, 156, 157, 158, 160,
   161, 164, 167, 170
@@ -29,11 +37,20 @@ export const INVALID_CHECKOUTS: readonly number[] = Object.freeze([
   159, 162, 163, 165, 166, 168, 169
 ]);
 
+/**
+ * Totals no 3-dart visit can score (rejected as visit totals and as checkouts)
+ */
+export const IMPOSSIBLE_VISIT_SCORES: readonly number[] = Object.freeze([
+  163, 166, 169, 172, 173, 175, 176, 178, 179
+]);
+
 // ==================== CHECKOUT SUGGESTIONS ====================
 
 /**
  * Common checkout combinations
  * Frozen object for immutability and performance
+ * @deprecated Use getCheckoutSuggestion / findCheckoutRoutes - this table ignores
+ * darts left, the out rule and player preferences
  */
 export const CHECKOUT_TABLE: Readonly<Record<number, string>> = Object.freeze({
   170: 'T20 T20 Bull',
@@ -196,7 +213,9 @@ export const DEFAULT_MATCH_CONFIG = {
   matchType: 'first_to',
   targetLegs: 3,
   doubleOut: true,
-  doubleIn: false
+  doubleIn: false,
+  outRule: 'double',
+  inRule: 'straight'
 } as const;
 
 // ==================== ROOM CODE GENERATION ====================
@@ -211,10 +230,10 @@ export const DEFAULT_CODE_LENGTH = 6;
 /**
  * Generate a random code
  */
-export function generateCode(length: number = DEFAULT_CODE_LENGTH): string {
+export function generateCode(length: number = DEFAULT_CODE_LENGTH, random: RandomSource = defaultRandom): string {
   let code = '';
   for (let i = 0; i < length; i++) {
-    code += CODE_CHARACTERS.charAt(Math.floor(Math.random() * CODE_CHARACTERS.length));
+    code += CODE_CHARACTERS.charAt(randomInt(CODE_CHARACTERS.length, random));
   }
   return code;
 }
@@ -248,19 +267,19 @@ export function isValidCheckout(score: number): boolean {
 }
 
 /**
- * Get checkout suggestion for a score
+ * Get checkout suggestion for a score (best route from the checkout solver)
  */
-export function getCheckoutSuggestion(score: number): string | null {
-  return CHECKOUT_TABLE[score] ?? null;
+export function getCheckoutSuggestion(score: number, options: CheckoutOptions = {}): string | null {
+  return getBestCheckout(score, options)?.label ?? null;
 }
 
 /**
  * Generate a URL-friendly slug
  */
-export function generateSlug(name: string): string {
+export function generateSlug(name: string, random: RandomSource = defaultRandom): string {
   return name
     .toLowerCase()
     .replace(/[^a-z0-9]+/g, '-')
     .replace(/^-|-$/g, '')
-    + '-' + Math.random().toString(36).substring(2, 6);
+    + '-' + generateSeed(random).substring(0, 4);
 }
@@ -51,6 +51,8 @@ CREATE TABLE IF NOT EXISTS matches (
   
   starting_score INTEGER DEFAULT 501,
   match_type VARCHAR(10) DEFAULT 'first_to', -- 'first_to' or 'best_of'
+  game_mode VARCHAR(30) DEFAULT 'x01',
+  game_config JSONB DEFAULT '{}',
   target_legs INTEGER DEFAULT 3,
   
   player1_legs INTEGER DEFAULT 0,
@@ -83,8 +85,24 @@ CREATE TABLE IF NOT EXISTS tournaments (
   
   legs_per_match INTEGER DEFAULT 3,
   match_type VARCHAR(10) DEFAULT 'first_to',
+  game_mode VARCHAR(30) DEFAULT 'x01',
+  game_config JSONB DEFAULT '{}',
   starting_score INTEGER DEFAULT 501,
   
+  seeding VARCHAR(20) DEFAULT 'random', -- random, rating, ranking, manual
+  seed_count INTEGER,
+  separate_clubs BOOLEAN DEFAULT false,
+  draw_seed VARCHAR(64),
+  draw_entrants JSONB, -- Entrants and seeds the draw used, e.g. [{"playerId": "...", "seed": 1, "clubId": "..."}]
+  grand_final_reset BOOLEAN DEFAULT true, -- Double elimination
+  swiss_rounds INTEGER,
+  swiss_cut INTEGER, -- Swiss: top N into a knockout
+  group_count INTEGER,
+  group_qualifiers INTEGER DEFAULT 2,
+  group_tiebreaks JSONB, -- e.g. ["points", "leg_difference", "head_to_head", "average"]
+  meetings INTEGER DEFAULT 1, -- Round robin: 2 = double round robin
+  boards INTEGER,
+  
   registration_start TIMESTAMP WITH TIME ZONE,
   registration_end TIMESTAMP WITH TIME ZONE,
   start_date TIMESTAMP WITH TIME ZONE,
@@ -115,6 +133,10 @@ CREATE TABLE IF NOT EXISTS tournament_matches (
   
   round INTEGER NOT NULL,
   match_number INTEGER NOT NULL,
+  stage VARCHAR(20), -- swiss, group, knockout
+  group_number INTEGER,
+  board_number INTEGER,
+  bracket VARCHAR(20), -- Double elimination: winners, losers, grand_final
   
   player1_id UUID REFERENCES players(id),
   player2_id UUID REFERENCES players(id),
@@ -125,7 +147,9 @@ CREATE TABLE IF NOT EXISTS tournament_matches (
   
   -- For bracket progression
   next_match_id UUID REFERENCES tournament_matches(id),
+  next_match_slot SMALLINT, -- 1 or 2
   loser_next_match_id UUID REFERENCES tournament_matches(id), -- For double elimination
+  loser_next_match_slot SMALLINT,
   
   status VARCHAR(20) DEFAULT 'pending', -- pending, ready, in_progress, completed, bye
   scheduled_time TIMESTAMP WITH TIME ZONE,
@@ -148,15 +172,31 @@ CREATE TABLE IF NOT EXISTS leagues (
   type VARCHAR(20) DEFAULT 'seasonal', -- weekly, monthly, seasonal
   status VARCHAR(20) DEFAULT 'draft', -- draft, active, completed
   
+  -- Divisions
+  parent_league_id UUID REFERENCES leagues(id) ON DELETE CASCADE,
+  division INTEGER, -- 1 = top
+  promotion_places INTEGER DEFAULT 0,
+  relegation_places INTEGER DEFAULT 0,
+  previous_season_id UUID REFERENCES leagues(id) ON DELETE SET NULL,
+  
+  -- Teams
+  team_league BOOLEAN DEFAULT false,
+  running_order JSONB, -- Team fixture card
+  
   max_players INTEGER,
   matches_per_week INTEGER DEFAULT 2,
+  meetings INTEGER DEFAULT 1, -- Times each pair meets in a season
   
   points_for_win INTEGER DEFAULT 3,
   points_for_draw INTEGER DEFAULT 1,
   points_for_loss INTEGER DEFAULT 0,
+  bonus_points JSONB, -- e.g. {"per_leg_won": 1, "whitewash": 1}
+  tiebreaks JSONB, -- After points, e.g. ["head_to_head", "legs_for", "average", "180s", "playoff"]
   
   legs_per_match INTEGER DEFAULT 5,
   match_type VARCHAR(10) DEFAULT 'first_to',
+  game_mode VARCHAR(30) DEFAULT 'x01',
+  game_config JSONB DEFAULT '{}',
   starting_score INTEGER DEFAULT 501,
   
   start_date DATE,
@@ -170,7 +210,7 @@ CREATE TABLE IF NOT EXISTS leagues (
 CREATE TABLE IF NOT EXISTS league_standings (
   id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
   league_id UUID REFERENCES leagues(id) ON DELETE CASCADE,
-  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE, -- team_id in team leagues
   
   position INTEGER DEFAULT 0,
   played INTEGER DEFAULT 0,
@@ -182,13 +222,18 @@ CREATE TABLE IF NOT EXISTS league_standings (
   legs_against INTEGER DEFAULT 0,
   leg_difference INTEGER DEFAULT 0,
   
-  points INTEGER DEFAULT 0,
+  points INTEGER DEFAULT 0, -- Including bonus, less deductions
+  bonus INTEGER DEFAULT 0,
+  deducted INTEGER DEFAULT 0,
+  playoff BOOLEAN DEFAULT false, -- Level after every tiebreak
   
   -- Stats
   average DECIMAL(5,2) DEFAULT 0,
   highest_checkout INTEGER DEFAULT 0,
   total_180s INTEGER DEFAULT 0,
   
+  withdrawn_at TIMESTAMP WITH TIME ZONE,
+  
   UNIQUE(league_id, player_id)
 );
 
@@ -203,13 +248,25 @@ CREATE TABLE IF NOT EXISTS league_matches (
   home_legs INTEGER DEFAULT 0,
   away_legs INTEGER DEFAULT 0,
   
-  status VARCHAR(20) DEFAULT 'scheduled', -- scheduled, in_progress, completed, postponed
+  status VARCHAR(20) DEFAULT 'scheduled', -- scheduled, in_progress, completed, postponed, cancelled
   scheduled_date DATE,
   completed_at TIMESTAMP WITH TIME ZONE,
   
   stats JSONB
 );
 
+CREATE TABLE IF NOT EXISTS league_point_deductions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  league_id UUID REFERENCES leagues(id) ON DELETE CASCADE,
+  player_id UUID REFERENCES players(id) ON DELETE CASCADE,
+  
+  points INTEGER NOT NULL CHECK (points > 0),
+  reason TEXT NOT NULL, -- Audit note
+  created_by UUID REFERENCES players(id),
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- ============================================================
 -- ONLINE PLAY
 -- ============================================================
@@ -226,6 +283,9 @@ CREATE TABLE IF NOT EXISTS online_matches (
   starting_score INTEGER DEFAULT 501,
   legs_to_win INTEGER DEFAULT 3,
   match_type VARCHAR(10) DEFAULT 'first_to',
+  game_mode VARCHAR(30) DEFAULT 'x01',
+  game_config JSONB DEFAULT '{}',
+  game_state JSONB, -- non-X01 modes; X01 replays match_events
   
   host_stream_enabled BOOLEAN DEFAULT false,
   guest_stream_enabled BOOLEAN DEFAULT false,
@@ -307,6 +367,18 @@ CREATE TABLE IF NOT EXISTS throws (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Append-only event log per match (source of truth - replayed through the engine)
+CREATE TABLE IF NOT EXISTS match_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL, -- Can reference matches, tournament_matches, league_matches, or online_matches
+  seq INTEGER NOT NULL,
+  event_type VARCHAR(20) NOT NULL, -- match_created, visit, bust, leg_won, set_won, undo, forfeit
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  
+  UNIQUE(match_id, seq)
+);
+
 -- ============================================================
 -- INDEXES
 -- ============================================================
@@ -325,6 +397,7 @@ CREATE INDEX IF NOT EXISTS idx_tournament_matches_tournament ON tournament_match
 CREATE INDEX IF NOT EXISTS idx_tournament_matches_round ON tournament_matches(tournament_id, round);
 
 CREATE INDEX IF NOT EXISTS idx_leagues_status ON leagues(status);
+CREATE INDEX IF NOT EXISTS idx_leagues_parent ON leagues(parent_league_id, division);
 
 CREATE INDEX IF NOT EXISTS idx_league_standings_league ON league_standings(league_id);
 CREATE INDEX IF NOT EXISTS idx_league_standings_position ON league_standings(league_id, position);
@@ -332,12 +405,16 @@ CREATE INDEX IF NOT EXISTS idx_league_standings_position ON league_standings(lea
 CREATE INDEX IF NOT EXISTS idx_league_matches_league ON league_matches(league_id);
 CREATE INDEX IF NOT EXISTS idx_league_matches_week ON league_matches(league_id, week);
 
+CREATE INDEX IF NOT EXISTS idx_league_point_deductions_league ON league_point_deductions(league_id);
+
 CREATE INDEX IF NOT EXISTS idx_online_matches_room_code ON online_matches(room_code);
 CREATE INDEX IF NOT EXISTS idx_online_matches_status ON online_matches(status);
 CREATE INDEX IF NOT EXISTS idx_online_matches_host ON online_matches(host_id);
 
 CREATE INDEX IF NOT EXISTS idx_spectators_match ON spectators(match_id);
 
+CREATE INDEX IF NOT EXISTS idx_match_events_match ON match_events(match_id, seq);
+
 CREATE INDEX IF NOT EXISTS idx_webrtc_signals_match ON webrtc_signals(match_id);
 CREATE INDEX IF NOT EXISTS idx_webrtc_signals_to_user ON webrtc_signals(to_user_id, processed);
 
@@ -383,6 +460,7 @@ ALTER TABLE tournament_matches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE leagues ENABLE ROW LEVEL SECURITY;
 ALTER TABLE league_standings ENABLE ROW LEVEL SECURITY;
 ALTER TABLE league_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE league_point_deductions ENABLE ROW LEVEL SECURITY;
 ALTER TABLE online_matches ENABLE ROW LEVEL SECURITY;
 ALTER TABLE spectators ENABLE ROW LEVEL SECURITY;
 
@@ -478,6 +556,10 @@ CREATE TABLE IF NOT EXISTS organization_invites (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Tournament host (ranking seeds) and the club each player entered for
+ALTER TABLE tournaments ADD COLUMN IF NOT EXISTS organization_id UUID REFERENCES organizations(id);
+ALTER TABLE tournament_registrations ADD COLUMN IF NOT EXISTS club_id UUID REFERENCES organizations(id);
+
 -- ============================================================
 -- ADVANCED STATISTICS
 -- ============================================================
@@ -523,6 +605,7 @@ CREATE TABLE IF NOT EXISTS player_lifetime_stats (
   stats_501 JSONB DEFAULT '{}',
   stats_301 JSONB DEFAULT '{}',
   stats_cricket JSONB,
+  practice_bests JSONB DEFAULT '{}',
   
   rating INTEGER DEFAULT 1000,
   
@@ -763,6 +846,8 @@ CREATE TABLE IF NOT EXISTS doubles_matches (
   starting_score INTEGER DEFAULT 501,
   target_legs INTEGER DEFAULT 3,
   match_type VARCHAR(10) DEFAULT 'first_to',
+  game_mode VARCHAR(30) DEFAULT 'x01',
+  game_config JSONB DEFAULT '{}',
   
   status VARCHAR(20) DEFAULT 'pending',
   winner_team_id UUID REFERENCES teams(id),
@@ -770,6 +855,53 @@ CREATE TABLE IF NOT EXISTS doubles_matches (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+CREATE TABLE IF NOT EXISTS team_fixtures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  home_team_id UUID REFERENCES teams(id) NOT NULL,
+  away_team_id UUID REFERENCES teams(id) NOT NULL,
+  league_match_id UUID REFERENCES league_matches(id) ON DELETE SET NULL,
+  
+  running_order JSONB NOT NULL, -- e.g. [{"type": "singles", "legs": 3}, {"type": "pairs", "legs": 3}, {"type": "team", "legs": 1}]
+  home_line_up JSONB, -- Player ids for each rubber
+  away_line_up JSONB,
+  
+  home_points INTEGER DEFAULT 0,
+  away_points INTEGER DEFAULT 0,
+  
+  status VARCHAR(20) DEFAULT 'awaiting_line_ups', -- awaiting_line_ups, in_progress, completed
+  winner_team_id UUID REFERENCES teams(id),
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS team_rubbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fixture_id UUID REFERENCES team_fixtures(id) ON DELETE CASCADE,
+  rubber_number INTEGER NOT NULL,
+  type VARCHAR(10) NOT NULL, -- singles, pairs, team
+  
+  home_player_ids UUID[] NOT NULL,
+  away_player_ids UUID[] NOT NULL,
+  
+  home_legs INTEGER DEFAULT 0,
+  away_legs INTEGER DEFAULT 0,
+  
+  status VARCHAR(20) DEFAULT 'pending', -- pending, completed
+  winner VARCHAR(4), -- home, away
+  stats JSONB,
+  
+  UNIQUE(fixture_id, rubber_number)
+);
+
+-- Team leagues: entrants are teams
+ALTER TABLE league_standings ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS home_team_id UUID REFERENCES teams(id);
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS away_team_id UUID REFERENCES teams(id);
+ALTER TABLE league_point_deductions ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_league_standings_team ON league_standings(league_id, team_id);
+
 -- ============================================================
 -- ADDITIONAL INDEXES
 -- ============================================================
@@ -785,6 +917,7 @@ CREATE INDEX IF NOT EXISTS idx_venues_slug ON venues(slug);
 CREATE INDEX IF NOT EXISTS idx_venues_country ON venues(country);
 CREATE INDEX IF NOT EXISTS idx_kiosk_boards_venue ON kiosk_boards(venue_id);
 CREATE INDEX IF NOT EXISTS idx_teams_org ON teams(organization_id);
+CREATE INDEX IF NOT EXISTS idx_team_fixtures_teams ON team_fixtures(home_team_id, away_team_id);
 
 -- ============================================================
 -- HELPER FUNCTIONS
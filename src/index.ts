@@ -8,18 +8,152 @@
 // ==================== SCORING MODULE ====================
 export {
   DartsScoringEngine,
+  MatchController,
+  MatchLog,
+  CricketScoringEngine,
+  AroundTheClockGame,
+  BobsTwentySevenGame,
+  ShanghaiGame,
+  CheckoutLadderGame,
+  CatchFortyGame,
+  X01GameMode,
+  CricketGameMode,
   DartsBotEngine,
   BOT_LEVELS,
   formatAverage,
   calculateFirst9Average,
   isValidCheckout,
   calculateCheckoutPercentage,
+  winsNeeded,
+  isRuleDart,
   getBotLevelById,
   getBotLevelByName,
   getAllBotLevels,
+  scatterForAverage,
+  BOT_STRATEGY_PROFILES,
+  getBotStrategy,
+  chooseBotTarget,
+  getPlannedTarget,
+  isTargetBlocked,
+  summarizeStatistics,
+  fitBotLevel,
+  estimateBotLevel,
+  calibrateBotLevel,
+  verifyBotLevel,
+  simulateBotLegs,
+  DEFAULT_CALIBRATION_TOLERANCE,
+  MISS,
+  SINGLE_BULL,
+  BULLSEYE,
+  BULL_SEGMENT,
+  DARTS_PER_VISIT,
+  createDart,
+  isValidDart,
+  getDartScore,
+  getVisitTotal,
+  isDouble,
+  isTreble,
+  formatDart,
+  parseDart,
+  parseVisit,
+  formatVisit,
+  findCheckoutRoutes,
+  getBestCheckout,
+  canCheckout,
+  getCheckoutTable,
+  getFinishProbability,
+  getDartOutcomes,
+  resolveDart,
+  getSetupAdvice,
+  DEFAULT_HIT_RATES,
+  BOARD_SEGMENTS,
+  BOARD_DIMENSIONS,
+  getTargetPoint,
+  getDartAt,
+  getWireDistance,
+  throwDart,
+  CRICKET_NUMBERS,
+  MARKS_TO_CLOSE,
+  PERFECT_ROUND_MARKS,
+  DEFAULT_CRICKET_CONFIG,
+  calculateMarksPerRound,
+  formatMarks,
+  registerPracticeGame,
+  getPracticeGame,
+  getAllPracticeGames,
+  isPracticeBest,
+  formatPracticeVisit,
+  DEFAULT_GAME_MODE,
+  registerGameMode,
+  getGameMode,
+  getAllGameModes,
+  resolveGameSettings,
+  resolveModeConfig,
   type PlayerState,
   type ThrowResult,
-  type BotLevel
+  type CheckoutPreferences,
+  type CheckoutOptions,
+  type CheckoutRoute,
+  type HitRates,
+  type SetupOptions,
+  type SetupAdvice,
+  type BoardPoint,
+  type DartLanding,
+  type MatchPlayer,
+  type VisitInput,
+  type MatchVisit,
+  type MatchControllerState,
+  type MatchSnapshot,
+  type MatchControllerOptions,
+  type MatchEvent,
+  type MatchEventType,
+  type MatchCreatedEvent,
+  type VisitEvent,
+  type BustEvent,
+  type LegWonEvent,
+  type SetWonEvent,
+  type UndoEvent,
+  type ForfeitEvent,
+  type MatchLogState,
+  type MatchControllerView,
+  type CricketVariant,
+  type CricketConfig,
+  type CricketPlayerState,
+  type CricketThrowResult,
+  type PracticeGame,
+  type PracticeState,
+  type PracticeVisit,
+  type PracticeVisitResult,
+  type AroundTheClockOptions,
+  type AroundTheClockState,
+  type ShanghaiOptions,
+  type ShanghaiState,
+  type CheckoutLadderOptions,
+  type CheckoutLadderState,
+  type CatchFortyState,
+  type GameMode,
+  type GameModeConfigField,
+  type GameModeState,
+  type GameModeVisitResult,
+  type GameModePlayerStats,
+  type GameSettings,
+  type X01ModeState,
+  type CricketModeState,
+  type BotLevel,
+  type BotVisit,
+  type BotOptions,
+  type BotStrategyProfile,
+  type BotAimContext,
+  type BotCalibrationSample,
+  type BotCalibrationTarget,
+  type BotSimulationOptions,
+  type BotSimulationResult,
+  type BotCalibrationTolerance,
+  type BotVerification,
+  type BotCalibrationOptions,
+  type BotCalibration,
+  type Dart,
+  type DartMultiplier
 } from './scoring';
 
 // ==================== COMPONENTS MODULE ====================
@@ -33,13 +167,19 @@ export {
   Modal,
   ScoreCardInput,
   CheckoutSuggestion,
+  CricketBoard,
+  CricketScorer,
+  GameModePicker,
   ScoreboardHorizontal,
   ScoreboardTV,
   ScoreboardDualCam,
   LastThrowWidget,
   MatchStatsWidget,
+  CheckoutSuggestionWidget,
+  WinProbabilityWidget,
   OBS_WIDGET_CONFIGS,
   getOBSWidgetConfig,
+  type GameModeSelection,
   type BroadcastConfig,
   type BroadcastPlayer,
   type BroadcastMatchState,
@@ -79,30 +219,102 @@ export {
 export {
   TournamentService,
   LeagueService,
+  resolveMatchSettings,
+  isX01Settings,
+  buildSingleEliminationBracket,
+  buildDoubleEliminationBracket,
+  drawFirstRound,
+  getSeedPositions,
+  getDrawOrder,
+  offsetMatchNumbers,
+  pairSwissRound,
+  getSwissStandings,
+  getSwissRoundCount,
+  SWISS_POINTS,
+  assignGroups,
+  buildGroupStage,
+  getGroupCount,
+  getGroupStandings,
+  getGroupsFromMatches,
+  getKnockoutQualifiers,
+  GROUP_POINTS,
+  DEFAULT_GROUP_TIEBREAKS,
+  scheduleRoundRobin,
+  buildRoundRobinMatches,
+  getBoardNumber,
+  rankByTiebreaks,
+  scheduleSeason,
+  scheduleJoiner,
+  findFixtureWeek,
+  getSeasonWeekCount,
+  getWeekDate,
+  getNextWeek,
+  getLeagueStandings,
+  getMatchPoints,
+  getBonusPoints,
+  getEntrantId,
+  getMatchEntrants,
+  DEFAULT_LEAGUE_TIEBREAKS,
+  planDivisionMovements,
+  getSeasonSettings,
   StatisticsService,
   OrganizationService,
   SMSService,
   TeamService,
+  validateLineUp,
+  getTeamMembers,
+  getRubberSize,
+  getRubberWinner,
+  getTeamResult,
+  DEFAULT_RUNNING_ORDER,
   TwilioSMSProvider,
   MockSMSProvider,
   KioskService,
   VenueService,
   BroadcastService,
+  MatchEventService,
   ACHIEVEMENTS,
   KIOSK_MENU_OPTIONS,
   OBS_SCRIPT_TEMPLATE,
+  type MatchSettings,
   type Tournament,
   type TournamentFormat,
   type TournamentStatus,
+  type SeedingMode,
   type TournamentRegistration,
   type TournamentMatch,
+  type BracketSide,
+  type TournamentStage,
+  type MatchSlot,
+  type BracketMatch,
+  type DrawEntrant,
+  type DrawOptions,
+  type DoubleEliminationOptions,
+  type SwissStanding,
+  type GroupTiebreak,
+  type GroupStanding,
+  type RoundRobinOptions,
+  type RoundRobinFixture,
+  type RoundRobinRound,
+  type TiebreakValue,
   type League,
   type LeagueType,
   type LeagueStanding,
   type LeagueMatch,
+  type SeasonOptions,
+  type LeagueFixture,
+  type LeagueTiebreak,
+  type LeagueBonusPoints,
+  type LeagueDeduction,
+  type LeagueScoring,
+  type DivisionTable,
+  type DivisionMove,
+  type SeasonPlan,
   type PlayerLifetimeStats,
   type FormatStats,
   type CricketStats,
+  type CricketMatchStatistics,
+  type PracticeBest,
   type MatchStatistics,
   type Ranking,
   type Achievement,
@@ -116,14 +328,46 @@ export {
   type SMSProvider,
   type Team,
   type DoublesMatch,
+  type TeamFixture,
+  type TeamRubber,
+  type RubberType,
+  type RubberFormat,
+  type TeamResult,
   type Venue,
   type VenueHours,
   type KioskBoard,
   type KioskSession,
   type ScoreCode,
-  type KioskState
+  type KioskState,
+  type MatchEventRow
 } from './services';
 
+// ==================== ANALYTICS MODULE ====================
+export {
+  predictWinProbability,
+  getPreMatchOdds,
+  getMatchFormat,
+  getBroadcastSituation,
+  DEFAULT_PLAYER_PROFILE,
+  type PlayerProfile,
+  type MatchFormat,
+  type MatchSituation,
+  type WinProbability,
+  type PredictionOptions
+} from './analytics';
+
+// ==================== UTILITIES ====================
+export {
+  createRandom,
+  generateSeed,
+  defaultRandom,
+  setRandomSource,
+  randomInt,
+  pickRandom,
+  shuffle,
+  type RandomSource
+} from './utils';
+
 // ==================== CONSTANTS ====================
 export {
   VALID_CHECKOUTS,
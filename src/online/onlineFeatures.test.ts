@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { OnlineMatchService } from './onlineFeatures';
+import { createFakeDatabase } from '../test/fakeDatabase';
+import { createRandom } from '../utils/random';
+
+const setup = async () => {
+  const db = createFakeDatabase();
+  const service = new OnlineMatchService(db, { random: createRandom(1) });
+  const match = await service.createMatch('host', { starting_score: 501, legs_to_win: 1 });
+  return { db, service, match };
+};
+
+describe('OnlineMatchService.joinMatch', () => {
+  it('starts the match log when the guest joins', async () => {
+    const { db, service, match } = await setup();
+    const joined = await service.joinMatch(match.room_code, 'guest');
+
+    expect(joined).toMatchObject({ status: 'ready', guest_id: 'guest' });
+    expect(db.tables.match_events.map(e => e.event_type)).toEqual(['match_created']);
+
+    const result = await service.recordVisit(match.id, 'host', { kind: 'total', score: 100 });
+    expect(result.success).toBe(true);
+  });
+
+  it('reopens the room when the match log cannot be written', async () => {
+    const { db, service, match } = await setup();
+    db.failOn = (table, action) => table === 'match_events' && action === 'insert';
+
+    await expect(service.joinMatch(match.room_code, 'guest')).rejects.toThrow();
+    expect(db.tables.online_matches[0]).toMatchObject({ status: 'waiting', guest_id: null });
+
+    db.failOn = undefined;
+    await expect(service.joinMatch(match.room_code, 'guest')).resolves.toMatchObject({ status: 'ready' });
+  });
+});
@@ -9,7 +9,18 @@
  */
 
 import { generateCode } from '../constants';
-import type { DatabaseClient } from '../types';
+import type { DatabaseClient, MatchConfig } from '../types';
+import type { ThrowResult } from '../scoring/scoringEngine';
+import type { MatchPlayer, VisitInput } from '../scoring/matchController';
+import { MatchLog } from '../scoring/matchLog';
+import {
+  X01GameMode,
+  resolveGameSettings,
+  type GameMode,
+  type GameModeState
+} from '../scoring/gameModes';
+import { MatchEventService } from '../services/matchEventService';
+import { type RandomSource, defaultRandom } from '../utils/random';
 
 // ==================== TYPES ====================
 
@@ -23,6 +34,9 @@ export interface OnlineMatch {
   starting_score: number;
   legs_to_win: number;
   match_type: 'first_to' | 'best_of';
+  game_mode?: string;                    // Registered game mode id (default 'x01')
+  game_config?: Record<string, unknown>;
+  game_state?: GameModeState;            // Non-X01 modes; X01 is event-sourced in match_events
 
   host_stream_enabled: boolean;
   guest_stream_enabled: boolean;
@@ -35,6 +49,7 @@ export interface OnlineMatch {
   guest_legs: number;
 
   created_at: string;
+  completed_at?: string;
 }
 
 export interface Spectator {
@@ -316,13 +331,41 @@ export class WebRTCPeer {
 
 // ==================== ONLINE MATCH SERVICE ====================
 
+const PLAYER_INDEX: Readonly<Record<'host' | 'guest', number>> = Object.freeze({
+  host: 0,
+  guest: 1
+});
+
+/**
+ * Game mode and config for an online match
+ * Legacy rows: legs_to_win is the number of legs needed, whatever match_type says
+ */
+function resolveMatchMode(match: Partial<OnlineMatch>): { mode: GameMode; config: object } {
+  return resolveGameSettings(match, {
+    startingScore: match.starting_score,
+    matchType: 'first_to',
+    targetLegs: match.legs_to_win
+  });
+}
+
+function onlinePlayers(hostId: string, guestId?: string): MatchPlayer[] {
+  return [
+    { name: 'Host', id: hostId },
+    { name: 'Guest', id: guestId }
+  ];
+}
+
 export class OnlineMatchService {
   private db: DatabaseClient;
+  private events: MatchEventService;
+  private random: RandomSource;
   private realtimeChannel: unknown;
   private webrtcPeer: WebRTCPeer | null = null;
 
-  constructor(dbClient: DatabaseClient) {
+  constructor(dbClient: DatabaseClient, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.events = new MatchEventService(dbClient);
+    this.random = options.random ?? defaultRandom;
   }
 
   /**
@@ -332,7 +375,11 @@ export class OnlineMatchService {
     hostId: string,
     settings: Partial<OnlineMatch>
   ): Promise<OnlineMatch> {
-    const roomCode = generateCode(6);
+    const roomCode = generateCode(6, this.random);
+
+    // Validates the mode and config before the room exists
+    const { mode, config } = resolveMatchMode(settings);
+    const [openingScore] = mode.getScores(mode.createState(config, onlinePlayers(hostId)));
 
     const { data, error } = await this.db
       .from('online_matches')
@@ -343,12 +390,14 @@ export class OnlineMatchService {
         starting_score: settings.starting_score || 501,
         legs_to_win: settings.legs_to_win || 3,
         match_type: settings.match_type || 'first_to',
+        game_mode: mode.id,
+        game_config: config,
         host_stream_enabled: settings.host_stream_enabled || false,
         guest_stream_enabled: settings.guest_stream_enabled || false,
         spectators_allowed: settings.spectators_allowed ?? true,
         current_player: 'host',
-        host_score: settings.starting_score || 501,
-        guest_score: settings.starting_score || 501,
+        host_score: openingScore,
+        guest_score: openingScore,
         host_legs: 0,
         guest_legs: 0,
         created_at: new Date().toISOString()
@@ -375,18 +424,41 @@ export class OnlineMatchService {
       throw new Error('Match not found or already started');
     }
 
+    const waiting = match as OnlineMatch;
+    const { mode, config } = resolveMatchMode(waiting);
+    const players = onlinePlayers(waiting.host_id, guestId);
+    const isX01 = mode instanceof X01GameMode;
+
     const { data, error } = await this.db
       .from('online_matches')
       .update({
         guest_id: guestId,
-        status: 'ready'
+        status: 'ready',
+        ...(isX01 ? {} : { game_state: mode.createState(config, players) })
       })
-      .eq('id', (match as OnlineMatch).id)
+      .eq('id', waiting.id)
       .select()
       .single();
 
     if (error) throw error;
-    return data as OnlineMatch;
+
+    // Both players known - start the match log
+    const joined = data as OnlineMatch;
+    if (isX01) {
+      const log = MatchLog.create(config as MatchConfig, players);
+      try {
+        await this.events.appendEvents(joined.id, log.getEvents());
+      } catch (err) {
+        // A ready match with no log can't be scored - reopen the room
+        await this.db
+          .from('online_matches')
+          .update({ guest_id: null, status: 'waiting' })
+          .eq('id', joined.id);
+        throw err;
+      }
+    }
+
+    return joined;
   }
 
   /**
@@ -451,69 +523,197 @@ export class OnlineMatchService {
   }
 
   /**
-   * Record a throw and update scores
+   * Record a throw (3-dart total) and update scores
    */
   async recordThrow(
     matchId: string,
     player: 'host' | 'guest',
     score: number
-  ): Promise<void> {
-    const { data: match } = await this.db
-      .from('online_matches')
-      .select('*')
-      .eq('id', matchId)
-      .single();
+  ): Promise<ThrowResult> {
+    return this.recordVisit(matchId, player, { kind: 'total', score });
+  }
+
+  /**
+   * Record a visit in the match log and sync the match row from the replayed state
+   */
+  async recordVisit(
+    matchId: string,
+    player: 'host' | 'guest',
+    input: VisitInput
+  ): Promise<ThrowResult> {
+    const match = await this.requireMatch(matchId);
+    const { mode } = resolveMatchMode(match);
+    if (!(mode instanceof X01GameMode)) {
+      return this.recordModeVisit(match, mode, player, input);
+    }
+
+    const log = await this.requireLog(matchId);
+    const persistedSeq = log.getLastSeq();
+
+    if (log.getState().currentPlayerIndex !== PLAYER_INDEX[player]) {
+      throw new Error('Not your turn');
+    }
+
+    const result = input.kind === 'darts'
+      ? log.recordDarts(input.darts)
+      : log.recordScore(input.score);
 
-    if (!match) throw new Error('Match not found');
+    if (!result.success) return result;
 
-    const typedMatch = match as OnlineMatch;
-    const currentScore = player === 'host' ? typedMatch.host_score : typedMatch.guest_score;
-    const newScore = currentScore - score;
+    await this.events.saveLog(matchId, log, persistedSeq);
+    await this.syncMatchState(matchId, log);
+    return result;
+  }
+
+  /**
+   * Non-X01 modes: apply the visit to the stored game state
+   */
+  private async recordModeVisit(
+    match: OnlineMatch,
+    mode: GameMode,
+    player: 'host' | 'guest',
+    input: VisitInput
+  ): Promise<ThrowResult> {
+    if (!match.game_state) throw new Error('Match has not started');
+    if (match.game_state.currentPlayerIndex !== PLAYER_INDEX[player]) {
+      throw new Error('Not your turn');
+    }
+
+    const result = mode.applyVisit(match.game_state, input);
+    const scores = mode.getScores(result.state);
+    const throwResult: ThrowResult = {
+      success: result.success,
+      newScore: scores[PLAYER_INDEX[player]],
+      isBust: false,
+      isLegWon: result.isLegWon,
+      isSetWon: false,
+      isMatchWon: result.isMatchWon,
+      message: result.message
+    };
+
+    if (!result.success) return throwResult;
+
+    await this.syncModeState(match.id, mode, result.state);
+    return throwResult;
+  }
 
-    // Handle bust
-    if (newScore < 0 || newScore === 1) {
-      await this.updateMatchState(matchId, {
-        current_player: player === 'host' ? 'guest' : 'host'
+  /**
+   * Take back the last visit (recorded as an undo event)
+   * X01 only - other modes keep no visit history
+   */
+  async undoLastVisit(matchId: string): Promise<boolean> {
+    const match = await this.requireMatch(matchId);
+    if (!(resolveMatchMode(match).mode instanceof X01GameMode)) return false;
+
+    const log = await this.requireLog(matchId);
+    const persistedSeq = log.getLastSeq();
+
+    if (!log.undo()) return false;
+
+    await this.events.saveLog(matchId, log, persistedSeq);
+    await this.syncMatchState(matchId, log);
+    return true;
+  }
+
+  /**
+   * Forfeit the match - the opponent wins
+   */
+  async forfeitMatch(
+    matchId: string,
+    player: 'host' | 'guest',
+    reason?: string
+  ): Promise<void> {
+    const match = await this.requireMatch(matchId);
+    const { mode } = resolveMatchMode(match);
+    if (!(mode instanceof X01GameMode)) {
+      if (!match.game_state || match.game_state.isComplete) {
+        throw new Error('Match has not started or is already complete');
+      }
+      await this.syncModeState(matchId, mode, {
+        ...match.game_state,
+        isComplete: true,
+        winnerIndex: 1 - PLAYER_INDEX[player]
       });
       return;
     }
 
-    // Handle checkout
-    if (newScore === 0) {
-      const newLegs = player === 'host'
-        ? typedMatch.host_legs + 1
-        : typedMatch.guest_legs + 1;
+    const log = await this.requireLog(matchId);
+    const persistedSeq = log.getLastSeq();
 
-      const isMatchWon = newLegs >= typedMatch.legs_to_win;
+    if (!log.forfeit(PLAYER_INDEX[player], reason)) {
+      throw new Error('Match is already complete');
+    }
 
-      const updates: Partial<OnlineMatch> = {
-        current_player: player,
-        status: isMatchWon ? 'completed' : 'in_progress'
-      };
+    await this.events.saveLog(matchId, log, persistedSeq);
+    await this.syncMatchState(matchId, log);
+  }
 
-      if (player === 'host') {
-        updates.host_score = typedMatch.starting_score;
-        updates.host_legs = newLegs;
-        updates.guest_score = typedMatch.starting_score;
-      } else {
-        updates.guest_score = typedMatch.starting_score;
-        updates.guest_legs = newLegs;
-        updates.host_score = typedMatch.starting_score;
-      }
+  /**
+   * Replay the match log, optionally up to a given event (audit / disputes)
+   */
+  async getMatchLog(matchId: string, uptoSeq?: number): Promise<MatchLog | null> {
+    return this.events.loadLog(matchId, uptoSeq);
+  }
 
-      await this.updateMatchState(matchId, updates);
-      return;
+  private async requireMatch(matchId: string): Promise<OnlineMatch> {
+    const { data } = await this.db
+      .from('online_matches')
+      .select('*')
+      .eq('id', matchId)
+      .single();
+
+    if (!data) throw new Error('Match not found');
+    return data as OnlineMatch;
+  }
+
+  private async requireLog(matchId: string): Promise<MatchLog> {
+    const log = await this.events.loadLog(matchId);
+    if (!log) throw new Error('Match has not started');
+    return log;
+  }
+
+  /**
+   * Write the replayed state back to the match row (read model for subscribers)
+   */
+  private async syncMatchState(matchId: string, log: MatchLog): Promise<void> {
+    const state = log.getState();
+    const [host, guest] = state.players;
+
+    const updates: Partial<OnlineMatch> = {
+      current_player: state.currentPlayerIndex === 0 ? 'host' : 'guest',
+      host_score: host.score,
+      guest_score: guest.score,
+      host_legs: host.legs,
+      guest_legs: guest.legs,
+      status: state.isComplete ? 'completed' : 'in_progress'
+    };
+
+    if (state.isComplete) {
+      updates.completed_at = new Date().toISOString();
     }
 
-    // Normal throw
+    await this.updateMatchState(matchId, updates);
+  }
+
+  /**
+   * Write a non-X01 game state and its scoreboard back to the match row
+   */
+  private async syncModeState(matchId: string, mode: GameMode, state: GameModeState): Promise<void> {
+    const [hostScore, guestScore] = mode.getScores(state);
+    const [host, guest] = mode.extractStats(state);
+
     const updates: Partial<OnlineMatch> = {
-      current_player: player === 'host' ? 'guest' : 'host'
+      game_state: state,
+      current_player: state.currentPlayerIndex === 0 ? 'host' : 'guest',
+      host_score: hostScore,
+      guest_score: guestScore,
+      host_legs: host.legsWon,
+      guest_legs: guest.legsWon,
+      status: state.isComplete ? 'completed' : 'in_progress'
     };
 
-    if (player === 'host') {
-      updates.host_score = newScore;
-    } else {
-      updates.guest_score = newScore;
+    if (state.isComplete) {
+      updates.completed_at = new Date().toISOString();
     }
 
     await this.updateMatchState(matchId, updates);
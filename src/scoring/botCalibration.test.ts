@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { BOT_LEVELS, scatterForAverage } from './botEngine';
+import {
+  estimateBotLevel,
+  fitBotLevel,
+  simulateBotLegs,
+  summarizeStatistics,
+  verifyBotLevel
+} from './botCalibration';
+import { createRandom } from '../utils/random';
+
+describe('summarizeStatistics', () => {
+  it('pools totals across matches', () => {
+    const target = summarizeStatistics([
+      { darts_thrown: 30, points_scored: 500, checkouts_hit: 1, checkout_attempts: 4 },
+      { darts_thrown: 60, points_scored: 1000, checkouts_hit: 2, checkout_attempts: 6, visit_history: [60, 40, 100] }
+    ]);
+
+    expect(target).toMatchObject({ average: 50, checkoutPercentage: 30, matches: 2 });
+    expect(target.consistency).toBeCloseTo(24.94, 2);
+  });
+
+  it('needs at least one dart', () => {
+    expect(() => summarizeStatistics([])).toThrow('No match statistics to calibrate from');
+  });
+});
+
+describe('estimateBotLevel', () => {
+  it('matches double scatter to scatter at the standard checkout rate', () => {
+    const level = estimateBotLevel({ average: 60, checkoutPercentage: 31 });
+    expect(level.scatter).toBeCloseTo(scatterForAverage(60), 2);
+    expect(level.doubleScatter).toBeCloseTo(level.scatter, 2);
+    expect(level.id).toBe(3);
+  });
+
+  it('tightens double scatter for a better finisher', () => {
+    const level = estimateBotLevel({ average: 60, checkoutPercentage: 62 });
+    expect(level.doubleScatter).toBeCloseTo(level.scatter / 2, 1);
+  });
+});
+
+describe('simulateBotLegs', () => {
+  it('is reproducible with a seeded random source', () => {
+    const run = () => simulateBotLegs(BOT_LEVELS[3], { legs: 10, random: createRandom('cal') });
+    expect(run()).toEqual(run());
+  });
+
+  it('counts every leg and attempt', () => {
+    const result = simulateBotLegs(BOT_LEVELS[4], { legs: 10, random: createRandom(4) });
+    expect(result.legs).toBe(10);
+    expect(result.checkoutsHit).toBe(10);
+    expect(result.checkoutAttempts).toBeGreaterThanOrEqual(10);
+    expect(result.average).toBeGreaterThan(60);
+  });
+});
+
+describe('fitting', () => {
+  it('checks a level against the tolerance', () => {
+    const target = { average: 200, checkoutPercentage: 100, matches: 1 };
+    const options = { legs: 5, random: createRandom(1) };
+    expect(verifyBotLevel(BOT_LEVELS[0], target, options).withinTolerance).toBe(false);
+    expect(verifyBotLevel(BOT_LEVELS[0], target, {
+      ...options,
+      tolerance: { average: 200, checkoutPercentage: 100 }
+    }).withinTolerance).toBe(true);
+  });
+
+  it('fits a level to a standard level\'s numbers', () => {
+    const target = { average: 75, checkoutPercentage: 37, matches: 1 };
+    const { level, verification } = fitBotLevel(target, {
+      legs: 40,
+      random: createRandom('fit'),
+      tolerance: { average: 6, checkoutPercentage: 12 }
+    });
+
+    expect(verification.withinTolerance).toBe(true);
+    expect(level.name).toBe('ghost');
+    expect(level.scatter).toBeGreaterThan(5);
+    expect(level.scatter).toBeLessThan(15);
+  });
+
+  it('rejects a target with no average', () => {
+    expect(() => fitBotLevel({ average: 0, checkoutPercentage: 0, matches: 1 })).toThrow();
+  });
+});
@@ -0,0 +1,303 @@
+/**
+ * Bot Calibration
+ * Fits a custom BotLevel to a player's real statistics, so members can play
+ * a "ghost" of themselves or a clubmate, and checks by simulation that a
+ * bot's long-run numbers match what it's meant to play like
+ *
+ * Two knobs are fitted: scoring scatter (drives the 3-dart average) and
+ * double scatter (drives checkout %). Each round simulates legs and scales
+ * both towards the target.
+ */
+
+import type { InOutRule } from '../types';
+import type { RandomSource } from '../utils/random';
+import { getCheckoutTable } from './checkoutSolver';
+import {
+  type BotLevel,
+  BOT_LEVELS,
+  DartsBotEngine,
+  scatterForAverage
+} from './botEngine';
+
+// ==================== TYPES ====================
+
+/**
+ * The match_statistics columns calibration reads
+ */
+export interface BotCalibrationSample {
+  darts_thrown: number;
+  points_scored: number;
+  checkouts_hit: number;
+  checkout_attempts: number;
+  visit_history?: number[];
+}
+
+export interface BotCalibrationTarget {
+  average: number;               // 3-dart average
+  checkoutPercentage: number;    // 0-100, visits on a finish that checked out
+  consistency?: number;          // Standard deviation of visit totals, when visits were recorded
+  matches: number;
+}
+
+export interface BotSimulationOptions {
+  legs?: number;                 // Default 200
+  startingScore?: number;        // Default 501
+  outRule?: InOutRule;           // Default 'double'
+  random?: RandomSource;         // Seed it for a reproducible run
+}
+
+export interface BotSimulationResult {
+  legs: number;
+  dartsThrown: number;
+  average: number;
+  checkoutsHit: number;
+  checkoutAttempts: number;
+  checkoutPercentage: number;
+}
+
+export interface BotCalibrationTolerance {
+  average: number;               // Points either side of the target
+  checkoutPercentage: number;    // Percentage points either side
+}
+
+export interface BotVerification extends BotSimulationResult {
+  target: BotCalibrationTarget;
+  averageError: number;
+  checkoutError: number;
+  withinTolerance: boolean;
+}
+
+export interface BotCalibrationOptions extends BotSimulationOptions {
+  name?: string;                 // Default 'ghost'
+  displayName?: string;          // Default 'Ghost'
+  iterations?: number;           // Simulate-and-adjust rounds, default 6
+  tolerance?: Partial<BotCalibrationTolerance>;
+}
+
+export interface BotCalibration {
+  level: BotLevel;
+  verification: BotVerification;
+}
+
+// A fitted level always carries both scatters
+type FittedBotLevel = BotLevel & Required<Pick<BotLevel, 'scatter' | 'doubleScatter'>>;
+
+// ==================== CONSTANTS ====================
+
+export const DEFAULT_CALIBRATION_TOLERANCE: Readonly<BotCalibrationTolerance> = Object.freeze({
+  average: 3,
+  checkoutPercentage: 5
+});
+
+const DEFAULT_LEGS = 200;
+const DEFAULT_ITERATIONS = 6;
+
+// How the simulated numbers respond to scatter (from simulation):
+// average ~ scatter^-0.9, checkout % ~ doubleScatter^-1
+const AVERAGE_EXPONENT = 0.9;
+const CHECKOUT_EXPONENT = 1;
+
+const SCATTER_RANGE = Object.freeze({ min: 1, max: 80 });
+const MIN_CHECKOUT_PERCENTAGE = 1;
+
+// ==================== CALIBRATION ====================
+
+/**
+ * Pool a player's match statistics into calibration targets
+ * Totals are pooled, so long matches count for more than short ones
+ */
+export function summarizeStatistics(samples: readonly BotCalibrationSample[]): BotCalibrationTarget {
+  const darts = samples.reduce((sum, s) => sum + s.darts_thrown, 0);
+  if (darts === 0) throw new Error('No match statistics to calibrate from');
+
+  const points = samples.reduce((sum, s) => sum + s.points_scored, 0);
+  const hit = samples.reduce((sum, s) => sum + s.checkouts_hit, 0);
+  const attempts = samples.reduce((sum, s) => sum + s.checkout_attempts, 0);
+  const visits = samples.flatMap(s => s.visit_history ?? []);
+
+  return {
+    average: round((points / darts) * 3, 2),
+    checkoutPercentage: attempts > 0 ? round((hit / attempts) * 100, 2) : 0,
+    consistency: visits.length > 1 ? round(standardDeviation(visits), 2) : undefined,
+    matches: samples.length
+  };
+}
+
+/**
+ * Fit a bot level to calibration targets and verify it by simulation
+ */
+export function fitBotLevel(
+  target: BotCalibrationTarget,
+  options: BotCalibrationOptions = {}
+): BotCalibration {
+  if (target.average <= 0) throw new Error('Calibration target average must be positive');
+
+  const iterations = Math.max(1, options.iterations ?? DEFAULT_ITERATIONS);
+  const checkoutTarget = Math.max(target.checkoutPercentage, MIN_CHECKOUT_PERCENTAGE);
+
+  let level = estimateBotLevel(target, options);
+  let { scatter, doubleScatter } = level;
+
+  for (let i = 0; i < iterations; i++) {
+    const verification = verifyBotLevel(level, target, options);
+    if (verification.withinTolerance) return { level, verification };
+
+    // Scale each scatter by how far its number is off
+    const averageRatio = Math.max(verification.average, 1) / target.average;
+    const checkoutRatio = Math.max(verification.checkoutPercentage, MIN_CHECKOUT_PERCENTAGE) / checkoutTarget;
+    scatter = clampScatter(scatter * averageRatio ** (1 / AVERAGE_EXPONENT));
+    doubleScatter = clampScatter(doubleScatter * checkoutRatio ** (1 / CHECKOUT_EXPONENT));
+    level = buildLevel(target, scatter, doubleScatter, options);
+  }
+
+  return { level, verification: verifyBotLevel(level, target, options) };
+}
+
+/**
+ * Quick bot level for calibration targets, without simulating
+ * Scatter comes from the average; double scatter is scaled by how the
+ * target checkout % compares with the standard level at that average
+ */
+export function estimateBotLevel(
+  target: Pick<BotCalibrationTarget, 'average' | 'checkoutPercentage' | 'consistency'>,
+  options: Pick<BotCalibrationOptions, 'name' | 'displayName'> = {}
+): FittedBotLevel {
+  const scatter = scatterForAverage(target.average);
+  const expected = standardCheckoutPercentage(target.average);
+  const checkoutRatio = target.checkoutPercentage > 0
+    ? expected / Math.max(target.checkoutPercentage, MIN_CHECKOUT_PERCENTAGE)
+    : 1;
+
+  return buildLevel(target, scatter, clampScatter(scatter * checkoutRatio ** (1 / CHECKOUT_EXPONENT)), options);
+}
+
+/**
+ * Fit a bot level straight from match statistics rows
+ */
+export function calibrateBotLevel(
+  samples: readonly BotCalibrationSample[],
+  options: BotCalibrationOptions = {}
+): BotCalibration {
+  return fitBotLevel(summarizeStatistics(samples), options);
+}
+
+/**
+ * Simulate a level and compare its long-run numbers to a target
+ */
+export function verifyBotLevel(
+  level: BotLevel,
+  target: BotCalibrationTarget,
+  options: BotSimulationOptions & { tolerance?: Partial<BotCalibrationTolerance> } = {}
+): BotVerification {
+  const tolerance = { ...DEFAULT_CALIBRATION_TOLERANCE, ...options.tolerance };
+  const result = simulateBotLegs(level, options);
+
+  const averageError = round(result.average - target.average, 2);
+  const checkoutError = round(result.checkoutPercentage - target.checkoutPercentage, 2);
+
+  return {
+    ...result,
+    target,
+    averageError,
+    checkoutError,
+    withinTolerance:
+      Math.abs(averageError) <= tolerance.average &&
+      Math.abs(checkoutError) <= tolerance.checkoutPercentage
+  };
+}
+
+/**
+ * Play legs with a bot and measure it the way match_statistics does:
+ * checkout attempts are visits started on a finish
+ */
+export function simulateBotLegs(level: BotLevel, options: BotSimulationOptions = {}): BotSimulationResult {
+  const legs = options.legs ?? DEFAULT_LEGS;
+  const startingScore = options.startingScore ?? 501;
+  const outRule = options.outRule ?? 'double';
+  const bot = new DartsBotEngine(level, { outRule, random: options.random });
+  const finishes = getCheckoutTable(outRule);
+
+  let darts = 0;
+  let points = 0;
+  let checkoutsHit = 0;
+  let checkoutAttempts = 0;
+
+  for (let leg = 0; leg < legs; leg++) {
+    let remaining = startingScore;
+    while (remaining > 0) {
+      const onFinish = finishes.has(remaining);
+      const visit = bot.throwVisit(remaining);
+
+      darts += visit.darts.length;
+      points += visit.score;
+      if (onFinish) checkoutAttempts++;
+      if (visit.isCheckout) checkoutsHit++;
+      remaining = visit.remaining;
+    }
+  }
+
+  return {
+    legs,
+    dartsThrown: darts,
+    average: darts > 0 ? round((points / darts) * 3, 2) : 0,
+    checkoutsHit,
+    checkoutAttempts,
+    checkoutPercentage: checkoutAttempts > 0 ? round((checkoutsHit / checkoutAttempts) * 100, 2) : 0
+  };
+}
+
+function buildLevel(
+  target: Pick<BotCalibrationTarget, 'average' | 'checkoutPercentage' | 'consistency'>,
+  scatter: number,
+  doubleScatter: number,
+  options: Pick<BotCalibrationOptions, 'name' | 'displayName'>
+): FittedBotLevel {
+  // Borrow id (thinking speed) and fallback consistency from the nearest standard level
+  const nearest = BOT_LEVELS.reduce((best, l) =>
+    Math.abs(l.avg - target.average) < Math.abs(best.avg - target.average) ? l : best
+  );
+
+  return Object.freeze({
+    id: nearest.id,
+    name: options.name ?? 'ghost',
+    displayName: options.displayName ?? 'Ghost',
+    avg: round(target.average, 1),
+    checkoutRate: round(target.checkoutPercentage / 100, 3),
+    consistency: target.consistency ?? nearest.consistency,
+    scatter: round(scatter, 2),
+    doubleScatter: round(doubleScatter, 2)
+  });
+}
+
+// Checkout % the standard levels play to, interpolated by average
+function standardCheckoutPercentage(average: number): number {
+  const levels = BOT_LEVELS;
+  if (average <= levels[0].avg) return levels[0].checkoutRate * 100;
+
+  for (let i = 1; i < levels.length; i++) {
+    if (average <= levels[i].avg) {
+      const low = levels[i - 1];
+      const high = levels[i];
+      const t = (average - low.avg) / (high.avg - low.avg);
+      return (low.checkoutRate + t * (high.checkoutRate - low.checkoutRate)) * 100;
+    }
+  }
+  return levels[levels.length - 1].checkoutRate * 100;
+}
+
+function clampScatter(scatter: number): number {
+  return Math.min(SCATTER_RANGE.max, Math.max(SCATTER_RANGE.min, scatter));
+}
+
+function standardDeviation(values: readonly number[]): number {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const variance = values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length;
+  return Math.sqrt(variance);
+}
+
+function round(value: number, places: number): number {
+  const factor = 10 ** places;
+  return Math.round(value * factor) / factor;
+}
+
+export default calibrateBotLevel;
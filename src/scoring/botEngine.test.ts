@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { getDartScore } from './dartModel';
+import {
+  BOT_LEVELS,
+  type BotLevel,
+  DartsBotEngine,
+  getBotLevelById,
+  getBotLevelByName,
+  scatterForAverage
+} from './botEngine';
+import { createRandom } from '../utils/random';
+
+const perfect: BotLevel = { ...BOT_LEVELS[5], scatter: 0 };
+
+describe('levels', () => {
+  it('looks levels up by id and name', () => {
+    expect(getBotLevelById(3)?.name).toBe('super_league');
+    expect(getBotLevelByName('pro')?.id).toBe(5);
+    expect(getBotLevelById(99)).toBeUndefined();
+  });
+
+  it('interpolates scatter between calibration points and clamps the ends', () => {
+    expect(scatterForAverage(45)).toBe(18);
+    expect(scatterForAverage(50)).toBeCloseTo(16);
+    expect(scatterForAverage(10)).toBe(35);
+    expect(scatterForAverage(200)).toBe(4);
+  });
+});
+
+describe('throwVisit', () => {
+  it('hits every treble and checks out when every dart lands where aimed', () => {
+    const bot = new DartsBotEngine(perfect, { random: createRandom(1) });
+    const visit = bot.throwVisit(501);
+    expect(visit.darts).toEqual(visit.targets);
+    expect(visit.darts.every(d => d.multiplier === 3)).toBe(true);
+
+    const finish = bot.throwVisit(40);
+    expect(finish.isCheckout).toBe(true);
+    expect(finish.score).toBe(40);
+    expect(finish.darts).toHaveLength(1);
+  });
+
+  it('is reproducible with a seeded random source', () => {
+    const play = () => {
+      const bot = new DartsBotEngine(BOT_LEVELS[2], { random: createRandom('league-night') });
+      return Array.from({ length: 10 }, () => bot.throwVisit(301));
+    };
+    expect(play()).toEqual(play());
+  });
+
+  it('counts the darts that landed, or nothing on a bust', () => {
+    const bot = new DartsBotEngine(BOT_LEVELS[1], { random: createRandom(5) });
+    let busts = 0;
+
+    for (let i = 0; i < 300; i++) {
+      const remaining = 2 + (i % 80);
+      const visit = bot.throwVisit(remaining);
+      expect(visit.targets).toHaveLength(visit.darts.length);
+
+      if (visit.isBust) {
+        busts++;
+        expect(visit.score).toBe(0);
+        expect(visit.remaining).toBe(remaining);
+      } else {
+        expect(visit.score).toBe(visit.darts.reduce((sum, d) => sum + getDartScore(d), 0));
+        expect(visit.remaining).toBe(remaining - visit.score);
+      }
+    }
+    expect(busts).toBeGreaterThan(0);
+  });
+
+  it('stops at the darts left in the visit', () => {
+    const bot = new DartsBotEngine(BOT_LEVELS[0], { random: createRandom(2) });
+    expect(bot.throwVisit(501, 1).darts).toHaveLength(1);
+  });
+});
@@ -2,13 +2,26 @@
  * Darts Bot Engine
  * AI opponent with configurable skill levels
  *
+ * Every dart is thrown at a target on a modelled dartboard with 2D Gaussian
+ * scatter (see dartboard.ts), so visit totals, trebles, doubles, bounce-outs
+ * and busts all come from where the darts land. What each dart is aimed at
+ * comes from the level's strategy profile (see botStrategy.ts).
+ *
  * Performance optimizations:
  * - Pre-computed difficulty levels as frozen objects
- * - Cached ideal leaves per difficulty
- * - Optimized random generation using Box-Muller transform
+ * - Checkout routes and setup advice only computed when a finish is in reach
  */
 
-import { INVALID_CHECKOUTS } from '../constants';
+import type { InOutRule } from '../types';
+import { type Dart, DARTS_PER_VISIT, isDouble } from './dartModel';
+import { type DartLanding, throwDart } from './dartboard';
+import { resolveDart } from './checkoutSolver';
+import {
+  type BotStrategyProfile,
+  chooseBotTarget,
+  getBotStrategy
+} from './botStrategy';
+import { type RandomSource, defaultRandom, pickRandom } from '../utils/random';
 
 // ==================== TYPES ====================
 
@@ -17,8 +30,26 @@ export interface BotLevel {
   readonly name: string;
   readonly displayName: string;
   readonly avg: number;           // Target 3-dart average
-  readonly checkoutRate: number;  // 0-1 probability of hitting checkout
-  readonly consistency: number;   // Standard deviation (lower = more consistent)
+  readonly checkoutRate: number;  // 0-1 share of visits on a finish that check out (as simulated)
+  readonly consistency: number;   // Standard deviation of visit totals (informational)
+  readonly scatter?: number;      // Dart scatter in mm (per axis); derived from avg when omitted
+  readonly doubleScatter?: number; // Scatter for darts aimed at a double or the bull; defaults to scatter
+}
+
+export interface BotVisit {
+  targets: Dart[];                // What each dart was aimed at
+  darts: Dart[];                  // Where each dart landed
+  score: number;                  // Points counted (0 on a bust)
+  remaining: number;
+  isBust: boolean;
+  isCheckout: boolean;
+  bounceOuts: number;
+}
+
+export interface BotOptions {
+  outRule?: InOutRule;            // Default 'double'
+  strategy?: BotStrategyProfile;  // Default: the level's profile
+  random?: RandomSource;          // Default: the library random source
 }
 
 // ==================== BOT LEVELS (Frozen for immutability) ====================
@@ -29,48 +60,54 @@ export const BOT_LEVELS: readonly BotLevel[] = Object.freeze([
     name: 'beginner',
     displayName: 'Beginner',
     avg: 30,
-    checkoutRate: 0.05,
-    consistency: 30
+    checkoutRate: 0.11,
+    consistency: 30,
+    scatter: 26.5
   }),
   Object.freeze({
     id: 2,
     name: 'pub_player',
     displayName: 'Pub Player',
     avg: 45,
-    checkoutRate: 0.15,
-    consistency: 28
+    checkoutRate: 0.18,
+    consistency: 28,
+    scatter: 18
   }),
   Object.freeze({
     id: 3,
     name: 'super_league',
     displayName: 'Super League',
     avg: 60,
-    checkoutRate: 0.30,
-    consistency: 25
+    checkoutRate: 0.31,
+    consistency: 25,
+    scatter: 13
   }),
   Object.freeze({
     id: 4,
     name: 'county',
     displayName: 'County',
     avg: 75,
-    checkoutRate: 0.50,
-    consistency: 22
+    checkoutRate: 0.37,
+    consistency: 22,
+    scatter: 9.5
   }),
   Object.freeze({
     id: 5,
     name: 'pro',
     displayName: 'Professional',
     avg: 95,
-    checkoutRate: 0.75,
-    consistency: 18
+    checkoutRate: 0.50,
+    consistency: 18,
+    scatter: 6.2
   }),
   Object.freeze({
     id: 6,
     name: 'dartbot_3000',
     displayName: 'Dartbot 3000',
     avg: 110,
-    checkoutRate: 0.90,
-    consistency: 12
+    checkoutRate: 0.61,
+    consistency: 12,
+    scatter: 4.8
   })
 ]);
 
@@ -78,16 +115,28 @@ export const BOT_LEVELS: readonly BotLevel[] = Object.freeze([
 const LEVEL_BY_ID = new Map(BOT_LEVELS.map(l => [l.id, l]));
 const LEVEL_BY_NAME = new Map(BOT_LEVELS.map(l => [l.name, l]));
 
-// Good checkout leaves
-const GOOD_LEAVES: readonly number[] = Object.freeze([32, 40, 36, 24, 16, 20, 8]);
+/**
+ * Scatter (mm) against 3-dart average over simulated 501 legs (busts and
+ * missed doubles included). Used to derive scatter for levels that don't set it
+ */
+const SCATTER_BY_AVERAGE: readonly (readonly [number, number])[] = Object.freeze([
+  [23.5, 35], [27, 30], [30.5, 26], [38, 22], [45, 18], [55, 14], [62, 12.5],
+  [75, 10], [83.5, 8], [92, 7], [99, 6], [106, 5], [115, 4.5], [126, 4]
+] as const);
 
 // ==================== BOT ENGINE CLASS ====================
 
 export class DartsBotEngine {
   private level: BotLevel;
+  private readonly outRule: InOutRule;
+  private readonly strategy?: BotStrategyProfile;
+  private readonly random: RandomSource;
 
-  constructor(level: BotLevel) {
+  constructor(level: BotLevel, options: BotOptions = {}) {
     this.level = level;
+    this.outRule = options.outRule ?? 'double';
+    this.strategy = options.strategy;
+    this.random = options.random ?? defaultRandom;
   }
 
   /**
@@ -105,91 +154,65 @@ export class DartsBotEngine {
   }
 
   /**
-   * Generate a bot's score based on current remaining score
+   * Strategy profile in use - the override, else the level's own
    */
-  generateScore(currentScore: number): number {
-    // Check if bot can attempt checkout
-    const canCheckout = currentScore <= 170 && !INVALID_CHECKOUTS.includes(currentScore);
-
-    if (canCheckout) {
-      return this.attemptCheckout(currentScore);
-    }
-
-    // Normal scoring phase
-    return this.generateScoringVisit(currentScore);
+  getStrategy(): BotStrategyProfile {
+    return this.strategy ?? getBotStrategy(this.level);
   }
 
   /**
-   * Attempt a checkout
+   * Generate a bot's score based on current remaining score
+   * (the visit total counted - 0 on a bust, the full score on a checkout)
    */
-  private attemptCheckout(currentScore: number): number {
-    const roll = Math.random();
-
-    // Successful checkout
-    if (roll < this.level.checkoutRate) {
-      return currentScore;
-    }
-
-    // Failed checkout - calculate realistic miss
-    if (currentScore <= 40) {
-      // Low checkout: missed the double, hit single or adjacent
-      const missedScore = Math.floor(currentScore / 2);
-      const variance = Math.floor(Math.random() * 10) - 5;
-      return Math.max(0, missedScore + variance);
-    }
-
-    // Higher checkout: setup shot that missed
-    const targetLeave = this.getIdealLeave();
-    let potentialScore = currentScore - targetLeave;
-
-    if (potentialScore > 180) potentialScore = 100;
-    if (potentialScore <= 0) potentialScore = 0;
-
-    // Add variance to setup shot
-    const variance = Math.floor(Math.random() * 20) - 10;
-    return Math.max(0, Math.min(180, potentialScore + variance));
+  generateScore(currentScore: number): number {
+    return this.throwVisit(currentScore).score;
   }
 
   /**
-   * Generate a normal scoring visit using Box-Muller transform
-   * for more realistic normal distribution
+   * Throw a visit dart by dart until it checks out, busts or runs out of darts
    */
-  private generateScoringVisit(currentScore: number): number {
-    // Box-Muller transform for normal distribution
-    const u1 = Math.random();
-    const u2 = Math.random();
-    const z = Math.sqrt(-2.0 * Math.log(u1)) * Math.cos(2.0 * Math.PI * u2);
-
-    let score = Math.round(this.level.avg + z * this.level.consistency);
-
-    // Clamp to valid range
-    score = Math.max(0, Math.min(180, score));
-
-    // Prevent bust if near finish
-    if (currentScore - score <= 1 && currentScore > 40) {
-      // Leave a good checkout number
-      const idealLeave = this.getIdealLeave();
-      if (currentScore > idealLeave) {
-        score = currentScore - idealLeave;
-      } else {
-        score = Math.max(0, currentScore - 40);
+  throwVisit(currentScore: number, dartsLeft = DARTS_PER_VISIT): BotVisit {
+    const scatter = this.level.scatter ?? scatterForAverage(this.level.avg);
+    const doubleScatter = this.level.doubleScatter ?? scatter;
+    const strategy = this.getStrategy();
+    const thrown: DartLanding[] = [];
+    const visit: BotVisit = {
+      targets: [],
+      darts: [],
+      score: 0,
+      remaining: currentScore,
+      isBust: false,
+      isCheckout: false,
+      bounceOuts: 0
+    };
+
+    let remaining = currentScore;
+    for (let left = dartsLeft; left > 0; left--) {
+      const target = chooseBotTarget(strategy, {
+        remaining,
+        dartsLeft: left,
+        outRule: this.outRule,
+        thrown
+      }, this.random);
+      const sigma = isDouble(target) ? doubleScatter : scatter;
+      const landing = throwDart(target, sigma, this.random, thrown.filter(t => !t.bounced).map(t => t.point));
+
+      thrown.push(landing);
+      visit.targets.push(target);
+      visit.darts.push(landing.dart);
+      if (landing.bounced) visit.bounceOuts++;
+
+      const result = resolveDart(remaining, landing.dart, this.outRule);
+      if (result.outcome === 'bust') {
+        return { ...visit, score: 0, remaining: currentScore, isBust: true };
+      }
+      remaining = result.remaining;
+      if (result.outcome === 'finish') {
+        return { ...visit, score: currentScore, remaining: 0, isCheckout: true };
       }
     }
 
-    return score;
-  }
-
-  /**
-   * Get ideal checkout leave based on skill level
-   */
-  private getIdealLeave(): number {
-    // Higher skill bots aim for 32 (D16)
-    if (this.level.avg >= 80) {
-      return 32;
-    }
-
-    // Lower skill bots have more varied leaves
-    return GOOD_LEAVES[Math.floor(Math.random() * GOOD_LEAVES.length)];
+    return { ...visit, score: currentScore - remaining, remaining };
   }
 
   /**
@@ -199,7 +222,7 @@ export class DartsBotEngine {
     // Base delay 800-1200ms, faster for higher level bots
     const baseDelay = 1000;
     const skillModifier = (6 - this.level.id) * 50; // Higher skill = less thinking
-    const variance = Math.random() * 400 - 200;
+    const variance = this.random() * 400 - 200;
 
     return Math.max(500, baseDelay + skillModifier + variance);
   }
@@ -210,7 +233,7 @@ export class DartsBotEngine {
   getReaction(score: number, isCheckout: boolean): string {
     if (isCheckout) {
       const checkoutReactions = ['Checkout!', 'Game shot!', 'Done!'];
-      return checkoutReactions[Math.floor(Math.random() * checkoutReactions.length)];
+      return pickRandom(checkoutReactions, this.random);
     }
 
     if (score === 180) return 'Maximum!';
@@ -238,6 +261,24 @@ export function getBotLevelByName(name: string): BotLevel | undefined {
   return LEVEL_BY_NAME.get(name);
 }
 
+/**
+ * Dart scatter (mm) that produces a 3-dart average over a 501 leg
+ * Linear between calibration points, clamped at the ends
+ */
+export function scatterForAverage(average: number): number {
+  const table = SCATTER_BY_AVERAGE;
+  if (average <= table[0][0]) return table[0][1];
+
+  for (let i = 1; i < table.length; i++) {
+    const [avgHigh, scatterHigh] = table[i];
+    if (average <= avgHigh) {
+      const [avgLow, scatterLow] = table[i - 1];
+      return scatterLow + ((average - avgLow) / (avgHigh - avgLow)) * (scatterHigh - scatterLow);
+    }
+  }
+  return table[table.length - 1][1];
+}
+
 /**
  * Get all bot levels
  */
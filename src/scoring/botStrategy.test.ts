@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { createDart } from './dartModel';
+import { getTargetPoint } from './dartboard';
+import {
+  type BotAimContext,
+  chooseBotTarget,
+  getBotStrategy,
+  getPlannedTarget,
+  isTargetBlocked
+} from './botStrategy';
+
+const beginner = getBotStrategy({ name: 'beginner', avg: 30 });
+const county = getBotStrategy({ name: 'county', avg: 75 });
+const pro = getBotStrategy({ name: 'pro', avg: 95 });
+
+const T20 = createDart(20, 3);
+
+function aim(remaining: number, dartsLeft = 3, thrown: BotAimContext['thrown'] = []): BotAimContext {
+  return { remaining, dartsLeft, outRule: 'double', thrown };
+}
+
+const landedOn = (target = T20) => [{ dart: target, point: getTargetPoint(target), bounced: false }];
+
+describe('getBotStrategy', () => {
+  it('picks the profile by level name, else by average', () => {
+    expect(pro.name).toBe('pro');
+    expect(getBotStrategy({ name: 'custom', avg: 72 }).name).toBe('county');
+    expect(getBotStrategy({ name: 'custom', avg: 10 }).name).toBe('beginner');
+    expect(getBotStrategy({ name: 'custom', avg: 150 }).name).toBe('dartbot_3000');
+  });
+});
+
+describe('getPlannedTarget', () => {
+  it('plays a checkout route within the finish range', () => {
+    expect(getPlannedTarget(pro, aim(170))).toEqual(T20);
+    expect(getPlannedTarget(pro, aim(32, 1))).toEqual(createDart(16, 2));
+    expect(getPlannedTarget(beginner, aim(40))).toEqual(createDart(20, 2));
+  });
+
+  it('aims for a familiar leave outside the finish range without setup play', () => {
+    expect(getPlannedTarget(beginner, aim(56))).toEqual(createDart(16, 1));
+    expect(getPlannedTarget(beginner, aim(50))).toEqual(createDart(10, 1));
+  });
+
+  it('takes setup advice with setup play, above 170 too', () => {
+    expect(getPlannedTarget(county, aim(169))).toEqual(T20);
+    expect(getPlannedTarget(county, aim(200))).toEqual(T20);
+  });
+
+  it('scores on T20 far from a finish, switching when it is covered', () => {
+    expect(getPlannedTarget(pro, aim(501))).toEqual(T20);
+    expect(getPlannedTarget(pro, aim(501, 2, landedOn()))).toEqual(createDart(19, 3));
+    expect(getPlannedTarget(beginner, aim(501, 2, landedOn()))).toEqual(T20);
+  });
+});
+
+describe('isTargetBlocked', () => {
+  it('is blocked by a dart sitting over the aim point', () => {
+    expect(isTargetBlocked(T20, landedOn())).toBe(true);
+    expect(isTargetBlocked(createDart(19, 3), landedOn())).toBe(false);
+    expect(isTargetBlocked(T20, [{ ...landedOn()[0], bounced: true }])).toBe(false);
+  });
+});
+
+describe('chooseBotTarget', () => {
+  const alwaysMisplay = () => 0;
+
+  it('misplays a setup single as its treble', () => {
+    expect(chooseBotTarget(beginner, aim(56), alwaysMisplay)).toEqual(createDart(16, 3));
+  });
+
+  it('only misplays into targets that cannot bust', () => {
+    expect(chooseBotTarget(beginner, aim(2), alwaysMisplay)).toEqual(createDart(1, 2));
+  });
+
+  it('never misplays with a zero misplay rate', () => {
+    const dartbot = getBotStrategy({ name: 'dartbot_3000', avg: 110 });
+    expect(chooseBotTarget(dartbot, aim(56), alwaysMisplay)).toEqual(getPlannedTarget(dartbot, aim(56)));
+  });
+});
@@ -0,0 +1,270 @@
+/**
+ * Bot Strategy
+ * Chooses what each bot dart is aimed at: a checkout route from the solver,
+ * a setup shot when no route is on, or T20 (T19 when the bed is blocked)
+ *
+ * Every bot level has a strategy profile. Strong levels play the solver's
+ * routes from anywhere in range and set up two-dart finishes. Weaker levels
+ * only go for finishes they know, leave the same few doubles, and now and
+ * then make a plausible misplay.
+ */
+
+import type { InOutRule } from '../types';
+import { MAX_CHECKOUT } from '../constants';
+import type { BotLevel } from './botEngine';
+import {
+  type Dart,
+  createDart,
+  getDartScore
+} from './dartModel';
+import { type DartLanding, getTargetPoint } from './dartboard';
+import {
+  findCheckoutRoutes,
+  resolveDart,
+  type CheckoutPreferences,
+  type CheckoutRoute
+} from './checkoutSolver';
+import { getSetupAdvice } from './setupAdvisor';
+import { type RandomSource, defaultRandom, pickRandom } from '../utils/random';
+
+// ==================== TYPES ====================
+
+export interface BotStrategyProfile {
+  readonly name: string;
+  readonly minAverage: number;           // Custom levels at or above this average get the profile
+  readonly finishRange: number;          // Highest score the bot plays a checkout route from
+  readonly setupPlay: boolean;           // Use setup advice (else aim for a fixed leave)
+  readonly switchWhenBlocked: boolean;   // Move off a target an earlier dart is covering
+  readonly misplayRate: number;          // 0-1 chance per dart of a plausible wrong choice
+  readonly preferences: Readonly<CheckoutPreferences>;
+}
+
+export interface BotAimContext {
+  remaining: number;
+  dartsLeft: number;
+  outRule: InOutRule;
+  thrown: readonly DartLanding[];        // Earlier darts this visit
+}
+
+// ==================== CONSTANTS ====================
+
+export const BOT_STRATEGY_PROFILES: readonly BotStrategyProfile[] = Object.freeze([
+  Object.freeze({
+    name: 'beginner',
+    minAverage: 0,
+    finishRange: 40,
+    setupPlay: false,
+    switchWhenBlocked: false,
+    misplayRate: 0.2,
+    preferences: Object.freeze({ favouriteDoubles: [20, 10], avoidBull: true })
+  }),
+  Object.freeze({
+    name: 'pub_player',
+    minAverage: 40,
+    finishRange: 80,
+    setupPlay: false,
+    switchWhenBlocked: false,
+    misplayRate: 0.12,
+    preferences: Object.freeze({ favouriteDoubles: [20, 16], avoidBull: true })
+  }),
+  Object.freeze({
+    name: 'super_league',
+    minAverage: 55,
+    finishRange: 110,
+    setupPlay: false,
+    switchWhenBlocked: true,
+    misplayRate: 0.06,
+    preferences: Object.freeze({ favouriteDoubles: [16, 20] })
+  }),
+  Object.freeze({
+    name: 'county',
+    minAverage: 70,
+    finishRange: 130,
+    setupPlay: true,
+    switchWhenBlocked: true,
+    misplayRate: 0.03,
+    preferences: Object.freeze({ favouriteDoubles: [16, 20, 8] })
+  }),
+  Object.freeze({
+    name: 'pro',
+    minAverage: 88,
+    finishRange: MAX_CHECKOUT,
+    setupPlay: true,
+    switchWhenBlocked: true,
+    misplayRate: 0.01,
+    preferences: Object.freeze({ favouriteDoubles: [16, 20, 18] })
+  }),
+  Object.freeze({
+    name: 'dartbot_3000',
+    minAverage: 105,
+    finishRange: MAX_CHECKOUT,
+    setupPlay: true,
+    switchWhenBlocked: true,
+    misplayRate: 0,
+    preferences: Object.freeze({})
+  })
+]);
+
+const PROFILE_BY_NAME = new Map(BOT_STRATEGY_PROFILES.map(p => [p.name, p]));
+
+// Leaves a fixed-leave bot aims for, before its favourite doubles
+const FIXED_LEAVES: readonly number[] = Object.freeze([40, 32, 36, 24, 16, 20, 8]);
+
+// An earlier dart this close to the aim point covers the target
+const BLOCKED_AIM_MM = 5;
+
+// Routes and setup shots don't change between throws - cache them
+const routeCache = new WeakMap<BotStrategyProfile, Map<string, CheckoutRoute[]>>();
+const setupCache = new Map<string, Dart | null>();
+
+const TREBLE_20 = createDart(20, 3);
+const TREBLE_19 = createDart(19, 3);
+const SINGLE_20 = createDart(20, 1);
+
+// ==================== STRATEGY ====================
+
+/**
+ * Strategy profile for a level: by name, else the strongest profile
+ * whose minimum average the level reaches
+ */
+export function getBotStrategy(level: Pick<BotLevel, 'name' | 'avg'>): BotStrategyProfile {
+  const named = PROFILE_BY_NAME.get(level.name);
+  if (named) return named;
+
+  let best = BOT_STRATEGY_PROFILES[0];
+  for (const profile of BOT_STRATEGY_PROFILES) {
+    if (level.avg >= profile.minAverage) best = profile;
+  }
+  return best;
+}
+
+/**
+ * Target for the next dart - the planned aim, or now and then a misplay
+ */
+export function chooseBotTarget(
+  profile: BotStrategyProfile,
+  context: BotAimContext,
+  random: RandomSource = defaultRandom
+): Dart {
+  const planned = getPlannedTarget(profile, context);
+  if (profile.misplayRate <= 0 || random() >= profile.misplayRate) return planned;
+
+  return getMisplayTarget(planned, context, random) ?? planned;
+}
+
+/**
+ * What the profile means to throw, with no misplays
+ */
+export function getPlannedTarget(profile: BotStrategyProfile, context: BotAimContext): Dart {
+  const { remaining, dartsLeft, outRule } = context;
+  const open = (dart: Dart) => !profile.switchWhenBlocked || !isTargetBlocked(dart, context.thrown);
+
+  if (remaining <= profile.finishRange) {
+    const routes = getRoutes(profile, remaining, dartsLeft, outRule);
+    const route = routes.find(r => open(r.darts[0])) ?? routes[0];
+    if (route) return route.darts[0];
+  }
+
+  if (remaining <= MAX_CHECKOUT + getDartScore(TREBLE_20) * dartsLeft) {
+    if (profile.setupPlay) {
+      const advice = getSetupTarget(remaining, dartsLeft, outRule);
+      if (advice && open(advice)) return advice;
+    } else {
+      const setup = getFixedLeaveTarget(remaining, outRule, profile.preferences.favouriteDoubles);
+      if (setup) return setup;
+    }
+  }
+
+  return getScoringTarget(remaining, outRule, open);
+}
+
+/**
+ * Whether an earlier dart this visit sits over a target's aim point
+ */
+export function isTargetBlocked(target: Dart, thrown: readonly DartLanding[]): boolean {
+  const aim = getTargetPoint(target);
+  return thrown.some(t => !t.bounced && Math.hypot(t.point.x - aim.x, t.point.y - aim.y) < BLOCKED_AIM_MM);
+}
+
+function getRoutes(
+  profile: BotStrategyProfile,
+  remaining: number,
+  dartsLeft: number,
+  outRule: InOutRule
+): CheckoutRoute[] {
+  let cache = routeCache.get(profile);
+  if (!cache) {
+    cache = new Map();
+    routeCache.set(profile, cache);
+  }
+
+  const key = `${remaining}:${dartsLeft}:${outRule}`;
+  let routes = cache.get(key);
+  if (!routes) {
+    routes = findCheckoutRoutes(remaining, { ...profile.preferences, dartsLeft, outRule });
+    cache.set(key, routes);
+  }
+  return routes;
+}
+
+function getSetupTarget(remaining: number, dartsLeft: number, outRule: InOutRule): Dart | null {
+  const key = `${remaining}:${dartsLeft}:${outRule}`;
+  let target = setupCache.get(key);
+  if (target === undefined) {
+    target = getSetupAdvice(remaining, dartsLeft, { outRule })?.target ?? null;
+    setupCache.set(key, target);
+  }
+  return target;
+}
+
+/**
+ * Heavy scoring: T20, or T19 when T20 is covered, dropping to S20
+ * when a treble could bust
+ */
+function getScoringTarget(remaining: number, outRule: InOutRule, open: (dart: Dart) => boolean): Dart {
+  const treble = open(TREBLE_20) ? TREBLE_20 : TREBLE_19;
+  if (resolveDart(remaining, treble, outRule).outcome === 'continue') return treble;
+  return SINGLE_20;
+}
+
+/**
+ * Old-school setup: hit a single or treble that leaves a familiar double
+ */
+function getFixedLeaveTarget(
+  remaining: number,
+  outRule: InOutRule,
+  favouriteDoubles: readonly number[] = []
+): Dart | null {
+  const leaves = [...favouriteDoubles.map(d => d * 2), ...FIXED_LEAVES];
+
+  for (const leave of leaves) {
+    const need = remaining - leave;
+    const target = need >= 1 && need <= 20
+      ? createDart(need, 1)
+      : need > 20 && need <= 60 && need % 3 === 0
+        ? createDart(need / 3, 3)
+        : null;
+    if (target && resolveDart(remaining, target, outRule).outcome === 'continue') return target;
+  }
+  return null;
+}
+
+/**
+ * A mistake a real player makes: going for the treble of a setup single,
+ * or throwing at T20 out of habit
+ */
+function getMisplayTarget(planned: Dart, context: BotAimContext, random: RandomSource): Dart | null {
+  const { remaining, outRule } = context;
+  const safe = (dart: Dart) => resolveDart(remaining, dart, outRule).outcome === 'continue';
+
+  const candidates: Dart[] = [];
+  if (planned.multiplier === 1 && planned.segment <= 20) candidates.push(createDart(planned.segment, 3));
+  if (planned.segment !== 20 || planned.multiplier !== 3) candidates.push(TREBLE_20);
+
+  const misplays = candidates.filter(safe);
+  if (misplays.length === 0) return null;
+
+  return pickRandom(misplays, random);
+}
+
+export default chooseBotTarget;
@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import {
+  canCheckout,
+  findCheckoutRoutes,
+  getBestCheckout,
+  getCheckoutTable,
+  getFinishProbability,
+  resolveDart
+} from './checkoutSolver';
+import { createDart, getDartScore } from './dartModel';
+
+describe('getBestCheckout', () => {
+  it('finds the standard big finishes', () => {
+    expect(getBestCheckout(170)?.label).toBe('T20 T20 Bull');
+    expect(getBestCheckout(40)?.label).toBe('D20');
+    expect(getBestCheckout(32, { dartsLeft: 1 })?.label).toBe('D16');
+  });
+
+  it('has no route for bogey numbers or too few darts', () => {
+    for (const score of [169, 168, 166, 165, 163, 162, 159]) {
+      expect(getBestCheckout(score)).toBeNull();
+    }
+    expect(getBestCheckout(110, { dartsLeft: 2 })?.label).toBe('T20 Bull');
+    expect(getBestCheckout(111, { dartsLeft: 2 })).toBeNull();
+  });
+
+  it('finishes every route on a double under double out', () => {
+    for (const route of findCheckoutRoutes(100)) {
+      const finish = route.darts[route.darts.length - 1];
+      expect(finish.multiplier).toBe(2);
+      expect(route.darts.reduce((sum, d) => sum + getDartScore(d), 0)).toBe(100);
+    }
+  });
+
+  it('ranks favourite doubles first', () => {
+    const route = (favouriteDoubles: number[]) => getBestCheckout(56, { favouriteDoubles });
+    expect(route([20])?.darts[1]).toEqual(createDart(20, 2));
+    expect(route([16])?.darts[1]).toEqual(createDart(16, 2));
+  });
+});
+
+describe('resolveDart', () => {
+  it('busts on a non-double finish, below zero or on one left', () => {
+    expect(resolveDart(20, createDart(20, 1))).toEqual({ outcome: 'bust', remaining: 20 });
+    expect(resolveDart(20, createDart(20, 1), 'straight')).toEqual({ outcome: 'finish', remaining: 0 });
+    expect(resolveDart(20, createDart(7, 3)).outcome).toBe('bust');
+    expect(resolveDart(20, createDart(19, 1)).outcome).toBe('bust');
+    expect(resolveDart(20, createDart(18, 1))).toEqual({ outcome: 'continue', remaining: 2 });
+  });
+});
+
+describe('getFinishProbability', () => {
+  it('is the double hit rate for a one-dart finish', () => {
+    expect(getFinishProbability(40, 1)).toBeCloseTo(0.3);
+    expect(getFinishProbability(40, 1, { hitRates: { double: 0.5 } })).toBeCloseTo(0.5);
+    expect(getFinishProbability(40, 1)).toBeCloseTo(0.3);
+  });
+
+  it('is zero out of reach and grows with darts left', () => {
+    expect(getFinishProbability(171)).toBe(0);
+    expect(getFinishProbability(41, 1)).toBe(0);
+    expect(getFinishProbability(40, 2)).toBeGreaterThan(getFinishProbability(40, 1));
+    expect(getFinishProbability(40, 3)).toBeGreaterThan(getFinishProbability(40, 2));
+  });
+});
+
+describe('getCheckoutTable', () => {
+  it('lists every one-visit finish for the out rule', () => {
+    const double = getCheckoutTable('double');
+    expect(double.size).toBe(162);
+    expect(double.has(1)).toBe(false);
+    expect(double.has(169)).toBe(false);
+    expect(getCheckoutTable('straight').has(1)).toBe(true);
+    expect(getCheckoutTable('master').has(3)).toBe(true);
+  });
+
+  it('agrees with canCheckout', () => {
+    const table = getCheckoutTable();
+    for (let score = 1; score <= 180; score++) {
+      expect(canCheckout(score)).toBe(table.has(score));
+    }
+  });
+});
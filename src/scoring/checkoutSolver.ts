@@ -0,0 +1,403 @@
+/**
+ * Checkout Solver
+ * Enumerates every legal 1, 2 and 3-dart finish for a remaining score,
+ * the darts left in the visit and the out rule, then ranks the routes
+ * by player preference (favourite doubles, avoid bull, keep a double after a miss)
+ *
+ * Setup darts are unordered for scoring purposes, so each combination is
+ * generated once and listed highest dart first.
+ *
+ * Finish probabilities use a simple hit-rate model: a missed treble lands in
+ * the single, a missed double in the single or outside, a missed bullseye in
+ * the outer bull, a missed single or outer bull scores nothing.
+ */
+
+import type { InOutRule } from '../types';
+import {
+  type Dart,
+  BULL_SEGMENT,
+  DARTS_PER_VISIT,
+  MISS,
+  createDart,
+  getDartScore,
+  formatVisit,
+  isRuleDart
+} from './dartModel';
+
+// ==================== TYPES ====================
+
+export interface CheckoutPreferences {
+  favouriteDoubles?: readonly number[];  // Segments in order of preference, e.g. [16, 20]
+  avoidBull?: boolean;
+  keepDoubleOnMiss?: boolean;            // Prefer routes that still leave a finish when a dart lands in the single (default true)
+}
+
+/**
+ * Chance of hitting what you aim at, by target type (0-1)
+ */
+export interface HitRates {
+  single: number;
+  double: number;
+  treble: number;
+  outerBull: number;
+  bullseye: number;
+}
+
+export interface CheckoutOptions extends CheckoutPreferences {
+  dartsLeft?: number;                    // 1-3, default 3
+  outRule?: InOutRule;                   // Default 'double'
+  hitRates?: Partial<HitRates>;          // Default DEFAULT_HIT_RATES
+}
+
+export interface CheckoutRoute {
+  darts: Dart[];
+  label: string;                         // e.g. 'T20 T20 Bull'
+  penalty: number;                       // Ranking cost - lower is better
+  probability: number;                   // Chance of hitting every dart as planned
+}
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Every scoring dart, highest first
+ */
+const ALL_DARTS: readonly Dart[] = Object.freeze(
+  [
+    ...Array.from({ length: 20 }, (_, i) => createDart(i + 1, 3)),
+    ...Array.from({ length: 20 }, (_, i) => createDart(i + 1, 2)),
+    ...Array.from({ length: 20 }, (_, i) => createDart(i + 1, 1)),
+    createDart(BULL_SEGMENT, 2),
+    createDart(BULL_SEGMENT, 1)
+  ].sort((a, b) => getDartScore(b) - getDartScore(a) || b.multiplier - a.multiplier)
+);
+
+/**
+ * Roughly a 60-average club player
+ */
+export const DEFAULT_HIT_RATES: Readonly<HitRates> = Object.freeze({
+  single: 0.9,
+  double: 0.3,
+  treble: 0.25,
+  outerBull: 0.35,
+  bullseye: 0.12
+});
+
+// Ranking weights
+const DART_COST = 10;                    // Fewer darts always wins on its own
+const BULL_COST = 3;
+const AVOID_BULL_COST = 15;
+const TREBLE_SETUP_COST = 1;             // vs a single
+const DOUBLE_SETUP_COST = 3;
+const MISS_LEAVES_NOTHING_COST = 2;
+const ODD_DOUBLE_COST = 4;               // Missing into the single leaves no double
+const NOT_FAVOURITE_COST = 3;
+const HALVING_BONUS = 0.5;               // Per step D16 -> D8 -> D4 (max 3)
+
+// Cache bounds - a full probability table for one set of hit rates is ~500 entries
+const PROBABILITY_CACHE_SIZE = 10000;
+const FINISH_CACHE_SIZE = 2000;
+
+// ==================== CACHE ====================
+
+/**
+ * Map that drops the least recently used entry once it's full
+ */
+class LruCache<V> {
+  private readonly entries = new Map<string, V>();
+  private readonly maxSize: number;
+
+  constructor(maxSize: number) {
+    this.maxSize = maxSize;
+  }
+
+  get(key: string): V | undefined {
+    const value = this.entries.get(key);
+    if (value !== undefined) {
+      // Map keeps insertion order - move to the back
+      this.entries.delete(key);
+      this.entries.set(key, value);
+    }
+    return value;
+  }
+
+  set(key: string, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as string);
+    }
+  }
+}
+
+// ==================== SOLVER ====================
+
+/**
+ * Every legal finish for a remaining score, best first
+ */
+export function findCheckoutRoutes(remaining: number, options: CheckoutOptions = {}): CheckoutRoute[] {
+  const dartsLeft = Math.min(Math.max(Math.trunc(options.dartsLeft ?? DARTS_PER_VISIT), 0), DARTS_PER_VISIT);
+  const outRule = options.outRule ?? 'double';
+  const routes: CheckoutRoute[] = [];
+
+  const rates = resolveHitRates(options.hitRates);
+  const finishes = ALL_DARTS.filter(d => isRuleDart(d, outRule));
+
+  const addRoutes = (setup: Dart[], left: number) => {
+    for (const finish of finishes) {
+      if (getDartScore(finish) === left) {
+        const darts = [...setup, finish];
+        routes.push({
+          darts,
+          label: formatVisit(darts),
+          penalty: scoreRoute(remaining, darts, options),
+          probability: darts.reduce((p, d) => p * hitRate(d, rates), 1)
+        });
+      }
+    }
+  };
+
+  if (dartsLeft >= 1) addRoutes([], remaining);
+
+  for (let i = 0; i < ALL_DARTS.length; i++) {
+    const first = ALL_DARTS[i];
+    const afterFirst = remaining - getDartScore(first);
+    if (afterFirst <= 0) continue;
+
+    if (dartsLeft >= 2) addRoutes([first], afterFirst);
+
+    if (dartsLeft >= 3) {
+      // j >= i: each pair of setup darts once, highest first
+      for (let j = i; j < ALL_DARTS.length; j++) {
+        const second = ALL_DARTS[j];
+        const afterSecond = afterFirst - getDartScore(second);
+        if (afterSecond > 0) addRoutes([first, second], afterSecond);
+      }
+    }
+  }
+
+  return routes.sort((a, b) => a.penalty - b.penalty || compareDarts(a.darts, b.darts));
+}
+
+/**
+ * Best route, or null if the score can't be finished with the darts left
+ */
+export function getBestCheckout(remaining: number, options: CheckoutOptions = {}): CheckoutRoute | null {
+  return findCheckoutRoutes(remaining, options)[0] ?? null;
+}
+
+/**
+ * Check a score can be finished with the darts left
+ */
+export function canCheckout(remaining: number, dartsLeft = DARTS_PER_VISIT, outRule: InOutRule = 'double'): boolean {
+  return hasFinish(remaining, Math.min(Math.trunc(dartsLeft), DARTS_PER_VISIT), outRule);
+}
+
+const checkoutTables = new Map<InOutRule, ReadonlySet<number>>();
+
+/**
+ * Every score that can be finished in one visit under the out rule,
+ * built once per rule
+ */
+export function getCheckoutTable(outRule: InOutRule = 'double'): ReadonlySet<number> {
+  let table = checkoutTables.get(outRule);
+  if (!table) {
+    const scores = Array.from({ length: 60 * DARTS_PER_VISIT }, (_, i) => i + 1);
+    table = new Set(scores.filter(score => hasFinish(score, DARTS_PER_VISIT, outRule)));
+    checkoutTables.set(outRule, table);
+  }
+  return table;
+}
+
+// ==================== FINISH PROBABILITY ====================
+
+/**
+ * Where a dart aimed at a target can land, with probabilities
+ */
+export function getDartOutcomes(
+  target: Dart,
+  hitRates?: Partial<HitRates>
+): { dart: Dart; probability: number }[] {
+  const rates = resolveHitRates(hitRates);
+  const p = hitRate(target, rates);
+  const miss = 1 - p;
+  const single = createDart(target.segment, 1);
+
+  if (target.segment === BULL_SEGMENT) {
+    return target.multiplier === 2
+      ? [{ dart: target, probability: p }, { dart: single, probability: miss }]
+      : [{ dart: target, probability: p }, { dart: MISS, probability: miss }];
+  }
+
+  switch (target.multiplier) {
+    case 3:
+      return [{ dart: target, probability: p }, { dart: single, probability: miss }];
+    case 2:
+      return [
+        { dart: target, probability: p },
+        { dart: single, probability: miss / 2 },
+        { dart: MISS, probability: miss / 2 }
+      ];
+    default:
+      return [{ dart: target, probability: p }, { dart: MISS, probability: miss }];
+  }
+}
+
+/**
+ * What a dart does to the remaining score
+ */
+export function resolveDart(
+  remaining: number,
+  dart: Dart,
+  outRule: InOutRule = 'double'
+): { outcome: 'finish' | 'bust' | 'continue'; remaining: number } {
+  const left = remaining - getDartScore(dart);
+  if (left === 0) {
+    return isRuleDart(dart, outRule) ? { outcome: 'finish', remaining: 0 } : { outcome: 'bust', remaining };
+  }
+  if (left < 0 || (left === 1 && outRule !== 'straight')) {
+    return { outcome: 'bust', remaining };
+  }
+  return { outcome: 'continue', remaining: left };
+}
+
+const probabilityCache = new LruCache<number>(PROBABILITY_CACHE_SIZE);
+
+/**
+ * Chance of checking out with the darts left, aiming optimally after every dart
+ */
+export function getFinishProbability(
+  remaining: number,
+  dartsLeft = DARTS_PER_VISIT,
+  options: Pick<CheckoutOptions, 'outRule' | 'hitRates'> = {}
+): number {
+  if (dartsLeft <= 0 || remaining <= 0) return 0;
+  // Nothing scores more than 60 before the last dart, which is at most 50 on a double
+  if (remaining > 60 * (dartsLeft - 1) + 60) return 0;
+
+  const outRule = options.outRule ?? 'double';
+  const rates = resolveHitRates(options.hitRates);
+  const key = `${remaining}:${dartsLeft}:${outRule}:${Object.values(rates).join(',')}`;
+  const cached = probabilityCache.get(key);
+  if (cached !== undefined) return cached;
+
+  let best = 0;
+  for (const target of ALL_DARTS) {
+    // A target that can't finish or set up is never better than one that can
+    if (getDartScore(target) > remaining) continue;
+
+    let chance = 0;
+    for (const { dart, probability } of getDartOutcomes(target, rates)) {
+      const next = resolveDart(remaining, dart, outRule);
+      if (next.outcome === 'finish') chance += probability;
+      else if (next.outcome === 'continue') {
+        chance += probability * getFinishProbability(next.remaining, dartsLeft - 1, { outRule, hitRates: rates });
+      }
+    }
+    best = Math.max(best, chance);
+  }
+
+  probabilityCache.set(key, best);
+  return best;
+}
+
+function resolveHitRates(hitRates?: Partial<HitRates>): HitRates {
+  return hitRates ? { ...DEFAULT_HIT_RATES, ...hitRates } : DEFAULT_HIT_RATES;
+}
+
+function hitRate(dart: Dart, rates: HitRates): number {
+  if (dart.segment === BULL_SEGMENT) {
+    return dart.multiplier === 2 ? rates.bullseye : rates.outerBull;
+  }
+  return dart.multiplier === 3 ? rates.treble : dart.multiplier === 2 ? rates.double : rates.single;
+}
+
+// ==================== RANKING ====================
+
+function scoreRoute(remaining: number, darts: readonly Dart[], options: CheckoutOptions): number {
+  const outRule = options.outRule ?? 'double';
+  const keepDouble = options.keepDoubleOnMiss ?? true;
+  const favourites = options.favouriteDoubles ?? [];
+  const finish = darts[darts.length - 1];
+  const setup = darts.slice(0, -1);
+
+  let penalty = darts.length * DART_COST;
+
+  for (const dart of darts) {
+    if (dart.segment === BULL_SEGMENT) {
+      penalty += options.avoidBull ? AVOID_BULL_COST : BULL_COST;
+    }
+  }
+
+  // Setup darts: singles are easier, and a treble/double landing in the single should still leave a finish
+  let scored = 0;
+  setup.forEach((dart, i) => {
+    if (dart.multiplier > 1) {
+      penalty += dart.multiplier === 3 ? TREBLE_SETUP_COST : DOUBLE_SETUP_COST;
+      if (keepDouble) {
+        const leftAfterMiss = remaining - scored - dart.segment;
+        const dartsAfter = darts.length - i - 1;
+        if (!hasFinish(leftAfterMiss, dartsAfter, outRule)) penalty += MISS_LEAVES_NOTHING_COST;
+      }
+    }
+    scored += getDartScore(dart);
+  });
+
+  // Finishing double: favourites first, then doubles that still leave a double when missed
+  if (finish.multiplier === 2 && finish.segment !== BULL_SEGMENT) {
+    const favourite = favourites.indexOf(finish.segment);
+    penalty += favourite === -1 ? (favourites.length > 0 ? NOT_FAVOURITE_COST : 0) : favourite * 0.1;
+
+    if (keepDouble) {
+      if (finish.segment % 2 === 1) penalty += ODD_DOUBLE_COST;
+      penalty -= Math.min(halvings(finish.segment), 3) * HALVING_BONUS;
+    }
+  } else if (finish.segment === BULL_SEGMENT && favourites.length > 0 && !favourites.includes(BULL_SEGMENT)) {
+    penalty += NOT_FAVOURITE_COST;
+  }
+
+  return penalty;
+}
+
+const finishCache = new LruCache<boolean>(FINISH_CACHE_SIZE);
+
+/**
+ * Quick reachability check used while ranking (no route building)
+ */
+function hasFinish(remaining: number, dartsLeft: number, outRule: InOutRule): boolean {
+  if (remaining <= 0 || dartsLeft <= 0) return false;
+
+  const key = `${remaining}:${dartsLeft}:${outRule}`;
+  const cached = finishCache.get(key);
+  if (cached !== undefined) return cached;
+
+  const result = ALL_DARTS.some(d => isRuleDart(d, outRule) && getDartScore(d) === remaining) ||
+    (dartsLeft > 1 && ALL_DARTS.some(d => {
+      const left = remaining - getDartScore(d);
+      return left > 0 && hasFinish(left, dartsLeft - 1, outRule);
+    }));
+
+  finishCache.set(key, result);
+  return result;
+}
+
+function halvings(segment: number): number {
+  let steps = 0;
+  while (segment % 2 === 0) {
+    segment /= 2;
+    steps++;
+  }
+  return steps;
+}
+
+/**
+ * Tie-break: higher first dart (T20 over T19), then the same down the route
+ */
+function compareDarts(a: readonly Dart[], b: readonly Dart[]): number {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const diff = getDartScore(b[i]) - getDartScore(a[i]) || b[i].multiplier - a[i].multiplier;
+    if (diff !== 0) return diff;
+  }
+  return a.length - b.length;
+}
+
+export default findCheckoutRoutes;
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import { BULLSEYE, MISS, createDart } from './dartModel';
+import {
+  CRICKET_NUMBERS,
+  CricketScoringEngine,
+  type CricketPlayerState,
+  calculateMarksPerRound
+} from './cricketEngine';
+
+const T = (segment: number) => createDart(segment, 3);
+
+function withMarks(
+  engine: CricketScoringEngine,
+  name: string,
+  marks: Record<number, number>,
+  points = 0
+): CricketPlayerState {
+  const player = engine.createPlayerState(name);
+  return { ...player, marks: { ...player.marks, ...marks }, points };
+}
+
+const allClosed = Object.fromEntries(CRICKET_NUMBERS.map(n => [n, 3]));
+
+describe('closing numbers', () => {
+  it('closes on the third mark and scores the extra marks', () => {
+    const engine = new CricketScoringEngine();
+    const players = [engine.createPlayerState('A'), engine.createPlayerState('B')];
+
+    const { players: next, result } = engine.applyVisit(players, 0, [createDart(20, 2), T(20), MISS]);
+
+    expect(result.success).toBe(true);
+    expect(result.closed).toEqual([20]);
+    expect(result.marksScored).toBe(5);
+    expect(result.pointsScored).toBe(40);
+    expect(next[0].marks[20]).toBe(3);
+    expect(next[0].points).toBe(40);
+  });
+
+  it('does not score on a number every opponent has closed', () => {
+    const engine = new CricketScoringEngine();
+    const players = [withMarks(engine, 'A', { 20: 3 }), withMarks(engine, 'B', { 20: 3 })];
+
+    const { players: next, result } = engine.applyVisit(players, 0, [T(20), MISS, MISS]);
+
+    expect(result.marksScored).toBe(0);
+    expect(next[0].points).toBe(0);
+    expect(engine.getScoringNumbers(next, 0)).toEqual([]);
+  });
+
+  it('ignores segments outside 15-20 and the bull', () => {
+    const engine = new CricketScoringEngine();
+    const players = [engine.createPlayerState('A'), engine.createPlayerState('B')];
+
+    const { result } = engine.applyVisit(players, 0, [T(14), createDart(1, 1), MISS]);
+
+    expect(result.success).toBe(true);
+    expect(result.marksScored).toBe(0);
+  });
+
+  it('needs three darts unless the visit wins the leg', () => {
+    const engine = new CricketScoringEngine();
+    const players = [engine.createPlayerState('A'), engine.createPlayerState('B')];
+
+    expect(engine.processVisit(players, 0, [T(20)]).success).toBe(false);
+  });
+});
+
+describe('cut-throat', () => {
+  it('gives the points to every opponent with the number open', () => {
+    const engine = new CricketScoringEngine({ variant: 'cut_throat' });
+    const players = [
+      withMarks(engine, 'A', { 19: 3 }),
+      engine.createPlayerState('B'),
+      withMarks(engine, 'C', { 19: 3 })
+    ];
+
+    const { players: next, result } = engine.applyVisit(players, 0, [T(19), MISS, MISS]);
+
+    expect(result.pointsScored).toBe(57);
+    expect(next.map(p => p.points)).toEqual([0, 57, 0]);
+  });
+
+  it('wins on lowest points once everything is closed', () => {
+    const engine = new CricketScoringEngine({ variant: 'cut_throat' });
+    const ahead = [
+      withMarks(engine, 'A', { ...allClosed, 25: 1 }, 20),
+      withMarks(engine, 'B', {}, 10)
+    ];
+    expect(engine.processVisit(ahead, 0, [BULLSEYE]).isLegWon).toBe(false);
+
+    const behind = [
+      withMarks(engine, 'A', { ...allClosed, 25: 1 }, 10),
+      withMarks(engine, 'B', {}, 20)
+    ];
+    expect(engine.processVisit(behind, 0, [BULLSEYE]).isLegWon).toBe(true);
+  });
+});
+
+describe('win condition', () => {
+  it('needs every number closed and points at least level', () => {
+    const engine = new CricketScoringEngine();
+    const trailing = [
+      withMarks(engine, 'A', { ...allClosed, 25: 1 }, 0),
+      withMarks(engine, 'B', {}, 30)
+    ];
+    const visit = engine.processVisit(trailing, 0, [BULLSEYE, MISS, MISS]);
+    expect(visit.success).toBe(true);
+    expect(visit.isLegWon).toBe(false);
+
+    const level = [
+      withMarks(engine, 'A', { ...allClosed, 25: 1 }, 30),
+      withMarks(engine, 'B', {}, 30)
+    ];
+    const won = engine.applyVisit(level, 0, [BULLSEYE]);
+    expect(won.result.isLegWon).toBe(true);
+    expect(won.result.isMatchWon).toBe(true);
+    expect(won.result.dartsUsed).toBe(1);
+    expect(won.players[0].legs).toBe(1);
+  });
+
+  it('rejects darts thrown after the leg is won', () => {
+    const engine = new CricketScoringEngine();
+    const players = [
+      withMarks(engine, 'A', { ...allClosed, 25: 1 }),
+      engine.createPlayerState('B')
+    ];
+
+    const result = engine.processVisit(players, 0, [BULLSEYE, MISS]);
+    expect(result.success).toBe(false);
+  });
+
+  it('plays on to the legs needed', () => {
+    const engine = new CricketScoringEngine({ matchType: 'best_of', targetLegs: 3 });
+    const players = [
+      withMarks(engine, 'A', { ...allClosed, 25: 1 }),
+      engine.createPlayerState('B')
+    ];
+
+    const { result } = engine.applyVisit(players, 0, [BULLSEYE]);
+    expect(result.isLegWon).toBe(true);
+    expect(result.isMatchWon).toBe(false);
+  });
+});
+
+describe('marks per round', () => {
+  it('tracks marks and perfect rounds across visits', () => {
+    const engine = new CricketScoringEngine();
+    let players = [engine.createPlayerState('A'), engine.createPlayerState('B')];
+
+    players = engine.applyVisit(players, 0, [T(20), T(19), T(18)]).players;
+    players = engine.applyVisit(players, 0, [createDart(17, 1), MISS, MISS]).players;
+
+    expect(players[0].rounds).toBe(2);
+    expect(players[0].totalMarks).toBe(10);
+    expect(players[0].perfectRounds).toBe(1);
+    expect(players[0].markHistory).toEqual([9, 1]);
+    expect(calculateMarksPerRound(players[0].totalMarks, players[0].rounds)).toBe(5);
+  });
+
+  it('rounds to two places and handles no rounds', () => {
+    expect(calculateMarksPerRound(10, 3)).toBe(3.33);
+    expect(calculateMarksPerRound(0, 0)).toBe(0);
+  });
+});
@@ -0,0 +1,329 @@
+/**
+ * Cricket Scoring Engine
+ * Standard and cut-throat Cricket on 20-15 plus bull
+ * Supports: First to / best of legs, per-dart entry, marks-per-round (MPR) stats
+ *
+ * Rules:
+ * - Single = 1 mark, double = 2, treble = 3 (outer bull 1, bullseye 2)
+ * - 3 marks closes a number; further marks score while any opponent has it open
+ * - Standard: you score the points. Cut-throat: every opponent with it open does
+ * - Leg won when all numbers are closed and points are at least level
+ *   (highest in standard, lowest in cut-throat)
+ */
+
+import type { MatchConfig } from '../types';
+import {
+  type Dart,
+  BULL_SEGMENT,
+  DARTS_PER_VISIT,
+  isValidDart
+} from './dartModel';
+import { winsNeeded } from './scoringEngine';
+
+// ==================== TYPES ====================
+
+export type CricketVariant = 'standard' | 'cut_throat';
+
+export interface CricketConfig {
+  variant: CricketVariant;
+  matchType: MatchConfig['matchType'];
+  targetLegs: number;
+}
+
+export interface CricketPlayerState {
+  id?: string;
+  name: string;
+  marks: Record<number, number>;   // Marks per cricket number in CURRENT leg (0-3)
+  points: number;
+  legs: number;
+  rounds: number;                  // Visits in WHOLE match
+  totalMarks: number;              // Closing + scoring marks in WHOLE match
+  perfectRounds: number;           // 9-mark visits
+  markHistory: number[];           // Marks per visit in WHOLE match
+}
+
+export interface CricketThrowResult {
+  success: boolean;
+  marksScored: number;
+  pointsScored: number;            // Points added (to opponents in cut-throat)
+  closed: number[];                // Numbers closed by this visit
+  isLegWon: boolean;
+  isMatchWon: boolean;
+  dartsUsed?: number;
+  message?: string;
+}
+
+// ==================== CONSTANTS ====================
+
+export const CRICKET_NUMBERS: readonly number[] = Object.freeze([20, 19, 18, 17, 16, 15, BULL_SEGMENT]);
+export const MARKS_TO_CLOSE = 3;
+export const PERFECT_ROUND_MARKS = 9;
+
+export const DEFAULT_CRICKET_CONFIG: Readonly<CricketConfig> = Object.freeze({
+  variant: 'standard',
+  matchType: 'first_to',
+  targetLegs: 1
+});
+
+// ==================== CRICKET ENGINE ====================
+
+export class CricketScoringEngine {
+  private readonly config: CricketConfig;
+  private readonly legsNeeded: number;
+
+  constructor(config: Partial<CricketConfig> = {}) {
+    this.config = { ...DEFAULT_CRICKET_CONFIG, ...config };
+    this.legsNeeded = winsNeeded(this.config.matchType, this.config.targetLegs);
+  }
+
+  /**
+   * Create initial player state
+   */
+  createPlayerState(name: string, id?: string): CricketPlayerState {
+    return {
+      id,
+      name,
+      marks: emptyMarks(),
+      points: 0,
+      legs: 0,
+      rounds: 0,
+      totalMarks: 0,
+      perfectRounds: 0,
+      markHistory: []
+    };
+  }
+
+  /**
+   * Validate and score a visit without changing state
+   */
+  processVisit(
+    players: readonly CricketPlayerState[],
+    playerIndex: number,
+    darts: readonly Dart[]
+  ): CricketThrowResult {
+    return this.scoreVisit(players, playerIndex, darts).result;
+  }
+
+  /**
+   * Apply a visit and return updated state for all players
+   * (points can land on opponents in cut-throat)
+   */
+  applyVisit(
+    players: readonly CricketPlayerState[],
+    playerIndex: number,
+    darts: readonly Dart[]
+  ): {
+    players: CricketPlayerState[];
+    result: CricketThrowResult;
+  } {
+    return this.scoreVisit(players, playerIndex, darts);
+  }
+
+  private scoreVisit(
+    players: readonly CricketPlayerState[],
+    playerIndex: number,
+    darts: readonly Dart[]
+  ): {
+    players: CricketPlayerState[];
+    result: CricketThrowResult;
+  } {
+    const unchanged = [...players];
+
+    if (!players[playerIndex]) {
+      return { players: unchanged, result: this.invalidResult('Unknown player.') };
+    }
+    if (darts.length === 0 || darts.length > DARTS_PER_VISIT) {
+      return { players: unchanged, result: this.invalidResult(`A visit has 1 to ${DARTS_PER_VISIT} darts.`) };
+    }
+
+    // Working copies - only marks and points change per dart
+    const next = players.map(p => ({ ...p, marks: { ...p.marks } }));
+    const thrower = next[playerIndex];
+    const closed: number[] = [];
+    let marksScored = 0;
+    let pointsScored = 0;
+
+    for (let i = 0; i < darts.length; i++) {
+      const dart = darts[i];
+      if (!isValidDart(dart)) {
+        return { players: unchanged, result: this.invalidResult(`Invalid dart ${i + 1}.`) };
+      }
+
+      const segment = dart.segment;
+      if (CRICKET_NUMBERS.includes(segment)) {
+        const current = thrower.marks[segment];
+        const toClose = Math.min(dart.multiplier, MARKS_TO_CLOSE - current);
+        const extra = dart.multiplier - toClose;
+
+        if (toClose > 0) {
+          thrower.marks[segment] = current + toClose;
+          marksScored += toClose;
+          if (thrower.marks[segment] === MARKS_TO_CLOSE) closed.push(segment);
+        }
+
+        // Extra marks only count while an opponent still has the number open
+        const open = next.filter((p, j) => j !== playerIndex && p.marks[segment] < MARKS_TO_CLOSE);
+        if (extra > 0 && open.length > 0) {
+          const points = extra * segment;
+          marksScored += extra;
+
+          if (this.config.variant === 'cut_throat') {
+            open.forEach(p => { p.points += points; });
+            pointsScored += points * open.length;
+          } else {
+            thrower.points += points;
+            pointsScored += points;
+          }
+        }
+      }
+
+      if (this.hasWonLeg(next, playerIndex)) {
+        if (i < darts.length - 1) {
+          return { players: unchanged, result: this.invalidResult(`Leg finished on dart ${i + 1}.`) };
+        }
+        return this.finishVisit(next, playerIndex, {
+          success: true,
+          marksScored,
+          pointsScored,
+          closed,
+          isLegWon: true,
+          isMatchWon: thrower.legs + 1 >= this.legsNeeded,
+          dartsUsed: i + 1,
+          message: thrower.legs + 1 >= this.legsNeeded ? 'Match won!' : 'Leg won!'
+        });
+      }
+    }
+
+    if (darts.length < DARTS_PER_VISIT) {
+      return {
+        players: unchanged,
+        result: this.invalidResult(`A visit needs ${DARTS_PER_VISIT} darts unless it wins the leg.`)
+      };
+    }
+
+    return this.finishVisit(next, playerIndex, {
+      success: true,
+      marksScored,
+      pointsScored,
+      closed,
+      isLegWon: false,
+      isMatchWon: false,
+      dartsUsed: darts.length
+    });
+  }
+
+  /**
+   * Record round stats (and the leg) for the thrower
+   */
+  private finishVisit(
+    players: CricketPlayerState[],
+    playerIndex: number,
+    result: CricketThrowResult
+  ): {
+    players: CricketPlayerState[];
+    result: CricketThrowResult;
+  } {
+    const thrower = players[playerIndex];
+    players[playerIndex] = {
+      ...thrower,
+      legs: thrower.legs + (result.isLegWon ? 1 : 0),
+      rounds: thrower.rounds + 1,
+      totalMarks: thrower.totalMarks + result.marksScored,
+      perfectRounds: thrower.perfectRounds + (result.marksScored >= PERFECT_ROUND_MARKS ? 1 : 0),
+      markHistory: [...thrower.markHistory, result.marksScored]
+    };
+    return { players, result };
+  }
+
+  private invalidResult(message: string): CricketThrowResult {
+    return {
+      success: false,
+      marksScored: 0,
+      pointsScored: 0,
+      closed: [],
+      isLegWon: false,
+      isMatchWon: false,
+      message
+    };
+  }
+
+  /**
+   * All numbers closed and points at least level with every opponent
+   */
+  hasWonLeg(players: readonly CricketPlayerState[], playerIndex: number): boolean {
+    const player = players[playerIndex];
+    if (!CRICKET_NUMBERS.every(n => player.marks[n] >= MARKS_TO_CLOSE)) return false;
+
+    return players.every((p, j) => j === playerIndex || (
+      this.config.variant === 'cut_throat'
+        ? player.points <= p.points
+        : player.points >= p.points
+    ));
+  }
+
+  /**
+   * Numbers still open for scoring by a player (closed by them, open for an opponent)
+   */
+  getScoringNumbers(players: readonly CricketPlayerState[], playerIndex: number): number[] {
+    const player = players[playerIndex];
+    return CRICKET_NUMBERS.filter(n =>
+      player.marks[n] >= MARKS_TO_CLOSE &&
+      players.some((p, j) => j !== playerIndex && p.marks[n] < MARKS_TO_CLOSE)
+    );
+  }
+
+  /**
+   * Get legs needed to win
+   */
+  getLegsNeeded(): number {
+    return this.legsNeeded;
+  }
+
+  /**
+   * Reset player for new leg (match stats carry over)
+   */
+  resetForNewLeg(player: CricketPlayerState): CricketPlayerState {
+    return {
+      ...player,
+      marks: emptyMarks(),
+      points: 0
+    };
+  }
+
+  /**
+   * Reset player for new match
+   */
+  resetForNewMatch(player: CricketPlayerState): CricketPlayerState {
+    return this.createPlayerState(player.name, player.id);
+  }
+
+  /**
+   * Get current config
+   */
+  getConfig(): CricketConfig {
+    return { ...this.config };
+  }
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+
+function emptyMarks(): Record<number, number> {
+  return Object.fromEntries(CRICKET_NUMBERS.map(n => [n, 0]));
+}
+
+/**
+ * Marks per round (MPR) to 2 decimal places
+ */
+export function calculateMarksPerRound(totalMarks: number, rounds: number): number {
+  if (rounds === 0) return 0;
+  return Math.round((totalMarks / rounds) * 100) / 100;
+}
+
+/**
+ * Mark symbol for a scoreboard: '', '/', 'X', 'Ⓧ' (closed)
+ */
+export function formatMarks(marks: number): string {
+  return ['', '/', 'X', 'Ⓧ'][Math.min(Math.max(marks, 0), MARKS_TO_CLOSE)];
+}
+
+export default CricketScoringEngine;
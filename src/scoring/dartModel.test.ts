@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BULLSEYE,
+  MISS,
+  SINGLE_BULL,
+  createDart,
+  formatVisit,
+  getDartScore,
+  getVisitTotal,
+  isValidDart,
+  parseDart,
+  parseVisit
+} from './dartModel';
+
+describe('parseDart', () => {
+  it('reads standard notation', () => {
+    expect(parseDart('T20')).toEqual(createDart(20, 3));
+    expect(parseDart('d16')).toEqual(createDart(16, 2));
+    expect(parseDart('5')).toEqual(createDart(5, 1));
+    expect(parseDart('SB')).toEqual(SINGLE_BULL);
+    expect(parseDart('Bull')).toEqual(BULLSEYE);
+    expect(parseDart('miss')).toEqual(MISS);
+  });
+
+  it('rejects darts that do not exist', () => {
+    expect(parseDart('T25')).toBeNull();
+    expect(parseDart('21')).toBeNull();
+    expect(parseDart('X')).toBeNull();
+  });
+});
+
+describe('visits', () => {
+  it('round-trips a visit and totals it', () => {
+    const darts = parseVisit('T20 T19 Bull')!;
+
+    expect(formatVisit(darts)).toBe('T20 T19 Bull');
+    expect(getVisitTotal(darts)).toBe(167);
+    expect(parseVisit(['T20', 'Q1'])).toBeNull();
+  });
+
+  it('scores bulls and misses', () => {
+    expect(getDartScore(SINGLE_BULL)).toBe(25);
+    expect(getDartScore(BULLSEYE)).toBe(50);
+    expect(getDartScore(MISS)).toBe(0);
+    expect(isValidDart(createDart(25, 3))).toBe(false);
+  });
+});
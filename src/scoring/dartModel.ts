@@ -0,0 +1,161 @@
+/**
+ * Dart Model
+ * Per-dart representation of a throw (segment + multiplier)
+ * Parses and formats standard notation: T20, D16, S5, SB, Bull, Miss
+ */
+
+import type { InOutRule } from '../types';
+
+// ==================== TYPES ====================
+
+/**
+ * 0 = miss, 1 = single, 2 = double, 3 = treble
+ */
+export type DartMultiplier = 0 | 1 | 2 | 3;
+
+export interface Dart {
+  readonly segment: number;             // 1-20, 25 for bull, 0 for a miss
+  readonly multiplier: DartMultiplier;
+}
+
+// ==================== CONSTANTS ====================
+
+export const BULL_SEGMENT = 25;
+export const DARTS_PER_VISIT = 3;
+
+export const MISS: Dart = Object.freeze({ segment: 0, multiplier: 0 });
+export const SINGLE_BULL: Dart = Object.freeze({ segment: BULL_SEGMENT, multiplier: 1 });
+export const BULLSEYE: Dart = Object.freeze({ segment: BULL_SEGMENT, multiplier: 2 });
+
+const MULTIPLIER_PREFIX: Readonly<Record<string, DartMultiplier>> = Object.freeze({
+  S: 1,
+  D: 2,
+  T: 3
+});
+
+// ==================== HELPERS ====================
+
+/**
+ * Create a dart (no validation - use isValidDart)
+ */
+export function createDart(segment: number, multiplier: DartMultiplier): Dart {
+  if (multiplier === 0 || segment === 0) return MISS;
+  return { segment, multiplier };
+}
+
+/**
+ * Check a dart can physically land on the board
+ */
+export function isValidDart(dart: Dart): boolean {
+  if (dart.multiplier === 0) return dart.segment === 0;
+  if (dart.segment === BULL_SEGMENT) return dart.multiplier === 1 || dart.multiplier === 2;
+  return Number.isInteger(dart.segment) && dart.segment >= 1 && dart.segment <= 20 &&
+    (dart.multiplier === 1 || dart.multiplier === 2 || dart.multiplier === 3);
+}
+
+/**
+ * Points scored by a single dart
+ */
+export function getDartScore(dart: Dart): number {
+  return dart.segment * dart.multiplier;
+}
+
+/**
+ * Total of a visit
+ */
+export function getVisitTotal(darts: readonly Dart[]): number {
+  return darts.reduce((sum, dart) => sum + getDartScore(dart), 0);
+}
+
+/**
+ * Double ring or bullseye
+ */
+export function isDouble(dart: Dart): boolean {
+  return dart.multiplier === 2;
+}
+
+export function isTreble(dart: Dart): boolean {
+  return dart.multiplier === 3;
+}
+
+/**
+ * Check a dart satisfies an in/out rule
+ */
+export function isRuleDart(dart: Dart, rule: InOutRule): boolean {
+  switch (rule) {
+    case 'double':
+      return isDouble(dart);
+    case 'master':
+      return isDouble(dart) || isTreble(dart);
+    default:
+      return dart.multiplier > 0;
+  }
+}
+
+/**
+ * Format a dart in standard notation (T20, D16, S5, SB, Bull, Miss)
+ */
+export function formatDart(dart: Dart): string {
+  if (dart.multiplier === 0) return 'Miss';
+  if (dart.segment === BULL_SEGMENT) return dart.multiplier === 2 ? 'Bull' : 'SB';
+  const prefix = dart.multiplier === 3 ? 'T' : dart.multiplier === 2 ? 'D' : 'S';
+  return `${prefix}${dart.segment}`;
+}
+
+/**
+ * Parse standard notation into a dart
+ * Accepts: T20, D16, S5, 5, SB, 25, Bull, DB, 50, M, Miss, 0 (case-insensitive)
+ * Returns null for anything that isn't a real dart
+ */
+export function parseDart(notation: string): Dart | null {
+  const value = notation.trim().toUpperCase();
+
+  switch (value) {
+    case 'M':
+    case 'MISS':
+    case '0':
+      return MISS;
+    case 'SB':
+    case '25':
+    case 'OUTER BULL':
+      return SINGLE_BULL;
+    case 'BULL':
+    case 'DB':
+    case 'D25':
+    case '50':
+      return BULLSEYE;
+  }
+
+  const match = /^([SDT]?)(\d{1,2})$/.exec(value);
+  if (!match) return null;
+
+  const multiplier = match[1] ? MULTIPLIER_PREFIX[match[1]] : 1;
+  const dart = createDart(parseInt(match[2], 10), multiplier);
+
+  return isValidDart(dart) ? dart : null;
+}
+
+/**
+ * Parse a whole visit, e.g. "T20 T20 D16" or ["T20", "T20", "D16"]
+ * Returns null if any dart is invalid
+ */
+export function parseVisit(notation: string | readonly string[]): Dart[] | null {
+  const parts = typeof notation === 'string'
+    ? notation.trim().split(/[\s,]+/).filter(Boolean)
+    : notation;
+
+  const darts: Dart[] = [];
+  for (const part of parts) {
+    const dart = parseDart(part);
+    if (!dart) return null;
+    darts.push(dart);
+  }
+  return darts;
+}
+
+/**
+ * Format a visit for display, e.g. "T20 T20 D16"
+ */
+export function formatVisit(darts: readonly Dart[]): string {
+  return darts.map(formatDart).join(' ');
+}
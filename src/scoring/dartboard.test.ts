@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { BULLSEYE, MISS, SINGLE_BULL, createDart, type DartMultiplier } from './dartModel';
+import { getDartAt, getTargetPoint, getWireDistance, throwDart } from './dartboard';
+import { createRandom } from '../utils/random';
+
+describe('board geometry', () => {
+  it('aims every target at a point inside its own bed', () => {
+    for (let segment = 1; segment <= 20; segment++) {
+      for (const multiplier of [1, 2, 3] as DartMultiplier[]) {
+        const target = createDart(segment, multiplier);
+        expect(getDartAt(getTargetPoint(target))).toEqual(target);
+      }
+    }
+    expect(getDartAt(getTargetPoint(BULLSEYE))).toEqual(BULLSEYE);
+    expect(getDartAt(getTargetPoint(SINGLE_BULL))).toEqual(SINGLE_BULL);
+  });
+
+  it('has 20 at the top and 6 to the right', () => {
+    expect(getDartAt({ x: 0, y: 130 })).toEqual(createDart(20, 1));
+    expect(getDartAt({ x: 130, y: 0 })).toEqual(createDart(6, 1));
+    expect(getDartAt({ x: 0, y: -103 })).toEqual(createDart(3, 3));
+  });
+
+  it('misses off the double ring', () => {
+    expect(getDartAt({ x: 0, y: 171 })).toEqual(MISS);
+  });
+
+  it('measures the distance to the nearest wire', () => {
+    expect(getWireDistance({ x: 0, y: 99.5 })).toBeCloseTo(0.5);
+    expect(getWireDistance(getTargetPoint(createDart(20, 3)))).toBeGreaterThan(3);
+  });
+});
+
+describe('throwDart', () => {
+  it('hits the target with no scatter', () => {
+    const target = createDart(19, 3);
+    expect(throwDart(target, 0, createRandom(1))).toEqual({
+      dart: target,
+      point: getTargetPoint(target),
+      bounced: false
+    });
+  });
+
+  it('gives the same landings for the same seed', () => {
+    const throwSome = (seed: number) => {
+      const random = createRandom(seed);
+      return Array.from({ length: 20 }, () => throwDart(createDart(20, 3), 15, random));
+    };
+    expect(throwSome(7)).toEqual(throwSome(7));
+    expect(throwSome(7)).not.toEqual(throwSome(8));
+  });
+
+  it('scatters more with a larger sigma', () => {
+    const spread = (sigma: number) => {
+      const random = createRandom(3);
+      const aim = getTargetPoint(BULLSEYE);
+      let total = 0;
+      for (let i = 0; i < 200; i++) {
+        const { point } = throwDart(BULLSEYE, sigma, random);
+        total += Math.hypot(point.x - aim.x, point.y - aim.y);
+      }
+      return total / 200;
+    };
+    expect(spread(20)).toBeGreaterThan(spread(5) * 2);
+  });
+
+  it('knocks out or deflects a dart that hits one already in the board', () => {
+    const target = createDart(20, 3);
+    const aim = getTargetPoint(target);
+    const random = createRandom(11);
+
+    for (let i = 0; i < 20; i++) {
+      const landing = throwDart(target, 0, random, [aim]);
+      if (landing.bounced) {
+        expect(landing.dart).toEqual(MISS);
+      } else {
+        expect(Math.hypot(landing.point.x - aim.x, landing.point.y - aim.y)).toBeCloseTo(3.5);
+      }
+    }
+  });
+});
@@ -0,0 +1,175 @@
+/**
+ * Dartboard Geometry
+ * Regulation board layout (mm) for simulating where a dart lands
+ * Aim at a target, scatter with a 2D Gaussian, read the bed it lands in
+ *
+ * Coordinates: origin at the bullseye centre, x to the right, y up,
+ * so 20 is straight up and 6 is to the right.
+ */
+
+import {
+  type Dart,
+  BULL_SEGMENT,
+  MISS,
+  createDart
+} from './dartModel';
+import { type RandomSource, defaultRandom } from '../utils/random';
+
+// ==================== TYPES ====================
+
+export interface BoardPoint {
+  x: number;
+  y: number;
+}
+
+export interface DartLanding {
+  dart: Dart;                    // Where it scored (MISS off the board or on a bounce-out)
+  point: BoardPoint;
+  bounced: boolean;
+}
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Segment numbers clockwise from the top
+ */
+export const BOARD_SEGMENTS: readonly number[] = Object.freeze([
+  20, 1, 18, 4, 13, 6, 10, 15, 2, 17, 3, 19, 7, 16, 8, 11, 14, 9, 12, 5
+]);
+
+/**
+ * Ring radii in mm (outer edge of each bed)
+ */
+export const BOARD_DIMENSIONS = Object.freeze({
+  bullseye: 6.35,
+  outerBull: 15.9,
+  trebleInner: 99,
+  trebleOuter: 107,
+  doubleInner: 162,
+  doubleOuter: 170
+});
+
+const SEGMENT_ANGLE = 360 / BOARD_SEGMENTS.length;
+const SEGMENT_INDEX = new Map(BOARD_SEGMENTS.map((s, i) => [s, i]));
+
+// A dart this close to a wire can hit it and bounce out
+const WIRE_ZONE_MM = 0.6;
+const BOUNCE_OUT_CHANCE = 0.4;
+
+// A dart landing this close to one already in the board hits its barrel
+const DART_CONTACT_MM = 3.5;
+
+// ==================== GEOMETRY ====================
+
+/**
+ * Where to aim for a target: the middle of its bed
+ */
+export function getTargetPoint(target: Dart): BoardPoint {
+  const d = BOARD_DIMENSIONS;
+
+  if (target.segment === BULL_SEGMENT) {
+    // Outer bull: halfway across the ring, below the bullseye
+    return target.multiplier === 2 ? { x: 0, y: 0 } : { x: 0, y: -(d.bullseye + d.outerBull) / 2 };
+  }
+
+  const index = SEGMENT_INDEX.get(target.segment);
+  if (index === undefined || target.multiplier === 0) return { x: 0, y: 0 };
+
+  const radius = target.multiplier === 3
+    ? (d.trebleInner + d.trebleOuter) / 2
+    : target.multiplier === 2
+      ? (d.doubleInner + d.doubleOuter) / 2
+      : (d.trebleOuter + d.doubleInner) / 2;  // Outer single - the bigger bed
+
+  const angle = (index * SEGMENT_ANGLE * Math.PI) / 180;
+  return { x: radius * Math.sin(angle), y: radius * Math.cos(angle) };
+}
+
+/**
+ * The bed a point lands in
+ */
+export function getDartAt(point: BoardPoint): Dart {
+  const d = BOARD_DIMENSIONS;
+  const radius = Math.hypot(point.x, point.y);
+
+  if (radius <= d.bullseye) return createDart(BULL_SEGMENT, 2);
+  if (radius <= d.outerBull) return createDart(BULL_SEGMENT, 1);
+  if (radius > d.doubleOuter) return MISS;
+
+  const segment = BOARD_SEGMENTS[segmentIndexAt(point)];
+  if (radius > d.doubleInner) return createDart(segment, 2);
+  if (radius > d.trebleInner && radius <= d.trebleOuter) return createDart(segment, 3);
+  return createDart(segment, 1);
+}
+
+/**
+ * Distance (mm) from a point to the nearest wire
+ */
+export function getWireDistance(point: BoardPoint): number {
+  const d = BOARD_DIMENSIONS;
+  const radius = Math.hypot(point.x, point.y);
+
+  const rings = [d.bullseye, d.outerBull, d.trebleInner, d.trebleOuter, d.doubleInner, d.doubleOuter];
+  let nearest = Math.min(...rings.map(r => Math.abs(radius - r)));
+
+  // Radial wires only run between the outer bull and the double ring
+  if (radius > d.outerBull && radius <= d.doubleOuter) {
+    const degrees = (Math.atan2(point.x, point.y) * 180) / Math.PI + SEGMENT_ANGLE / 2;
+    const offset = ((degrees % SEGMENT_ANGLE) + SEGMENT_ANGLE) % SEGMENT_ANGLE;
+    const toWire = Math.min(offset, SEGMENT_ANGLE - offset);
+    nearest = Math.min(nearest, radius * Math.sin((toWire * Math.PI) / 180));
+  }
+
+  return nearest;
+}
+
+// ==================== SIMULATION ====================
+
+/**
+ * Throw one dart at a target with Gaussian scatter (sigma in mm, per axis)
+ * Darts already in the board (blockers) can knock it out or deflect it
+ */
+export function throwDart(
+  target: Dart,
+  sigma: number,
+  random: RandomSource = defaultRandom,
+  blockers: readonly BoardPoint[] = []
+): DartLanding {
+  const aim = getTargetPoint(target);
+
+  // Box-Muller: two independent normals
+  const u1 = Math.max(random(), Number.EPSILON);
+  const u2 = random();
+  const magnitude = sigma * Math.sqrt(-2 * Math.log(u1));
+  let point = {
+    x: aim.x + magnitude * Math.cos(2 * Math.PI * u2),
+    y: aim.y + magnitude * Math.sin(2 * Math.PI * u2)
+  };
+
+  const blocker = blockers.find(b => Math.hypot(point.x - b.x, point.y - b.y) < DART_CONTACT_MM);
+  if (blocker) {
+    if (random() < BOUNCE_OUT_CHANCE) return { dart: MISS, point, bounced: true };
+
+    // Deflected off the barrel to the far side of it
+    const angle = Math.atan2(point.y - blocker.y, point.x - blocker.x);
+    point = {
+      x: blocker.x + DART_CONTACT_MM * Math.cos(angle),
+      y: blocker.y + DART_CONTACT_MM * Math.sin(angle)
+    };
+  }
+
+  if (getWireDistance(point) < WIRE_ZONE_MM && random() < BOUNCE_OUT_CHANCE) {
+    return { dart: MISS, point, bounced: true };
+  }
+
+  return { dart: getDartAt(point), point, bounced: false };
+}
+
+function segmentIndexAt(point: BoardPoint): number {
+  // Clockwise from the top, shifted half a segment so 20 spans -9..9 degrees
+  const degrees = (Math.atan2(point.x, point.y) * 180) / Math.PI + SEGMENT_ANGLE / 2;
+  const normalized = ((degrees % 360) + 360) % 360;
+  return Math.floor(normalized / SEGMENT_ANGLE) % BOARD_SEGMENTS.length;
+}
+
+export default throwDart;
@@ -0,0 +1,123 @@
+import { describe, expect, it } from 'vitest';
+import { BULLSEYE, createDart } from './dartModel';
+import {
+  CricketGameMode,
+  X01GameMode,
+  getAllGameModes,
+  getGameMode,
+  registerGameMode,
+  resolveGameSettings,
+  resolveModeConfig
+} from './gameModes';
+
+const players = [{ name: 'A' }, { name: 'B' }];
+
+describe('registry', () => {
+  it('has X01 and Cricket built in', () => {
+    expect(getGameMode('x01')).toBeInstanceOf(X01GameMode);
+    expect(getGameMode('cricket')).toBeInstanceOf(CricketGameMode);
+    expect(getGameMode('shanghai')).toBeUndefined();
+  });
+
+  it('replaces a mode registered with the same id', () => {
+    const custom = Object.assign(new CricketGameMode(), { id: 'test_mode' as const });
+    registerGameMode(custom);
+    registerGameMode(Object.assign(new CricketGameMode(), { id: 'test_mode' as const, name: 'Replaced' }));
+
+    expect(getGameMode('test_mode')?.name).toBe('Replaced');
+    expect(getAllGameModes().filter(m => m.id === 'test_mode')).toHaveLength(1);
+  });
+});
+
+describe('resolveModeConfig', () => {
+  const x01 = new X01GameMode();
+
+  it('fills in defaults and drops keys outside the schema', () => {
+    const config = resolveModeConfig(x01, { startingScore: 301, colour: 'red' });
+    expect(config).toEqual({ ...x01.defaultConfig, startingScore: 301 });
+  });
+
+  it('rejects numbers out of range or not whole', () => {
+    expect(() => resolveModeConfig(x01, { startingScore: 1 })).toThrow(/Starting score/);
+    expect(() => resolveModeConfig(x01, { targetLegs: 2.5 })).toThrow(/Legs/);
+    expect(() => resolveModeConfig(x01, { targetLegs: '3' })).toThrow(/Legs/);
+  });
+
+  it('rejects options not in the list', () => {
+    expect(() => resolveModeConfig(x01, { outRule: 'triple' })).toThrow(/Out must be one of/);
+  });
+
+  it('requires fields that are not optional', () => {
+    const mode = {
+      name: 'Test',
+      configSchema: [{ key: 'legs', label: 'Legs', type: 'number' as const, min: 1 }],
+      defaultConfig: {}
+    };
+    expect(() => resolveModeConfig(mode, {})).toThrow('Test: Legs is required');
+    expect(resolveModeConfig(x01, {})).not.toHaveProperty('targetSets');
+  });
+});
+
+describe('resolveGameSettings', () => {
+  it('defaults to X01 and lets game_config win over legacy columns', () => {
+    const { mode, config } = resolveGameSettings(
+      { game_config: { targetLegs: 5 } },
+      { startingScore: 301, targetLegs: 2, matchType: null }
+    );
+    expect(mode.id).toBe('x01');
+    expect(config).toMatchObject({ startingScore: 301, targetLegs: 5, matchType: 'first_to' });
+  });
+
+  it('throws for an unknown mode', () => {
+    expect(() => resolveGameSettings({ game_mode: 'golf' })).toThrow('Unknown game mode: golf');
+  });
+});
+
+describe('X01 mode', () => {
+  const mode = new X01GameMode();
+
+  it('plays visits through the stored snapshot', () => {
+    const config = mode.resolveConfig({ startingScore: 101, targetLegs: 1 });
+    let state = mode.createState(config, players);
+
+    state = mode.applyVisit(state, { kind: 'total', score: 60 }).state;
+    expect(mode.getScores(state)).toEqual([41, 101]);
+    expect(state.currentPlayerIndex).toBe(1);
+
+    state = mode.applyVisit(state, { kind: 'total', score: 26 }).state;
+    const won = mode.applyVisit(state, { kind: 'darts', darts: [createDart(1, 1), createDart(20, 2)] });
+
+    expect(won.isMatchWon).toBe(true);
+    expect(mode.getWinner(won.state)).toBe(0);
+    expect(mode.extractStats(won.state)[0]).toMatchObject({ legsWon: 1, dartsThrown: 5 });
+    expect(mode.applyVisit(won.state, { kind: 'total', score: 0 }).success).toBe(false);
+  });
+});
+
+describe('Cricket mode', () => {
+  const mode = new CricketGameMode();
+
+  it('only takes darts', () => {
+    const state = mode.createState(mode.resolveConfig(), players);
+    expect(mode.applyVisit(state, { kind: 'total', score: 60 }).success).toBe(false);
+  });
+
+  it('resets marks and alternates the starter after a leg', () => {
+    const config = mode.resolveConfig({ targetLegs: 2 });
+    const state = mode.createState(config, players);
+    const closed = Object.fromEntries(Object.keys(state.players[0].marks).map(n => [n, 3]));
+    const almost = {
+      ...state,
+      players: [{ ...state.players[0], marks: { ...closed, 25: 1 } }, state.players[1]]
+    };
+
+    const result = mode.applyVisit(almost, { kind: 'darts', darts: [BULLSEYE] });
+
+    expect(result.isLegWon).toBe(true);
+    expect(result.isMatchWon).toBe(false);
+    expect(result.state.players[0].legs).toBe(1);
+    expect(result.state.players[0].marks[20]).toBe(0);
+    expect(result.state.currentPlayerIndex).toBe(1);
+    expect(mode.extractStats(result.state)[0].legsWon).toBe(1);
+  });
+});
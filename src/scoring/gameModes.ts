@@ -0,0 +1,366 @@
+/**
+ * Game Modes
+ * Pluggable match formats behind one interface: config schema, initial state,
+ * apply-visit, winner detection and per-player stats
+ * Built in: X01 (501, 301, ...) and Cricket (standard / cut-throat)
+ *
+ * Modes are stateless and work on JSON-safe state objects, so a match can be
+ * stored as { game_mode, game_config, game_state } and resumed anywhere.
+ * Tournaments, leagues, online rooms, doubles and kiosk quick play all
+ * resolve their format through this registry.
+ */
+
+import type { MatchConfig } from '../types';
+import {
+  MatchController,
+  type MatchPlayer,
+  type MatchSnapshot,
+  type VisitInput
+} from './matchController';
+import type { PlayerState } from './scoringEngine';
+import {
+  CricketScoringEngine,
+  DEFAULT_CRICKET_CONFIG,
+  calculateMarksPerRound,
+  type CricketConfig,
+  type CricketPlayerState
+} from './cricketEngine';
+import { DARTS_PER_VISIT } from './dartModel';
+
+// ==================== TYPES ====================
+
+/**
+ * One setting a mode accepts - drives validation and setup forms
+ */
+export interface GameModeConfigField {
+  key: string;
+  label: string;
+  type: 'number' | 'select';
+  options?: readonly (string | number)[];  // select only
+  min?: number;                            // number only
+  max?: number;
+  optional?: boolean;                      // May be left unset
+}
+
+export interface GameModeState {
+  currentPlayerIndex: number;
+  isComplete: boolean;
+  winnerIndex: number | null;
+}
+
+export interface GameModeVisitResult<S extends GameModeState = GameModeState> {
+  success: boolean;
+  state: S;
+  isLegWon: boolean;
+  isMatchWon: boolean;
+  message?: string;
+}
+
+export interface GameModePlayerStats {
+  name: string;
+  id?: string;
+  legsWon: number;
+  dartsThrown: number;
+  metrics: Record<string, number>;         // Mode-specific, e.g. average or mpr
+}
+
+/**
+ * A game mode - implement and register to add a new one
+ */
+export interface GameMode<C extends object = object, S extends GameModeState = GameModeState> {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly configSchema: readonly GameModeConfigField[];
+  readonly defaultConfig: Readonly<C>;
+  readonly scoreLabel: string;             // What getScores shows, e.g. 'Remaining', 'Points'
+  resolveConfig(config?: Record<string, unknown>): C;
+  createState(config: C, players: readonly MatchPlayer[], firstThrowerIndex?: number): S;
+  applyVisit(state: S, input: VisitInput): GameModeVisitResult<S>;
+  getWinner(state: S): number | null;
+  getScores(state: S): number[];
+  extractStats(state: S): GameModePlayerStats[];
+}
+
+/**
+ * Stored game settings (tournaments, leagues, rooms, quick matches)
+ */
+export interface GameSettings {
+  game_mode?: string;
+  game_config?: Record<string, unknown>;
+}
+
+// ==================== CONFIG HELPERS ====================
+
+const MATCH_TYPES = ['first_to', 'best_of'] as const;
+const IN_OUT_RULES = ['straight', 'double', 'master'] as const;
+
+/**
+ * Merge a config over the defaults and check it against the schema
+ * Keys not in the schema are dropped; throws on an invalid value
+ */
+export function resolveModeConfig<C extends object>(
+  mode: Pick<GameMode<C>, 'name' | 'configSchema' | 'defaultConfig'>,
+  config: Record<string, unknown> = {}
+): C {
+  const resolved: Record<string, unknown> = {};
+  const defaults = mode.defaultConfig as Record<string, unknown>;
+
+  for (const field of mode.configSchema) {
+    const value = config[field.key] ?? defaults[field.key];
+
+    if (value === undefined || value === null) {
+      if (!field.optional) throw new Error(`${mode.name}: ${field.label} is required`);
+      continue;
+    }
+
+    if (field.type === 'number') {
+      if (typeof value !== 'number' || !Number.isInteger(value) ||
+          (field.min !== undefined && value < field.min) ||
+          (field.max !== undefined && value > field.max)) {
+        throw new Error(`${mode.name}: ${field.label} must be a whole number from ${field.min ?? '-'} to ${field.max ?? '-'}`);
+      }
+    } else if (!field.options?.includes(value as string | number)) {
+      throw new Error(`${mode.name}: ${field.label} must be one of ${field.options?.join(', ')}`);
+    }
+
+    resolved[field.key] = value;
+  }
+
+  return resolved as C;
+}
+
+function invalidVisit<S extends GameModeState>(state: S, message: string): GameModeVisitResult<S> {
+  return { success: false, state, isLegWon: false, isMatchWon: false, message };
+}
+
+// ==================== X01 ====================
+
+export interface X01ModeState extends GameModeState {
+  snapshot: MatchSnapshot;       // Replayed through MatchController on every visit
+  players: PlayerState[];
+}
+
+export class X01GameMode implements GameMode<MatchConfig, X01ModeState> {
+  readonly id = 'x01';
+  readonly name = 'X01';
+  readonly description = 'Count down from the starting score; finish exactly on the out rule';
+  readonly scoreLabel = 'Remaining';
+  readonly configSchema: readonly GameModeConfigField[] = Object.freeze([
+    { key: 'startingScore', label: 'Starting score', type: 'number', min: 2, max: 1001 },
+    { key: 'matchType', label: 'Match type', type: 'select', options: MATCH_TYPES },
+    { key: 'targetLegs', label: 'Legs', type: 'number', min: 1, max: 99 },
+    { key: 'targetSets', label: 'Sets', type: 'number', min: 1, max: 99, optional: true },
+    { key: 'legsMatchType', label: 'Legs per set', type: 'select', options: MATCH_TYPES, optional: true },
+    { key: 'inRule', label: 'In', type: 'select', options: IN_OUT_RULES },
+    { key: 'outRule', label: 'Out', type: 'select', options: IN_OUT_RULES }
+  ]);
+  readonly defaultConfig: Readonly<MatchConfig> = Object.freeze({
+    startingScore: 501,
+    matchType: 'first_to',
+    targetLegs: 3,
+    inRule: 'straight',
+    outRule: 'double'
+  });
+
+  resolveConfig(config?: Record<string, unknown>): MatchConfig {
+    return resolveModeConfig(this, config);
+  }
+
+  createState(config: MatchConfig, players: readonly MatchPlayer[], firstThrowerIndex = 0): X01ModeState {
+    return this.toState(new MatchController(config, players, { firstThrowerIndex }));
+  }
+
+  applyVisit(state: X01ModeState, input: VisitInput): GameModeVisitResult<X01ModeState> {
+    if (state.isComplete) return invalidVisit(state, 'Match is over.');
+
+    const controller = MatchController.fromSnapshot(state.snapshot);
+    const result = input.kind === 'darts'
+      ? controller.throwDarts(input.darts)
+      : controller.throwScore(input.score);
+
+    if (!result.success) return invalidVisit(state, result.message ?? 'Invalid visit.');
+
+    return {
+      success: true,
+      state: this.toState(controller),
+      isLegWon: result.isLegWon,
+      isMatchWon: result.isMatchWon,
+      message: result.message
+    };
+  }
+
+  getWinner(state: X01ModeState): number | null {
+    return state.winnerIndex;
+  }
+
+  getScores(state: X01ModeState): number[] {
+    return state.players.map(p => p.score);
+  }
+
+  extractStats(state: X01ModeState): GameModePlayerStats[] {
+    const visits = MatchController.fromSnapshot(state.snapshot).getVisits();
+
+    return state.players.map((player, i) => {
+      const own = visits.filter(v => v.playerIndex === i);
+      return {
+        name: player.name,
+        id: player.id,
+        legsWon: own.filter(v => v.result.isLegWon).length,
+        dartsThrown: own.reduce((sum, v) => sum + (v.result.dartsUsed ?? DARTS_PER_VISIT), 0),
+        metrics: {
+          average: player.stats.average,
+          highest_checkout: player.stats.highest_checkout ?? 0,
+          scores_180: player.stats.scores_180
+        }
+      };
+    });
+  }
+
+  private toState(controller: MatchController): X01ModeState {
+    const state = controller.getState();
+    return {
+      snapshot: { ...controller.getSnapshot(), redo: [] },
+      players: state.players,
+      currentPlayerIndex: state.currentPlayerIndex,
+      isComplete: state.isComplete,
+      winnerIndex: state.winnerIndex
+    };
+  }
+}
+
+// ==================== CRICKET ====================
+
+export interface CricketModeState extends GameModeState {
+  config: CricketConfig;
+  players: CricketPlayerState[];
+  legStarterIndex: number;
+}
+
+export class CricketGameMode implements GameMode<CricketConfig, CricketModeState> {
+  readonly id = 'cricket';
+  readonly name = 'Cricket';
+  readonly description = 'Close 20-15 and bull; score on numbers your opponents still have open';
+  readonly scoreLabel = 'Points';
+  readonly configSchema: readonly GameModeConfigField[] = Object.freeze([
+    { key: 'variant', label: 'Variant', type: 'select', options: ['standard', 'cut_throat'] },
+    { key: 'matchType', label: 'Match type', type: 'select', options: MATCH_TYPES },
+    { key: 'targetLegs', label: 'Legs', type: 'number', min: 1, max: 99 }
+  ]);
+  readonly defaultConfig: Readonly<CricketConfig> = DEFAULT_CRICKET_CONFIG;
+
+  resolveConfig(config?: Record<string, unknown>): CricketConfig {
+    return resolveModeConfig(this, config);
+  }
+
+  createState(config: CricketConfig, players: readonly MatchPlayer[], firstThrowerIndex = 0): CricketModeState {
+    if (players.length === 0) throw new Error('A match needs at least one player');
+
+    const engine = new CricketScoringEngine(config);
+    return {
+      config: { ...config },
+      players: players.map(p => engine.createPlayerState(p.name, p.id)),
+      currentPlayerIndex: firstThrowerIndex,
+      legStarterIndex: firstThrowerIndex,
+      isComplete: false,
+      winnerIndex: null
+    };
+  }
+
+  applyVisit(state: CricketModeState, input: VisitInput): GameModeVisitResult<CricketModeState> {
+    if (state.isComplete) return invalidVisit(state, 'Match is over.');
+    if (input.kind !== 'darts') return invalidVisit(state, 'Cricket is scored dart by dart.');
+
+    const engine = new CricketScoringEngine(state.config);
+    const thrower = state.currentPlayerIndex;
+    const { players, result } = engine.applyVisit(state.players, thrower, input.darts);
+
+    if (!result.success) return invalidVisit(state, result.message ?? 'Invalid visit.');
+
+    let next: CricketModeState;
+    if (result.isMatchWon) {
+      next = { ...state, players, isComplete: true, winnerIndex: thrower };
+    } else if (result.isLegWon) {
+      // Next leg: starter alternates
+      const legStarterIndex = (state.legStarterIndex + 1) % players.length;
+      next = {
+        ...state,
+        players: players.map(p => engine.resetForNewLeg(p)),
+        legStarterIndex,
+        currentPlayerIndex: legStarterIndex
+      };
+    } else {
+      next = { ...state, players, currentPlayerIndex: (thrower + 1) % players.length };
+    }
+
+    return {
+      success: true,
+      state: next,
+      isLegWon: result.isLegWon,
+      isMatchWon: result.isMatchWon,
+      message: result.message
+    };
+  }
+
+  getWinner(state: CricketModeState): number | null {
+    return state.winnerIndex;
+  }
+
+  getScores(state: CricketModeState): number[] {
+    return state.players.map(p => p.points);
+  }
+
+  extractStats(state: CricketModeState): GameModePlayerStats[] {
+    return state.players.map(player => ({
+      name: player.name,
+      id: player.id,
+      legsWon: player.legs,
+      dartsThrown: player.rounds * DARTS_PER_VISIT,   // Rounds are tracked, not darts
+      metrics: {
+        mpr: calculateMarksPerRound(player.totalMarks, player.rounds),
+        total_marks: player.totalMarks,
+        perfect_rounds: player.perfectRounds
+      }
+    }));
+  }
+}
+
+// ==================== REGISTRY ====================
+
+export const DEFAULT_GAME_MODE = 'x01';
+
+const gameModes = new Map<string, GameMode>();
+
+/**
+ * Add (or replace) a game mode
+ */
+export function registerGameMode<C extends object, S extends GameModeState>(mode: GameMode<C, S>): void {
+  gameModes.set(mode.id, mode);
+}
+
+export function getGameMode(id: string): GameMode | undefined {
+  return gameModes.get(id);
+}
+
+export function getAllGameModes(): GameMode[] {
+  return Array.from(gameModes.values());
+}
+
+/**
+ * Resolve stored settings to a registered mode and a validated config
+ * Legacy columns (starting_score, legs, match type) fill in what game_config leaves out
+ */
+export function resolveGameSettings(
+  settings: GameSettings,
+  legacy: Record<string, unknown> = {}
+): { mode: GameMode; config: object } {
+  const id = settings.game_mode || DEFAULT_GAME_MODE;
+  const mode = getGameMode(id);
+  if (!mode) throw new Error(`Unknown game mode: ${id}`);
+
+  const defined = Object.fromEntries(Object.entries(legacy).filter(([, v]) => v !== undefined && v !== null));
+  return { mode, config: mode.resolveConfig({ ...defined, ...settings.game_config }) };
+}
+
+registerGameMode(new X01GameMode());
+registerGameMode(new CricketGameMode());
@@ -9,19 +9,186 @@ export {
   calculateFirst9Average,
   isValidCheckout,
   calculateCheckoutPercentage,
+  winsNeeded,
   type PlayerState,
   type ThrowResult
 } from './scoringEngine';
 
+export {
+  MISS,
+  SINGLE_BULL,
+  BULLSEYE,
+  BULL_SEGMENT,
+  DARTS_PER_VISIT,
+  createDart,
+  isValidDart,
+  getDartScore,
+  getVisitTotal,
+  isDouble,
+  isTreble,
+  isRuleDart,
+  formatDart,
+  parseDart,
+  parseVisit,
+  formatVisit,
+  type Dart,
+  type DartMultiplier
+} from './dartModel';
+
+export {
+  findCheckoutRoutes,
+  getBestCheckout,
+  canCheckout,
+  getCheckoutTable,
+  getFinishProbability,
+  getDartOutcomes,
+  resolveDart,
+  DEFAULT_HIT_RATES,
+  type CheckoutPreferences,
+  type CheckoutOptions,
+  type CheckoutRoute,
+  type HitRates
+} from './checkoutSolver';
+
+export {
+  getSetupAdvice,
+  type SetupOptions,
+  type SetupAdvice
+} from './setupAdvisor';
+
+export {
+  BOARD_SEGMENTS,
+  BOARD_DIMENSIONS,
+  getTargetPoint,
+  getDartAt,
+  getWireDistance,
+  throwDart,
+  type BoardPoint,
+  type DartLanding
+} from './dartboard';
+
+export {
+  MatchController,
+  type MatchPlayer,
+  type VisitInput,
+  type MatchVisit,
+  type MatchControllerState,
+  type MatchSnapshot,
+  type MatchControllerOptions
+} from './matchController';
+
+export {
+  MatchLog,
+  type MatchEvent,
+  type MatchEventType,
+  type MatchCreatedEvent,
+  type VisitEvent,
+  type BustEvent,
+  type LegWonEvent,
+  type SetWonEvent,
+  type UndoEvent,
+  type ForfeitEvent,
+  type MatchLogState,
+  type MatchControllerView
+} from './matchLog';
+
+export {
+  CricketScoringEngine,
+  CRICKET_NUMBERS,
+  MARKS_TO_CLOSE,
+  PERFECT_ROUND_MARKS,
+  DEFAULT_CRICKET_CONFIG,
+  calculateMarksPerRound,
+  formatMarks,
+  type CricketVariant,
+  type CricketConfig,
+  type CricketPlayerState,
+  type CricketThrowResult
+} from './cricketEngine';
+
+export {
+  AroundTheClockGame,
+  BobsTwentySevenGame,
+  ShanghaiGame,
+  CheckoutLadderGame,
+  CatchFortyGame,
+  registerPracticeGame,
+  getPracticeGame,
+  getAllPracticeGames,
+  isPracticeBest,
+  formatPracticeVisit,
+  type PracticeGame,
+  type PracticeState,
+  type PracticeVisit,
+  type PracticeVisitResult,
+  type AroundTheClockOptions,
+  type AroundTheClockState,
+  type ShanghaiOptions,
+  type ShanghaiState,
+  type CheckoutLadderOptions,
+  type CheckoutLadderState,
+  type CatchFortyState
+} from './practiceGames';
+
+export {
+  X01GameMode,
+  CricketGameMode,
+  DEFAULT_GAME_MODE,
+  registerGameMode,
+  getGameMode,
+  getAllGameModes,
+  resolveGameSettings,
+  resolveModeConfig,
+  type GameMode,
+  type GameModeConfigField,
+  type GameModeState,
+  type GameModeVisitResult,
+  type GameModePlayerStats,
+  type GameSettings,
+  type X01ModeState,
+  type CricketModeState
+} from './gameModes';
+
 export {
   DartsBotEngine,
   BOT_LEVELS,
   getBotLevelById,
   getBotLevelByName,
   getAllBotLevels,
-  type BotLevel
+  scatterForAverage,
+  type BotLevel,
+  type BotVisit,
+  type BotOptions
 } from './botEngine';
 
+export {
+  BOT_STRATEGY_PROFILES,
+  getBotStrategy,
+  chooseBotTarget,
+  getPlannedTarget,
+  isTargetBlocked,
+  type BotStrategyProfile,
+  type BotAimContext
+} from './botStrategy';
+
+export {
+  summarizeStatistics,
+  fitBotLevel,
+  estimateBotLevel,
+  calibrateBotLevel,
+  verifyBotLevel,
+  simulateBotLegs,
+  DEFAULT_CALIBRATION_TOLERANCE,
+  type BotCalibrationSample,
+  type BotCalibrationTarget,
+  type BotSimulationOptions,
+  type BotSimulationResult,
+  type BotCalibrationTolerance,
+  type BotVerification,
+  type BotCalibrationOptions,
+  type BotCalibration
+} from './botCalibration';
+
 // Re-export constants used by scoring
 export {
   VALID_CHECKOUTS,
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { MatchController } from './matchController';
+
+const newMatch = (targetLegs = 2) => new MatchController(
+  { startingScore: 101, matchType: 'first_to', targetLegs },
+  [{ name: 'A' }, { name: 'B' }]
+);
+
+describe('MatchController', () => {
+  it('alternates throwers and leg starters', () => {
+    const match = newMatch();
+    match.throwScore(61);
+    expect(match.getState().currentPlayerIndex).toBe(1);
+
+    match.throwScore(20);
+    match.throwScore(40);
+    const state = match.getState();
+
+    expect(state.legNumber).toBe(2);
+    expect(state.legStarterIndex).toBe(1);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.players.map(p => [p.legs, p.score])).toEqual([[1, 101], [0, 101]]);
+  });
+
+  it('finishes the match and refuses further visits', () => {
+    const match = newMatch(1);
+    match.throwScore(61);
+    match.throwScore(0);
+    match.throwScore(40);
+
+    expect(match.getState()).toMatchObject({ isComplete: true, winnerIndex: 0 });
+    expect(match.throwScore(60).success).toBe(false);
+  });
+
+  it('undoes and redoes a visit, and a new visit clears the redo', () => {
+    const match = newMatch();
+    match.throwScore(60);
+
+    expect(match.undo()).toBe(true);
+    expect(match.getState().players[0].score).toBe(101);
+    expect(match.redo()).toBe(true);
+    expect(match.getState().players[0].score).toBe(41);
+    expect(match.redo()).toBe(false);
+
+    match.undo();
+    match.throwScore(45);
+    expect(match.canRedo()).toBe(false);
+  });
+
+  it('keeps a redo that no longer applies', () => {
+    const match = MatchController.fromSnapshot({
+      ...newMatch().getSnapshot(),
+      redo: [{ kind: 'total', score: 181 }]
+    });
+
+    expect(match.redo()).toBe(false);
+    expect(match.canRedo()).toBe(true);
+  });
+
+  it('restores a match from its snapshot', () => {
+    const match = newMatch();
+    match.throwScore(61);
+    match.throwScore(20);
+    match.undo();
+
+    const restored = MatchController.fromSnapshot(JSON.parse(JSON.stringify(match.getSnapshot())));
+    expect(restored.getState()).toEqual(match.getState());
+    expect(restored.canRedo()).toBe(true);
+  });
+
+  it('refuses a snapshot whose visits are not a legal match', () => {
+    const snapshot = newMatch().getSnapshot();
+
+    expect(() => MatchController.fromSnapshot({
+      ...snapshot,
+      visits: [{ kind: 'total', score: 60 }, { kind: 'total', score: 179 }]
+    })).toThrow('Visit 2');
+  });
+});
@@ -0,0 +1,368 @@
+/**
+ * Match Controller
+ * Authoritative X01 game loop on top of DartsScoringEngine
+ * Owns: N players, throw order, leg/set starters, undo/redo of committed visits
+ *
+ * Every state is derived by replaying the committed visits, so undo, redo
+ * and snapshots can never drift from what the engine would have produced.
+ */
+
+import type { MatchConfig } from '../types';
+import {
+  DartsScoringEngine,
+  type PlayerState,
+  type ThrowResult
+} from './scoringEngine';
+import type { Dart } from './dartModel';
+
+// ==================== TYPES ====================
+
+export interface MatchPlayer {
+  name: string;
+  id?: string;
+}
+
+/**
+ * A visit as entered: a 3-dart total or the individual darts
+ */
+export type VisitInput =
+  | { readonly kind: 'total'; readonly score: number }
+  | { readonly kind: 'darts'; readonly darts: readonly Dart[] };
+
+export interface MatchVisit {
+  playerIndex: number;
+  setNumber: number;
+  legNumber: number;
+  input: VisitInput;
+  result: ThrowResult;
+}
+
+export interface MatchControllerState {
+  players: PlayerState[];
+  currentPlayerIndex: number;
+  legStarterIndex: number;
+  setStarterIndex: number;
+  setNumber: number;             // 1-based; stays 1 in a legs-only match
+  legNumber: number;             // 1-based, within the current set when playing sets
+  isComplete: boolean;
+  winnerIndex: number | null;
+  lastResult: ThrowResult | null;
+}
+
+/**
+ * Serialisable match (JSON-safe) - restore with MatchController.fromSnapshot
+ */
+export interface MatchSnapshot {
+  version: 1;
+  config: MatchConfig;
+  players: MatchPlayer[];
+  firstThrowerIndex: number;
+  visits: VisitInput[];
+  redo: VisitInput[];
+}
+
+export interface MatchControllerOptions {
+  firstThrowerIndex?: number;    // Default: 0
+}
+
+// ==================== MATCH CONTROLLER ====================
+
+export class MatchController {
+  private readonly engine: DartsScoringEngine;
+  private readonly config: MatchConfig;
+  private readonly players: readonly MatchPlayer[];
+  private firstThrowerIndex: number;
+  private state: MatchControllerState;
+  private visits: MatchVisit[] = [];
+  private redoStack: VisitInput[] = [];
+  private onChangeCallback?: (state: MatchControllerState) => void;
+
+  constructor(
+    config: MatchConfig,
+    players: readonly MatchPlayer[],
+    options: MatchControllerOptions = {}
+  ) {
+    if (players.length === 0) {
+      throw new Error('A match needs at least one player');
+    }
+
+    this.config = { ...config };
+    this.engine = new DartsScoringEngine(this.config);
+    this.players = players.map(p => ({ ...p }));
+    this.firstThrowerIndex = this.normalizeIndex(options.firstThrowerIndex ?? 0);
+    this.state = this.initialState();
+  }
+
+  /**
+   * Restore a match from a snapshot
+   * Throws if the snapshot's visits don't make a legal match
+   */
+  static fromSnapshot(snapshot: MatchSnapshot): MatchController {
+    const controller = new MatchController(snapshot.config, snapshot.players, {
+      firstThrowerIndex: snapshot.firstThrowerIndex
+    });
+    controller.replay(snapshot.visits);
+    controller.redoStack = [...snapshot.redo];
+    return controller;
+  }
+
+  // ==================== THROWING ====================
+
+  /**
+   * Enter a visit as a 3-dart total for the player to throw
+   */
+  throwScore(score: number): ThrowResult {
+    return this.enter({ kind: 'total', score });
+  }
+
+  /**
+   * Enter a visit dart by dart for the player to throw
+   */
+  throwDarts(darts: readonly Dart[]): ThrowResult {
+    return this.enter({ kind: 'darts', darts: [...darts] });
+  }
+
+  /**
+   * Enter a new visit - a new visit clears the redo stack
+   */
+  private enter(input: VisitInput): ThrowResult {
+    const result = this.apply(input);
+    if (result.success) {
+      this.redoStack = [];
+      this.notify();
+    }
+    return result;
+  }
+
+  /**
+   * Apply a visit to the current thrower and advance the match
+   */
+  private apply(input: VisitInput): ThrowResult {
+    if (this.state.isComplete) {
+      return {
+        success: false,
+        newScore: this.getCurrentPlayer().score,
+        isBust: false,
+        isLegWon: false,
+        isSetWon: false,
+        isMatchWon: false,
+        message: 'Match is already complete.'
+      };
+    }
+
+    const playerIndex = this.state.currentPlayerIndex;
+    const player = this.state.players[playerIndex];
+    const { player: updated, result } = input.kind === 'darts'
+      ? this.engine.applyVisit(player, input.darts)
+      : this.engine.applyThrow(player, input.score);
+
+    if (!result.success) return result;
+
+    this.visits.push({
+      playerIndex,
+      setNumber: this.state.setNumber,
+      legNumber: this.state.legNumber,
+      input,
+      result
+    });
+    this.state = this.advance(playerIndex, updated, result);
+    return result;
+  }
+
+  /**
+   * Work out the next state after a committed visit
+   */
+  private advance(
+    playerIndex: number,
+    updated: PlayerState,
+    result: ThrowResult
+  ): MatchControllerState {
+    const players = this.state.players.map((p, i) => (i === playerIndex ? updated : p));
+
+    if (result.isMatchWon) {
+      return {
+        ...this.state,
+        players,
+        isComplete: true,
+        winnerIndex: playerIndex,
+        lastResult: result
+      };
+    }
+
+    if (result.isSetWon) {
+      // New set: the next player in order starts it
+      const setNumber = this.state.setNumber + 1;
+      const setStarterIndex = this.starterFor(setNumber, 1);
+      return {
+        ...this.state,
+        players: players.map(p => this.engine.resetForNewSet(p)),
+        setNumber,
+        legNumber: 1,
+        setStarterIndex,
+        legStarterIndex: setStarterIndex,
+        currentPlayerIndex: setStarterIndex,
+        lastResult: result
+      };
+    }
+
+    if (result.isLegWon) {
+      // New leg: starter alternates within the set
+      const legNumber = this.state.legNumber + 1;
+      const legStarterIndex = this.starterFor(this.state.setNumber, legNumber);
+      return {
+        ...this.state,
+        players: players.map(p => this.engine.resetForNewLeg(p)),
+        legNumber,
+        legStarterIndex,
+        currentPlayerIndex: legStarterIndex,
+        lastResult: result
+      };
+    }
+
+    // Scored or bust - the visit is over either way
+    return {
+      ...this.state,
+      players,
+      currentPlayerIndex: (playerIndex + 1) % this.players.length,
+      lastResult: result
+    };
+  }
+
+  // ==================== UNDO / REDO ====================
+
+  canUndo(): boolean {
+    return this.visits.length > 0;
+  }
+
+  canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  /**
+   * Take back the last committed visit
+   */
+  undo(): boolean {
+    const last = this.visits[this.visits.length - 1];
+    if (!last) return false;
+
+    this.redoStack.push(last.input);
+    this.replay(this.visits.slice(0, -1).map(v => v.input));
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Re-apply the last undone visit
+   */
+  redo(): boolean {
+    const input = this.redoStack.pop();
+    if (!input) return false;
+
+    const { success } = this.apply(input);
+    if (!success) {
+      // Keep it for later rather than losing the redo history
+      this.redoStack.push(input);
+      return false;
+    }
+
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Rebuild state from the start of the match
+   * Throws if a visit no longer applies (e.g. a corrupt snapshot)
+   */
+  private replay(inputs: readonly VisitInput[]): void {
+    this.state = this.initialState();
+    this.visits = [];
+    inputs.forEach((input, i) => {
+      const result = this.apply(input);
+      if (!result.success) throw new Error(`Visit ${i + 1} can't be replayed: ${result.message}`);
+    });
+  }
+
+  /**
+   * Start the match again with the same players
+   * Pass a thrower to change who starts (e.g. the loser on a rematch)
+   */
+  reset(firstThrowerIndex = this.firstThrowerIndex): void {
+    this.firstThrowerIndex = this.normalizeIndex(firstThrowerIndex);
+    this.redoStack = [];
+    this.replay([]);
+    this.notify();
+  }
+
+  // ==================== STATE ====================
+
+  getState(): MatchControllerState {
+    return { ...this.state, players: [...this.state.players] };
+  }
+
+  getCurrentPlayer(): PlayerState {
+    return this.state.players[this.state.currentPlayerIndex];
+  }
+
+  getVisits(): readonly MatchVisit[] {
+    return [...this.visits];
+  }
+
+  getEngine(): DartsScoringEngine {
+    return this.engine;
+  }
+
+  /**
+   * Serialisable snapshot of the match (config, players and visit stacks)
+   */
+  getSnapshot(): MatchSnapshot {
+    return {
+      version: 1,
+      config: { ...this.config },
+      players: this.players.map(p => ({ ...p })),
+      firstThrowerIndex: this.firstThrowerIndex,
+      visits: this.visits.map(v => v.input),
+      redo: [...this.redoStack]
+    };
+  }
+
+  /**
+   * Set callback for state changes (visits, undo, redo, reset)
+   */
+  onChange(callback: (state: MatchControllerState) => void): void {
+    this.onChangeCallback = callback;
+  }
+
+  private notify(): void {
+    this.onChangeCallback?.(this.getState());
+  }
+
+  // ==================== HELPERS ====================
+
+  private initialState(): MatchControllerState {
+    return {
+      players: this.players.map(p => this.engine.createPlayerState(p.name, p.id)),
+      currentPlayerIndex: this.firstThrowerIndex,
+      legStarterIndex: this.firstThrowerIndex,
+      setStarterIndex: this.firstThrowerIndex,
+      setNumber: 1,
+      legNumber: 1,
+      isComplete: false,
+      winnerIndex: null,
+      lastResult: null
+    };
+  }
+
+  /**
+   * Starter rotates one place per set, then one place per leg within the set
+   */
+  private starterFor(setNumber: number, legNumber: number): number {
+    return (this.firstThrowerIndex + setNumber - 1 + legNumber - 1) % this.players.length;
+  }
+
+  private normalizeIndex(index: number): number {
+    const count = this.players.length;
+    return ((Math.trunc(index) % count) + count) % count;
+  }
+}
+
+export default MatchController;
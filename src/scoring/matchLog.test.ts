@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { MatchLog, type MatchEvent } from './matchLog';
+
+const newLog = () => MatchLog.create(
+  { startingScore: 101, matchType: 'first_to', targetLegs: 2 },
+  [{ name: 'A' }, { name: 'B' }]
+);
+
+// A: 61, B: 20, A: 40 (leg), B: 100 (bust on 1)
+const playedLog = () => {
+  const log = newLog();
+  [61, 20, 40, 100].forEach(score => log.recordScore(score));
+  return log;
+};
+
+const roundTrip = (events: readonly MatchEvent[]): MatchEvent[] => JSON.parse(JSON.stringify(events));
+
+describe('MatchLog', () => {
+  it('logs visits, busts and derived leg wins with gapless seqs', () => {
+    const events = playedLog().getEvents();
+
+    expect(events.map(e => e.type)).toEqual(['match_created', 'visit', 'visit', 'visit', 'leg_won', 'bust']);
+    expect(events.map(e => e.seq)).toEqual([1, 2, 3, 4, 5, 6]);
+  });
+
+  it('replays its events to the same state', () => {
+    const log = playedLog();
+    const replayed = MatchLog.fromEvents(roundTrip(log.getEvents()));
+
+    expect(replayed.getState()).toEqual(log.getState());
+    expect(replayed.getEvents()).toEqual(log.getEvents());
+  });
+
+  it('replays up to a seq', () => {
+    const state = MatchLog.fromEvents(playedLog().getEvents(), 3).getState();
+
+    expect(state.players.map(p => p.score)).toEqual([40, 81]);
+    expect(state.players[0].legs).toBe(0);
+  });
+
+  it('rejects logs without a start or with gaps', () => {
+    const events = playedLog().getEvents();
+
+    expect(() => MatchLog.fromEvents(events.slice(1))).toThrow('match_created');
+    expect(() => MatchLog.fromEvents(events.filter(e => e.seq !== 3))).toThrow('gap before seq 4');
+  });
+
+  it('rejects a log that diverges from its replay', () => {
+    const tampered = roundTrip(playedLog().getEvents()).map(e =>
+      e.type === 'visit' && e.seq === 2 ? { ...e, remaining: 30 } : e
+    );
+    const missingLegWon = roundTrip(playedLog().getEvents()).filter(e => e.type !== 'leg_won');
+
+    expect(() => MatchLog.fromEvents(tampered)).toThrow('diverges at event 2');
+    expect(() => MatchLog.fromEvents(missingLegWon.map((e, i) => ({ ...e, seq: i + 1 })))).toThrow();
+  });
+
+  it('logs an undo and replays it', () => {
+    const log = newLog();
+    log.recordScore(60);
+    log.recordScore(45);
+
+    expect(log.undo()).toBe(true);
+    const undo = log.getEvents()[3];
+    expect(undo).toMatchObject({ type: 'undo', undoneSeq: 3 });
+
+    const replayed = MatchLog.fromEvents(roundTrip(log.getEvents()));
+    expect(replayed.getState().players.map(p => p.score)).toEqual([41, 101]);
+    expect(replayed.getState().currentPlayerIndex).toBe(1);
+  });
+
+  it('rejects an undo with nothing to take back', () => {
+    const events = roundTrip(newLog().getEvents());
+    events.push({ seq: 2, at: events[0].at, type: 'undo', undoneSeq: 1 });
+
+    expect(() => MatchLog.fromEvents(events)).toThrow('nothing to undo');
+  });
+
+  it('ends the match on a forfeit and stops recording', () => {
+    const log = newLog();
+    log.recordScore(60);
+
+    expect(log.forfeit(1, 'left')).toBe(true);
+    expect(log.getState()).toMatchObject({ isComplete: true, winnerIndex: 0, forfeitedBy: 1 });
+    expect(log.recordScore(41).success).toBe(false);
+    expect(log.undo()).toBe(false);
+    expect(log.forfeit(0)).toBe(false);
+
+    expect(MatchLog.fromEvents(roundTrip(log.getEvents())).getState().forfeitedBy).toBe(1);
+  });
+});
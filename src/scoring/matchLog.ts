@@ -0,0 +1,397 @@
+/**
+ * Match Log
+ * Event-sourced record of a match: an append-only list of typed events
+ * Replaying the log through the engine rebuilds the exact state at any event
+ *
+ * Input events (visit, bust, undo, forfeit) drive the replay.
+ * Derived events (leg_won, set_won) are re-generated and must match
+ * what was recorded, so a tampered or diverging log is rejected.
+ */
+
+import type { MatchConfig } from '../types';
+import type { ThrowResult } from './scoringEngine';
+import type { Dart } from './dartModel';
+import {
+  MatchController,
+  type MatchPlayer,
+  type VisitInput,
+  type MatchControllerState
+} from './matchController';
+
+// ==================== TYPES ====================
+
+export type MatchEventType =
+  | 'match_created'
+  | 'visit'
+  | 'bust'
+  | 'leg_won'
+  | 'set_won'
+  | 'undo'
+  | 'forfeit';
+
+interface MatchEventBase {
+  seq: number;                   // 1-based, gapless
+  at: string;                    // ISO timestamp (not used by replay)
+}
+
+export interface MatchCreatedEvent extends MatchEventBase {
+  type: 'match_created';
+  config: MatchConfig;
+  players: MatchPlayer[];
+  firstThrowerIndex: number;
+}
+
+export interface VisitEvent extends MatchEventBase {
+  type: 'visit';
+  playerIndex: number;
+  input: VisitInput;
+  scored: number;
+  remaining: number;
+}
+
+export interface BustEvent extends MatchEventBase {
+  type: 'bust';
+  playerIndex: number;
+  input: VisitInput;
+  remaining: number;
+}
+
+export interface LegWonEvent extends MatchEventBase {
+  type: 'leg_won';
+  playerIndex: number;
+  setNumber: number;
+  legNumber: number;
+  checkout: number;
+  dartsThrown: number;
+  isMatchWon: boolean;
+}
+
+export interface SetWonEvent extends MatchEventBase {
+  type: 'set_won';
+  playerIndex: number;
+  setNumber: number;
+  isMatchWon: boolean;
+}
+
+export interface UndoEvent extends MatchEventBase {
+  type: 'undo';
+  undoneSeq: number;             // seq of the visit/bust taken back
+}
+
+export interface ForfeitEvent extends MatchEventBase {
+  type: 'forfeit';
+  playerIndex: number;
+  reason?: string;
+}
+
+export type MatchEvent =
+  | MatchCreatedEvent
+  | VisitEvent
+  | BustEvent
+  | LegWonEvent
+  | SetWonEvent
+  | UndoEvent
+  | ForfeitEvent;
+
+export interface MatchLogState extends MatchControllerState {
+  forfeitedBy: number | null;
+}
+
+/**
+ * Read-only view of the log's controller - visits are recorded through the log
+ */
+export type MatchControllerView = Pick<
+  MatchController,
+  'getState' | 'getCurrentPlayer' | 'getVisits' | 'getEngine' | 'getSnapshot' | 'canUndo' | 'canRedo'
+>;
+
+// ==================== MATCH LOG ====================
+
+export class MatchLog {
+  private readonly controller: MatchController;
+  private events: MatchEvent[] = [];
+  private visitSeqs: number[] = [];          // seq of each live visit/bust, parallel to controller visits
+  private forfeitEvent: ForfeitEvent | null = null;
+
+  private constructor(created: MatchCreatedEvent) {
+    this.controller = new MatchController(created.config, created.players, {
+      firstThrowerIndex: created.firstThrowerIndex
+    });
+    this.events.push(created);
+  }
+
+  /**
+   * Start a new match log
+   */
+  static create(
+    config: MatchConfig,
+    players: readonly MatchPlayer[],
+    firstThrowerIndex = 0
+  ): MatchLog {
+    return new MatchLog({
+      seq: 1,
+      at: new Date().toISOString(),
+      type: 'match_created',
+      config: { ...config },
+      players: players.map(p => ({ ...p })),
+      firstThrowerIndex
+    });
+  }
+
+  /**
+   * Rebuild a match from its events, optionally stopping at a given seq
+   * Throws if the log is malformed or doesn't replay to the same events
+   */
+  static fromEvents(events: readonly MatchEvent[], uptoSeq = Infinity): MatchLog {
+    const recorded = [...events]
+      .sort((a, b) => a.seq - b.seq)
+      .filter(e => e.seq <= uptoSeq);
+
+    const [created, ...rest] = recorded;
+    if (!created || created.type !== 'match_created' || created.seq !== 1) {
+      throw new Error('Match log must start with match_created');
+    }
+
+    const gap = recorded.findIndex((e, i) => e.seq !== i + 1);
+    if (gap !== -1) {
+      throw new Error(`Match log has a gap before seq ${recorded[gap].seq}`);
+    }
+
+    const log = new MatchLog(created);
+
+    for (const event of rest) {
+      switch (event.type) {
+        case 'visit':
+        case 'bust': {
+          const result = log.enter(event.input, event.at);
+          if (!result.success) {
+            throw new Error(`Event ${event.seq} is not a legal visit: ${result.message}`);
+          }
+          break;
+        }
+        case 'undo':
+          if (!log.undo(event.at)) {
+            throw new Error(`Event ${event.seq}: nothing to undo`);
+          }
+          break;
+        case 'forfeit':
+          if (!log.forfeit(event.playerIndex, event.reason, event.at)) {
+            throw new Error(`Event ${event.seq}: match is already complete`);
+          }
+          break;
+        case 'leg_won':
+        case 'set_won':
+          // Derived - checked against the regenerated events below
+          break;
+        default:
+          throw new Error(`Event ${event.seq}: unexpected ${event.type}`);
+      }
+
+      // A prefix cut mid-visit leaves derived events past the cut; ignore those
+      const regenerated = log.events.find(e => e.seq === event.seq);
+      if (!regenerated || !sameEvent(regenerated, event)) {
+        throw new Error(`Match log diverges at event ${event.seq} (${event.type})`);
+      }
+    }
+
+    if (log.events.length > recorded.length && uptoSeq === Infinity) {
+      throw new Error(`Match log is missing derived events after seq ${recorded.length}`);
+    }
+    // Keep the recorded events (original timestamps)
+    log.events = recorded.map(e => ({ ...e }));
+
+    return log;
+  }
+
+  // ==================== RECORDING ====================
+
+  /**
+   * Record a 3-dart total for the player to throw
+   */
+  recordScore(score: number): ThrowResult {
+    return this.enter({ kind: 'total', score });
+  }
+
+  /**
+   * Record a visit dart by dart for the player to throw
+   */
+  recordDarts(darts: readonly Dart[]): ThrowResult {
+    return this.enter({ kind: 'darts', darts: [...darts] });
+  }
+
+  private enter(input: VisitInput, at?: string): ThrowResult {
+    const before = this.controller.getState();
+    const playerIndex = before.currentPlayerIndex;
+    const player = before.players[playerIndex];
+
+    if (this.forfeitEvent) {
+      return {
+        success: false,
+        newScore: player.score,
+        isBust: false,
+        isLegWon: false,
+        isSetWon: false,
+        isMatchWon: false,
+        message: 'Match was forfeited.'
+      };
+    }
+
+    const result = input.kind === 'darts'
+      ? this.controller.throwDarts(input.darts)
+      : this.controller.throwScore(input.score);
+
+    if (!result.success) return result;
+
+    // Derived events share the visit's timestamp
+    at = at ?? new Date().toISOString();
+    this.logVisit(before, input, result, at);
+    this.visitSeqs.push(this.events[this.events.length - 1].seq);
+
+    if (result.isLegWon) {
+      this.push<LegWonEvent>({
+        type: 'leg_won',
+        playerIndex,
+        setNumber: before.setNumber,
+        legNumber: before.legNumber,
+        checkout: player.score,
+        dartsThrown: player.dartsThrown + (result.dartsUsed ?? 3),
+        isMatchWon: result.isMatchWon
+      }, at);
+    }
+
+    if (result.isSetWon) {
+      this.push<SetWonEvent>({
+        type: 'set_won',
+        playerIndex,
+        setNumber: before.setNumber,
+        isMatchWon: result.isMatchWon
+      }, at);
+    }
+
+    return result;
+  }
+
+  private logVisit(
+    before: MatchControllerState,
+    input: VisitInput,
+    result: ThrowResult,
+    at?: string
+  ): void {
+    const playerIndex = before.currentPlayerIndex;
+
+    if (result.isBust) {
+      this.push<BustEvent>({ type: 'bust', playerIndex, input, remaining: result.newScore }, at);
+      return;
+    }
+
+    this.push<VisitEvent>({
+      type: 'visit',
+      playerIndex,
+      input,
+      scored: before.players[playerIndex].score - result.newScore,
+      remaining: result.newScore
+    }, at);
+  }
+
+  /**
+   * Take back the last visit (logged - nothing is ever removed)
+   */
+  undo(at?: string): boolean {
+    if (this.forfeitEvent) return false;
+
+    const undoneSeq = this.visitSeqs[this.visitSeqs.length - 1];
+    if (undoneSeq === undefined || !this.controller.undo()) return false;
+
+    this.visitSeqs.pop();
+    this.push<UndoEvent>({ type: 'undo', undoneSeq }, at);
+    return true;
+  }
+
+  /**
+   * Record a forfeit - ends the match
+   * With two players the opponent is the winner
+   */
+  forfeit(playerIndex: number, reason?: string, at?: string): boolean {
+    const state = this.controller.getState();
+    if (this.forfeitEvent || state.isComplete) return false;
+    if (playerIndex < 0 || playerIndex >= state.players.length) return false;
+
+    this.forfeitEvent = this.push<ForfeitEvent>({ type: 'forfeit', playerIndex, reason }, at);
+    return true;
+  }
+
+  private push<E extends MatchEvent>(event: Omit<E, 'seq' | 'at'>, at?: string): E {
+    const full = {
+      ...event,
+      seq: this.events.length + 1,
+      at: at ?? new Date().toISOString()
+    } as E;
+    this.events.push(full);
+    return full;
+  }
+
+  // ==================== STATE ====================
+
+  getState(): MatchLogState {
+    const state = this.controller.getState();
+    if (!this.forfeitEvent) {
+      return { ...state, forfeitedBy: null };
+    }
+
+    const { playerIndex } = this.forfeitEvent;
+    return {
+      ...state,
+      isComplete: true,
+      winnerIndex: state.players.length === 2 ? 1 - playerIndex : null,
+      forfeitedBy: playerIndex
+    };
+  }
+
+  getEvents(): readonly MatchEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Events after a given seq (e.g. to persist only what's new)
+   */
+  getEventsSince(seq: number): MatchEvent[] {
+    return this.events.filter(e => e.seq > seq);
+  }
+
+  getLastSeq(): number {
+    return this.events.length;
+  }
+
+  getCreatedEvent(): MatchCreatedEvent {
+    return this.events[0] as MatchCreatedEvent;
+  }
+
+  getController(): MatchControllerView {
+    return this.controller;
+  }
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+
+/**
+ * Compare events ignoring key order and timestamps
+ * (logs round-trip through JSONB and timestamptz)
+ */
+function sameEvent(a: MatchEvent, b: MatchEvent): boolean {
+  return canonicalJson({ ...a, at: undefined }) === canonicalJson({ ...b, at: undefined });
+}
+
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+export default MatchLog;
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vitest';
+import { BULLSEYE, MISS, SINGLE_BULL, createDart } from './dartModel';
+import {
+  AroundTheClockGame,
+  BobsTwentySevenGame,
+  CatchFortyGame,
+  CheckoutLadderGame,
+  type CheckoutLadderState,
+  isPracticeBest
+} from './practiceGames';
+
+const S = (segment: number) => createDart(segment, 1);
+const D = (segment: number) => createDart(segment, 2);
+const T = (segment: number) => createDart(segment, 3);
+
+describe('checkout visits', () => {
+  const game = new CheckoutLadderGame();
+
+  it('needs every dart unless the visit checks out or busts', () => {
+    const result = game.applyVisit(game.createState(), [T(20)]);
+    expect(result.success).toBe(false);
+  });
+
+  it('ends the visit on the dart that busts', () => {
+    const state = game.createState();
+    expect(game.applyVisit(state, [T(20), T(20), MISS]).success).toBe(false);
+
+    const bust = game.applyVisit(state, [T(20), T(20)]);
+    expect(bust.success).toBe(true);
+    expect(bust.state.remaining).toBe(121);
+    expect(bust.state.dartsAtTarget).toBe(2);
+  });
+
+  it('busts a checkout that does not finish on a double', () => {
+    const state: CheckoutLadderState = { ...game.createState(), remaining: 20 };
+    const result = game.applyVisit(state, [S(20)]);
+    expect(result.success).toBe(true);
+    expect(result.state.remaining).toBe(20);
+  });
+
+  it('limits the visit to the darts left at the target', () => {
+    let state = game.createState();
+    for (let i = 0; i < 4; i++) state = game.applyVisit(state, [T(20), T(20)]).state;
+
+    expect(state.dartsAtTarget).toBe(8);
+    expect(game.applyVisit(state, [S(1), S(1), S(1)]).success).toBe(false);
+    expect(game.applyVisit(state, [S(1)]).success).toBe(true);
+  });
+});
+
+describe("Bob's 27", () => {
+  const game = new BobsTwentySevenGame();
+
+  it('adds each hit on the double and takes it away for a blank round', () => {
+    const hit = game.applyVisit(game.createState(), [D(1), D(1), MISS]);
+    expect(hit.scored).toBe(4);
+    expect(hit.state.score).toBe(31);
+
+    const blank = game.applyVisit(hit.state, [MISS, MISS, MISS]);
+    expect(blank.scored).toBe(-4);
+    expect(blank.state.score).toBe(27);
+  });
+
+  it('ends when the score drops to zero', () => {
+    const state = { ...game.createState(), score: 2 };
+    const result = game.applyVisit(state, [MISS, MISS, MISS]);
+    expect(result.state.score).toBe(0);
+    expect(result.state.isComplete).toBe(true);
+  });
+
+  it('finishes on the bull round', () => {
+    const state = { ...game.createState(), round: 21, score: 100 };
+    expect(game.getTargetLabel(state)).toBe('Bull');
+
+    const result = game.applyVisit(state, [BULLSEYE, SINGLE_BULL, MISS]);
+    expect(result.scored).toBe(50);
+    expect(result.state.isComplete).toBe(true);
+    expect(game.applyVisit(result.state, [MISS, MISS, MISS]).success).toBe(false);
+  });
+});
+
+describe('checkout ladder', () => {
+  const game = new CheckoutLadderGame({ targets: 3 });
+
+  it('climbs a rung on a checkout and drops one on a miss', () => {
+    const up = game.applyVisit(game.createState(), [T(20), T(17), D(5)]);
+    expect(up.state.target).toBe(122);
+    expect(up.state.highestCheckout).toBe(121);
+
+    let state = up.state;
+    for (let i = 0; i < 3; i++) state = game.applyVisit(state, [MISS, MISS, MISS]).state;
+    expect(state.target).toBe(121);
+    expect(state.round).toBe(3);
+  });
+
+  it('never drops below the start', () => {
+    let state = game.createState();
+    for (let i = 0; i < 3; i++) state = game.applyVisit(state, [MISS, MISS, MISS]).state;
+    expect(state.target).toBe(121);
+  });
+
+  it('ends after the number of targets', () => {
+    let state = game.createState();
+    for (let i = 0; i < 9; i++) state = game.applyVisit(state, [MISS, MISS, MISS]).state;
+    expect(state.isComplete).toBe(true);
+  });
+});
+
+describe('Catch 40', () => {
+  const game = new CatchFortyGame();
+
+  it('scores by the darts used to check out', () => {
+    const twoDarts = game.applyVisit(game.createState(), [SINGLE_BULL, D(18)]);
+    expect(twoDarts.scored).toBe(3);
+    expect(twoDarts.state.target).toBe(62);
+
+    const threeDarts = game.applyVisit(game.createState(), [S(1), S(20), D(20)]);
+    expect(threeDarts.scored).toBe(2);
+
+    const first = game.applyVisit(game.createState(), [S(1), S(20), S(20)]);
+    const fourDarts = game.applyVisit(first.state, [D(10)]);
+    expect(fourDarts.scored).toBe(1);
+    expect(fourDarts.state.score).toBe(1);
+  });
+
+  it('moves on with nothing after six darts', () => {
+    let state = game.createState();
+    state = game.applyVisit(state, [MISS, MISS, MISS]).state;
+    const result = game.applyVisit(state, [MISS, MISS, MISS]);
+    expect(result.scored).toBe(0);
+    expect(result.state.target).toBe(62);
+    expect(result.state.remaining).toBe(62);
+  });
+});
+
+describe('isPracticeBest', () => {
+  it('compares in the direction the game ranks', () => {
+    const clock = new AroundTheClockGame();
+    expect(isPracticeBest(clock, 30, 40)).toBe(true);
+    expect(isPracticeBest(clock, 40, 30)).toBe(false);
+    expect(isPracticeBest(clock, 30, 30)).toBe(false);
+
+    const bobs = new BobsTwentySevenGame();
+    expect(isPracticeBest(bobs, 40, 30)).toBe(true);
+    expect(isPracticeBest(bobs, 30, 40)).toBe(false);
+  });
+
+  it('treats the first result as a best', () => {
+    expect(isPracticeBest(new BobsTwentySevenGame(), 0, null)).toBe(true);
+    expect(isPracticeBest(new AroundTheClockGame(), 99, undefined)).toBe(true);
+  });
+});
@@ -0,0 +1,555 @@
+/**
+ * Practice Games
+ * Pluggable single-player training games, entered dart by dart
+ * Built in: Around the Clock, Bob's 27, Shanghai, 121 checkout ladder, Catch 40
+ *
+ * Games are stateless: each holds its rules and works on immutable state
+ * objects, so one registered instance serves every session.
+ */
+
+import {
+  type Dart,
+  BULL_SEGMENT,
+  DARTS_PER_VISIT,
+  isValidDart,
+  getDartScore,
+  formatDart,
+  isRuleDart
+} from './dartModel';
+
+// ==================== TYPES ====================
+
+export interface PracticeVisit {
+  round: number;
+  target: string;
+  darts: Dart[];
+  scored: number;
+}
+
+export interface PracticeState {
+  gameId: string;
+  round: number;                 // 1-based
+  score: number;
+  dartsThrown: number;
+  visits: number;
+  isComplete: boolean;
+  history: PracticeVisit[];
+}
+
+export interface PracticeVisitResult<S extends PracticeState = PracticeState> {
+  success: boolean;
+  state: S;
+  scored: number;
+  message?: string;
+}
+
+/**
+ * A practice game - implement and register to add a new one
+ */
+export interface PracticeGame<S extends PracticeState = PracticeState> {
+  readonly id: string;
+  readonly name: string;
+  readonly description: string;
+  readonly resultLabel: string;            // What getResult measures, e.g. 'Darts', 'Points'
+  readonly lowerIsBetter: boolean;
+  createState(): S;
+  applyVisit(state: S, darts: readonly Dart[]): PracticeVisitResult<S>;
+  getTargetLabel(state: S): string;
+  getResult(state: S): number;             // Value compared for personal bests
+}
+
+// ==================== HELPERS ====================
+
+const targetLabel = (segment: number, prefix = ''): string =>
+  segment === BULL_SEGMENT ? 'Bull' : `${prefix}${segment}`;
+
+function invalid<S extends PracticeState>(state: S, message: string): PracticeVisitResult<S> {
+  return { success: false, state, scored: 0, message };
+}
+
+/**
+ * Shared visit checks: 1-3 valid darts, game not over
+ */
+function checkVisit(state: PracticeState, darts: readonly Dart[]): string | null {
+  if (state.isComplete) return 'Game is over.';
+  if (darts.length === 0 || darts.length > DARTS_PER_VISIT) {
+    return `A visit has 1 to ${DARTS_PER_VISIT} darts.`;
+  }
+  const bad = darts.findIndex(d => !isValidDart(d));
+  return bad === -1 ? null : `Invalid dart ${bad + 1}.`;
+}
+
+function recordVisit(
+  state: PracticeState,
+  target: string,
+  darts: readonly Dart[],
+  scored: number
+): Pick<PracticeState, 'dartsThrown' | 'visits' | 'history'> {
+  return {
+    dartsThrown: state.dartsThrown + darts.length,
+    visits: state.visits + 1,
+    history: [...state.history, { round: state.round, target, darts: [...darts], scored }]
+  };
+}
+
+function baseState(gameId: string, score = 0): PracticeState {
+  return { gameId, round: 1, score, dartsThrown: 0, visits: 0, isComplete: false, history: [] };
+}
+
+/**
+ * Play a double-out visit against a remaining score
+ * The visit ends at the dart that checks out or busts,
+ * otherwise it uses every dart available (3, or fewer at the end of an attempt)
+ */
+function playCheckoutVisit(
+  remaining: number,
+  darts: readonly Dart[],
+  dartsAvailable: number
+): { remaining: number; dartsUsed: number; checkedOut: boolean; bust: boolean } | string {
+  if (darts.length > dartsAvailable) {
+    return `Only ${dartsAvailable} darts left at this target.`;
+  }
+
+  let left = remaining;
+
+  for (let i = 0; i < darts.length; i++) {
+    left -= getDartScore(darts[i]);
+    const isLast = i === darts.length - 1;
+    const checkedOut = left === 0 && isRuleDart(darts[i], 'double');
+    const bust = !checkedOut && (left <= 1);
+
+    if (checkedOut || bust) {
+      if (!isLast) return `Visit ends on dart ${i + 1} (${checkedOut ? 'checkout' : 'bust'}).`;
+      return { remaining: bust ? remaining : 0, dartsUsed: i + 1, checkedOut, bust };
+    }
+  }
+
+  const needed = Math.min(DARTS_PER_VISIT, dartsAvailable);
+  if (darts.length < needed) {
+    return `A visit needs ${needed} darts unless it checks out or busts.`;
+  }
+  return { remaining: left, dartsUsed: darts.length, checkedOut: false, bust: false };
+}
+
+// ==================== AROUND THE CLOCK ====================
+
+export interface AroundTheClockOptions {
+  ring?: 'any' | 'double';                 // Default: any part of the number
+}
+
+export interface AroundTheClockState extends PracticeState {
+  targetIndex: number;                     // Index into 1-20 then bull
+}
+
+const CLOCK_TARGETS: readonly number[] = Object.freeze([
+  ...Array.from({ length: 20 }, (_, i) => i + 1),
+  BULL_SEGMENT
+]);
+
+/**
+ * Hit 1 to 20 in order, then the bull, in as few darts as possible
+ */
+export class AroundTheClockGame implements PracticeGame<AroundTheClockState> {
+  readonly id = 'around_the_clock';
+  readonly name = 'Around the Clock';
+  readonly description = 'Hit 1 to 20 in order, then the bull. Fewest darts wins.';
+  readonly resultLabel = 'Darts';
+  readonly lowerIsBetter = true;
+  private readonly ring: 'any' | 'double';
+
+  constructor(options: AroundTheClockOptions = {}) {
+    this.ring = options.ring ?? 'any';
+  }
+
+  createState(): AroundTheClockState {
+    return { ...baseState(this.id), targetIndex: 0 };
+  }
+
+  applyVisit(state: AroundTheClockState, darts: readonly Dart[]): PracticeVisitResult<AroundTheClockState> {
+    const error = checkVisit(state, darts);
+    if (error) return invalid(state, error);
+
+    let targetIndex = state.targetIndex;
+    for (let i = 0; i < darts.length; i++) {
+      const dart = darts[i];
+      const hit = dart.segment === CLOCK_TARGETS[targetIndex] &&
+        (this.ring === 'any' ? dart.multiplier > 0 : isRuleDart(dart, 'double'));
+      if (hit) targetIndex++;
+
+      if (targetIndex === CLOCK_TARGETS.length && i < darts.length - 1) {
+        return invalid(state, `Finished on dart ${i + 1}.`);
+      }
+    }
+
+    const isComplete = targetIndex === CLOCK_TARGETS.length;
+    if (!isComplete && darts.length < DARTS_PER_VISIT) {
+      return invalid(state, `A visit needs ${DARTS_PER_VISIT} darts unless it finishes.`);
+    }
+
+    const scored = targetIndex - state.targetIndex;
+    return {
+      success: true,
+      scored,
+      state: {
+        ...state,
+        ...recordVisit(state, this.getTargetLabel(state), darts, scored),
+        round: state.round + 1,
+        targetIndex,
+        score: targetIndex,
+        isComplete
+      }
+    };
+  }
+
+  getTargetLabel(state: AroundTheClockState): string {
+    const target = CLOCK_TARGETS[Math.min(state.targetIndex, CLOCK_TARGETS.length - 1)];
+    return targetLabel(target, this.ring === 'double' ? 'D' : '');
+  }
+
+  getResult(state: AroundTheClockState): number {
+    return state.dartsThrown;
+  }
+}
+
+// ==================== BOB'S 27 ====================
+
+const BOBS_27_ROUNDS = 21;                 // D1-D20 then bull
+
+/**
+ * Start on 27; each round throw 3 darts at a double.
+ * Hits add the double's value, a blank round takes it away.
+ * Game over after the bull, or when the score drops to zero or below.
+ */
+export class BobsTwentySevenGame implements PracticeGame {
+  readonly id = 'bobs_27';
+  readonly name = "Bob's 27";
+  readonly description = 'Doubles 1-20 and bull. Hits add the double, a blank round subtracts it.';
+  readonly resultLabel = 'Points';
+  readonly lowerIsBetter = false;
+
+  createState(): PracticeState {
+    return baseState(this.id, 27);
+  }
+
+  applyVisit(state: PracticeState, darts: readonly Dart[]): PracticeVisitResult {
+    const error = checkVisit(state, darts);
+    if (error) return invalid(state, error);
+    if (darts.length !== DARTS_PER_VISIT) {
+      return invalid(state, `Each round is ${DARTS_PER_VISIT} darts.`);
+    }
+
+    const target = this.getTarget(state.round);
+    const value = target * 2;
+    const hits = darts.filter(d => d.segment === target && d.multiplier === 2).length;
+    const scored = hits > 0 ? hits * value : -value;
+    const score = state.score + scored;
+
+    return {
+      success: true,
+      scored,
+      state: {
+        ...state,
+        ...recordVisit(state, this.getTargetLabel(state), darts, scored),
+        round: state.round + 1,
+        score,
+        isComplete: score <= 0 || state.round === BOBS_27_ROUNDS
+      }
+    };
+  }
+
+  private getTarget(round: number): number {
+    return round >= BOBS_27_ROUNDS ? BULL_SEGMENT : round;
+  }
+
+  getTargetLabel(state: PracticeState): string {
+    return targetLabel(this.getTarget(Math.min(state.round, BOBS_27_ROUNDS)), 'D');
+  }
+
+  getResult(state: PracticeState): number {
+    return state.score;
+  }
+}
+
+// ==================== SHANGHAI ====================
+
+export interface ShanghaiOptions {
+  rounds?: number;                         // Default: 7 (1-7); up to 20
+}
+
+export interface ShanghaiState extends PracticeState {
+  shanghai: boolean;                       // Single, double and treble of the target in one round
+}
+
+/**
+ * Round N targets number N; only that number scores.
+ * A Shanghai (single, double and treble in one round) ends the game.
+ */
+export class ShanghaiGame implements PracticeGame<ShanghaiState> {
+  readonly id = 'shanghai';
+  readonly name = 'Shanghai';
+  readonly description = 'Round N scores only on number N. Single, double and treble in one round is a Shanghai.';
+  readonly resultLabel = 'Points';
+  readonly lowerIsBetter = false;
+  private readonly rounds: number;
+
+  constructor(options: ShanghaiOptions = {}) {
+    this.rounds = Math.min(Math.max(options.rounds ?? 7, 1), 20);
+  }
+
+  createState(): ShanghaiState {
+    return { ...baseState(this.id), shanghai: false };
+  }
+
+  applyVisit(state: ShanghaiState, darts: readonly Dart[]): PracticeVisitResult<ShanghaiState> {
+    const error = checkVisit(state, darts);
+    if (error) return invalid(state, error);
+    if (darts.length !== DARTS_PER_VISIT) {
+      return invalid(state, `Each round is ${DARTS_PER_VISIT} darts.`);
+    }
+
+    const target = state.round;
+    const onTarget = darts.filter(d => d.segment === target);
+    const scored = onTarget.reduce((sum, d) => sum + getDartScore(d), 0);
+    const shanghai = [1, 2, 3].every(m => onTarget.some(d => d.multiplier === m));
+
+    return {
+      success: true,
+      scored,
+      state: {
+        ...state,
+        ...recordVisit(state, this.getTargetLabel(state), darts, scored),
+        round: state.round + 1,
+        score: state.score + scored,
+        shanghai,
+        isComplete: shanghai || state.round === this.rounds
+      }
+    };
+  }
+
+  getTargetLabel(state: ShanghaiState): string {
+    return String(Math.min(state.round, this.rounds));
+  }
+
+  getResult(state: ShanghaiState): number {
+    return state.score;
+  }
+}
+
+// ==================== 121 CHECKOUT LADDER ====================
+
+export interface CheckoutLadderOptions {
+  start?: number;                          // Default: 121
+  targets?: number;                        // Checkouts attempted - default: 10
+  dartsPerTarget?: number;                 // Default: 9 (3 visits)
+}
+
+export interface CheckoutLadderState extends PracticeState {
+  target: number;
+  remaining: number;
+  dartsAtTarget: number;
+  highestCheckout: number;
+}
+
+/**
+ * Check out the target in 9 darts (double out).
+ * Success moves up one, failure moves down one (never below the start).
+ */
+export class CheckoutLadderGame implements PracticeGame<CheckoutLadderState> {
+  readonly id = 'checkout_121';
+  readonly name = '121 Checkout Ladder';
+  readonly description = 'Check out 121 in 9 darts to climb to 122; miss and drop back a rung.';
+  readonly resultLabel = 'Highest checkout';
+  readonly lowerIsBetter = false;
+  private readonly start: number;
+  private readonly targets: number;
+  private readonly dartsPerTarget: number;
+
+  constructor(options: CheckoutLadderOptions = {}) {
+    this.start = options.start ?? 121;
+    this.targets = options.targets ?? 10;
+    this.dartsPerTarget = options.dartsPerTarget ?? DARTS_PER_VISIT * 3;
+  }
+
+  createState(): CheckoutLadderState {
+    return {
+      ...baseState(this.id),
+      target: this.start,
+      remaining: this.start,
+      dartsAtTarget: 0,
+      highestCheckout: 0
+    };
+  }
+
+  applyVisit(state: CheckoutLadderState, darts: readonly Dart[]): PracticeVisitResult<CheckoutLadderState> {
+    const error = checkVisit(state, darts);
+    if (error) return invalid(state, error);
+
+    const visit = playCheckoutVisit(state.remaining, darts, this.dartsPerTarget - state.dartsAtTarget);
+    if (typeof visit === 'string') return invalid(state, visit);
+
+    const dartsAtTarget = state.dartsAtTarget + visit.dartsUsed;
+    const attemptOver = visit.checkedOut || dartsAtTarget >= this.dartsPerTarget;
+    const scored = visit.checkedOut ? 1 : 0;
+    const visitState = {
+      ...state,
+      ...recordVisit(state, this.getTargetLabel(state), darts, scored),
+      score: state.score + scored
+    };
+
+    if (!attemptOver) {
+      return {
+        success: true,
+        scored,
+        state: { ...visitState, remaining: visit.remaining, dartsAtTarget }
+      };
+    }
+
+    const target = visit.checkedOut ? state.target + 1 : Math.max(this.start, state.target - 1);
+    return {
+      success: true,
+      scored,
+      state: {
+        ...visitState,
+        round: state.round + 1,
+        target,
+        remaining: target,
+        dartsAtTarget: 0,
+        highestCheckout: visit.checkedOut ? Math.max(state.highestCheckout, state.target) : state.highestCheckout,
+        isComplete: state.round === this.targets
+      }
+    };
+  }
+
+  getTargetLabel(state: CheckoutLadderState): string {
+    return `${state.target} (${state.remaining} left)`;
+  }
+
+  getResult(state: CheckoutLadderState): number {
+    return state.highestCheckout;
+  }
+}
+
+// ==================== CATCH 40 ====================
+
+const CATCH_40_FIRST = 61;
+const CATCH_40_LAST = 100;
+const CATCH_40_DARTS = 6;
+
+export interface CatchFortyState extends PracticeState {
+  target: number;
+  remaining: number;
+  dartsAtTarget: number;
+}
+
+/**
+ * Check out 61 to 100 with 6 darts each (double out).
+ * 3 points for a 2-dart finish, 2 for 3 darts, 1 for 4-6 darts.
+ */
+export class CatchFortyGame implements PracticeGame<CatchFortyState> {
+  readonly id = 'catch_40';
+  readonly name = 'Catch 40';
+  readonly description = 'Check out 61-100 with 6 darts each: 3 points in 2 darts, 2 in 3, 1 in 4-6.';
+  readonly resultLabel = 'Points';
+  readonly lowerIsBetter = false;
+
+  createState(): CatchFortyState {
+    return {
+      ...baseState(this.id),
+      target: CATCH_40_FIRST,
+      remaining: CATCH_40_FIRST,
+      dartsAtTarget: 0
+    };
+  }
+
+  applyVisit(state: CatchFortyState, darts: readonly Dart[]): PracticeVisitResult<CatchFortyState> {
+    const error = checkVisit(state, darts);
+    if (error) return invalid(state, error);
+
+    const visit = playCheckoutVisit(state.remaining, darts, CATCH_40_DARTS - state.dartsAtTarget);
+    if (typeof visit === 'string') return invalid(state, visit);
+
+    const dartsAtTarget = state.dartsAtTarget + visit.dartsUsed;
+    const scored = visit.checkedOut ? catchFortyPoints(dartsAtTarget) : 0;
+    const visitState = {
+      ...state,
+      ...recordVisit(state, this.getTargetLabel(state), darts, scored),
+      score: state.score + scored
+    };
+
+    if (!visit.checkedOut && dartsAtTarget < CATCH_40_DARTS) {
+      return {
+        success: true,
+        scored,
+        state: { ...visitState, remaining: visit.remaining, dartsAtTarget }
+      };
+    }
+
+    const target = state.target + 1;
+    return {
+      success: true,
+      scored,
+      state: {
+        ...visitState,
+        round: state.round + 1,
+        target,
+        remaining: target,
+        dartsAtTarget: 0,
+        isComplete: state.target === CATCH_40_LAST
+      }
+    };
+  }
+
+  getTargetLabel(state: CatchFortyState): string {
+    return `${state.target} (${state.remaining} left)`;
+  }
+
+  getResult(state: CatchFortyState): number {
+    return state.score;
+  }
+}
+
+function catchFortyPoints(darts: number): number {
+  if (darts <= 2) return 3;
+  if (darts === 3) return 2;
+  return 1;
+}
+
+// ==================== REGISTRY ====================
+
+const practiceGames = new Map<string, PracticeGame>();
+
+/**
+ * Register a practice game (replaces any game with the same id)
+ */
+export function registerPracticeGame(game: PracticeGame): void {
+  practiceGames.set(game.id, game);
+}
+
+export function getPracticeGame(id: string): PracticeGame | undefined {
+  return practiceGames.get(id);
+}
+
+export function getAllPracticeGames(): PracticeGame[] {
+  return Array.from(practiceGames.values());
+}
+
+/**
+ * Check a result beats a personal best
+ */
+export function isPracticeBest(game: PracticeGame, value: number, best?: number | null): boolean {
+  if (best === undefined || best === null) return true;
+  return game.lowerIsBetter ? value < best : value > best;
+}
+
+/**
+ * Describe a visit for history lists, e.g. "T20 S5 D16"
+ */
+export function formatPracticeVisit(visit: PracticeVisit): string {
+  return visit.darts.map(formatDart).join(' ');
+}
+
+registerPracticeGame(new AroundTheClockGame());
+registerPracticeGame(new BobsTwentySevenGame());
+registerPracticeGame(new ShanghaiGame());
+registerPracticeGame(new CheckoutLadderGame());
+registerPracticeGame(new CatchFortyGame());
@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest';
+import { DartsScoringEngine } from './scoringEngine';
+import { parseVisit } from './dartModel';
+
+const engine501 = () => new DartsScoringEngine({ startingScore: 501, matchType: 'first_to', targetLegs: 3 });
+const visit = (notation: string) => parseVisit(notation)!;
+
+describe('DartsScoringEngine', () => {
+  describe('total entry', () => {
+    it('subtracts a visit total', () => {
+      const engine = engine501();
+      const { player, result } = engine.applyThrow(engine.createPlayerState('A'), 140);
+
+      expect(result.success).toBe(true);
+      expect(player.score).toBe(361);
+      expect(player.history).toEqual([140]);
+      expect(player.dartHistory).toEqual([null]);
+      expect(player.stats.scores_140_plus).toBe(1);
+    });
+  });
+
+  describe('per-dart entry', () => {
+    it('scores a full visit and keeps its darts', () => {
+      const engine = engine501();
+      const { player, result } = engine.applyVisit(engine.createPlayerState('A'), visit('T20 T20 S20'));
+
+      expect(result).toMatchObject({ success: true, newScore: 361, dartsUsed: 3 });
+      expect(player.dartHistory).toEqual([visit('T20 T20 S20')]);
+      expect(player.dartsThrown).toBe(3);
+    });
+
+    it('counts only the darts used on a checkout', () => {
+      const engine = engine501();
+      const { player, result } = engine.applyVisit({ ...engine.createPlayerState('A'), score: 40 }, visit('D20'));
+
+      expect(result).toMatchObject({ isLegWon: true, dartsUsed: 1, checkoutDart: visit('D20')[0] });
+      expect(player.legs).toBe(1);
+    });
+
+    it('rejects partial visits and darts after the visit ended', () => {
+      const engine = engine501();
+      const player = { ...engine.createPlayerState('A'), score: 40 };
+
+      expect(engine.processVisit(player, visit('S20')).success).toBe(false);
+      expect(engine.processVisit(player, visit('D20 S1')).success).toBe(false);
+      expect(engine.processVisit(player, visit('T20 S1')).success).toBe(false);
+      expect(engine.processVisit(player, visit('S1 S1 S1 S1')).success).toBe(false);
+    });
+
+    it('records a bust as a zero visit and keeps the score', () => {
+      const engine = engine501();
+      const { player, result } = engine.applyVisit({ ...engine.createPlayerState('A'), score: 32 }, visit('S20 S20'));
+
+      expect(result.isBust).toBe(true);
+      expect(player.score).toBe(32);
+      expect(player.history).toEqual([0]);
+      expect(player.matchHistory).toEqual([0]);
+      expect(player.dartHistory).toEqual([visit('S20 S20')]);
+      expect(player.dartsThrown).toBe(2);
+    });
+  });
+});
+
+describe('in and out rules', () => {
+  const engine = (rules: Partial<ConstructorParameters<typeof DartsScoringEngine>[0]> = {}) =>
+    new DartsScoringEngine({ startingScore: 501, matchType: 'first_to', targetLegs: 1, ...rules });
+  const at = (e: DartsScoringEngine, score: number) => ({ ...e.createPlayerState('A'), score });
+
+  it('rejects totals three darts cannot score', () => {
+    const e = engine();
+    for (const score of [163, 179, 181, -1]) {
+      expect(e.processThrow(e.createPlayerState('A'), score).success).toBe(false);
+    }
+  });
+
+  it('busts below zero and on 1 under double out', () => {
+    const e = engine();
+
+    expect(e.processThrow(at(e, 40), 41).isBust).toBe(true);
+    expect(e.processThrow(at(e, 40), 39).isBust).toBe(true);
+    expect(e.processThrow(at(e, 40), 38).isBust).toBe(false);
+    expect(engine({ outRule: 'straight' }).processThrow(at(e, 40), 39).isBust).toBe(false);
+  });
+
+  it('only checks out finishes the out rule allows', () => {
+    const double = engine();
+    const straight = engine({ outRule: 'straight' });
+
+    expect(double.processThrow(at(double, 170), 170).isLegWon).toBe(true);
+    expect(double.processThrow(at(double, 168), 168).success).toBe(false);
+    expect(straight.processThrow(at(straight, 168), 168).isLegWon).toBe(true);
+  });
+
+  it('finishes a per-dart visit on the out rule dart', () => {
+    const double = engine();
+    const master = engine({ outRule: 'master' });
+
+    expect(double.processVisit(at(double, 40), visit('D20')).isLegWon).toBe(true);
+    expect(double.processVisit(at(double, 40), visit('S20 S20')).isBust).toBe(true);
+    expect(master.processVisit(at(master, 60), visit('T20')).isLegWon).toBe(true);
+    expect(master.processVisit(at(master, 20), visit('S20')).isBust).toBe(true);
+  });
+
+  it('counts nothing before the opening double under double in', () => {
+    const e = engine({ inRule: 'double' });
+    const { player, result } = e.applyVisit(e.createPlayerState('A'), visit('T20 D10 S5'));
+
+    expect(result.hasOpened).toBe(true);
+    expect(player.score).toBe(501 - 25);
+    expect(e.applyVisit(e.createPlayerState('A'), visit('T20 T20 T20')).player).toMatchObject({ score: 501, hasOpened: false });
+  });
+});
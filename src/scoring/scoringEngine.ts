@@ -1,7 +1,7 @@
 /**
  * Darts Scoring Engine
  * Core scoring logic for X01 games (501, 301, 170, 121, etc.)
- * Supports: First to X legs, Best of X sets, statistics tracking
+ * Supports: First to / best of legs and sets, per-dart or total entry, statistics tracking
  *
  * Performance optimizations:
  * - Immutable state updates with spread operator
@@ -11,11 +11,23 @@
 
 import {
   VALID_CHECKOUTS,
+  IMPOSSIBLE_VISIT_SCORES,
   MAX_SCORE,
   INITIAL_MATCH_STATS,
   getCheckoutSuggestion
 } from '../constants';
-import type { MatchConfig, MatchStats } from '../types';
+import type { InOutRule, MatchConfig, MatchStats } from '../types';
+import {
+  type Dart,
+  DARTS_PER_VISIT,
+  isValidDart,
+  getDartScore,
+  formatDart,
+  isDouble,
+  isTreble,
+  isRuleDart
+} from './dartModel';
+import type { CheckoutOptions } from './checkoutSolver';
 
 // ==================== TYPES ====================
 
@@ -23,12 +35,14 @@ export interface PlayerState {
   id?: string;
   name: string;
   score: number;
-  legs: number;
+  legs: number;                  // Legs in CURRENT set when playing sets
   sets?: number;
   history: number[];             // Throws in CURRENT leg
+  dartHistory: (Dart[] | null)[]; // Darts per throw in CURRENT leg (null = total-only entry)
   matchHistory: number[];        // Throws in WHOLE match
   stats: MatchStats;
   dartsThrown: number;           // Darts thrown in current leg
+  hasOpened: boolean;            // Double-in: leg has been opened
 }
 
 export interface ThrowResult {
@@ -36,7 +50,11 @@ export interface ThrowResult {
   newScore: number;
   isBust: boolean;
   isLegWon: boolean;
+  isSetWon: boolean;
   isMatchWon: boolean;
+  dartsUsed?: number;            // Darts counted for the visit (fewer than 3 on a checkout)
+  checkoutDart?: Dart;           // Dart that finished the leg (per-dart entry only)
+  hasOpened?: boolean;           // Double-in state after the visit
   message?: string;
 }
 
@@ -45,6 +63,9 @@ export interface ThrowResult {
 export class DartsScoringEngine {
   private readonly config: Required<Pick<MatchConfig, 'startingScore' | 'matchType' | 'targetLegs' | 'doubleOut'>> & MatchConfig;
   private readonly legsNeeded: number;
+  private readonly setsNeeded: number | null;
+  private readonly inRule: InOutRule;
+  private readonly outRule: InOutRule;
 
   constructor(config: MatchConfig) {
     this.config = {
@@ -52,10 +73,19 @@ export class DartsScoringEngine {
       ...config
     };
 
+    // Explicit rules win over the legacy boolean flags
+    this.outRule = this.config.outRule ?? (this.config.doubleOut ? 'double' : 'straight');
+    this.inRule = this.config.inRule ?? (this.config.doubleIn ? 'double' : 'straight');
+
     // Pre-calculate legs needed (avoids repeated calculation)
-    this.legsNeeded = this.config.matchType === 'first_to'
-      ? this.config.targetLegs
-      : Math.ceil(this.config.targetLegs / 2);
+    // With sets, targetLegs is per set and legsMatchType picks its rule
+    this.setsNeeded = this.config.targetSets
+      ? winsNeeded(this.config.matchType, this.config.targetSets)
+      : null;
+    this.legsNeeded = winsNeeded(
+      this.setsNeeded ? this.config.legsMatchType ?? this.config.matchType : this.config.matchType,
+      this.config.targetLegs
+    );
   }
 
   /**
@@ -69,62 +99,156 @@ export class DartsScoringEngine {
       legs: 0,
       sets: 0,
       history: [],
+      dartHistory: [],
       matchHistory: [],
       stats: { ...INITIAL_MATCH_STATS },
-      dartsThrown: 0
+      dartsThrown: 0,
+      hasOpened: this.inRule === 'straight'
     };
   }
 
   /**
-   * Process a throw (3-dart visit)
+   * Process a throw (3-dart visit total)
+   * Darts aren't known, so in/out rules are enforced as far as the total allows:
+   * impossible checkouts are rejected, and any score opens a double-in leg
    */
   processThrow(player: PlayerState, scoreThrown: number): ThrowResult {
     // Validate score
     if (scoreThrown < 0 || scoreThrown > MAX_SCORE) {
-      return {
-        success: false,
-        newScore: player.score,
-        isBust: false,
-        isLegWon: false,
-        isMatchWon: false,
-        message: `Invalid score. Maximum is ${MAX_SCORE}.`
-      };
+      return this.invalidResult(player, `Invalid score. Maximum is ${MAX_SCORE}.`);
+    }
+    if (IMPOSSIBLE_VISIT_SCORES.includes(scoreThrown)) {
+      return this.invalidResult(player, `${scoreThrown} can't be scored with three darts.`);
+    }
+
+    // Double-in: a blank visit leaves the leg unopened
+    if (!player.hasOpened && scoreThrown === 0) {
+      return { ...this.scoredResult(player.score, DARTS_PER_VISIT), hasOpened: false };
     }
 
     const newScore = player.score - scoreThrown;
 
     // Check for bust conditions
     if (this.isBust(newScore)) {
-      return {
-        success: true,
-        newScore: player.score, // Score stays the same on bust
-        isBust: true,
-        isLegWon: false,
-        isMatchWon: false,
-        message: 'Bust!'
-      };
+      return this.bustResult(player, DARTS_PER_VISIT);
     }
 
     // Check for checkout (leg won)
     if (newScore === 0) {
-      const isMatchWon = player.legs + 1 >= this.legsNeeded;
-      return {
-        success: true,
-        newScore: 0,
-        isBust: false,
-        isLegWon: true,
-        isMatchWon,
-        message: isMatchWon ? 'Match won!' : 'Leg won!'
-      };
+      if (!this.isPossibleCheckout(player.score)) {
+        return this.invalidResult(player, `${player.score} can't be checked out (${this.outRule} out).`);
+      }
+      return { ...this.legWonResult(player, DARTS_PER_VISIT), hasOpened: true };
     }
 
     // Normal scoring
+    return { ...this.scoredResult(newScore, DARTS_PER_VISIT), hasOpened: true };
+  }
+
+  /**
+   * Process a visit entered dart by dart
+   * The visit ends at the dart that busts or finishes the leg;
+   * otherwise it must contain all 3 darts
+   */
+  processVisit(player: PlayerState, darts: readonly Dart[]): ThrowResult {
+    if (darts.length === 0 || darts.length > DARTS_PER_VISIT) {
+      return this.invalidResult(player, `A visit has 1 to ${DARTS_PER_VISIT} darts.`);
+    }
+
+    let remaining = player.score;
+    let hasOpened = player.hasOpened;
+
+    for (let i = 0; i < darts.length; i++) {
+      const dart = darts[i];
+      if (!isValidDart(dart)) {
+        return this.invalidResult(player, `Invalid dart ${i + 1}.`);
+      }
+
+      // Double-in: nothing counts until the opening dart lands
+      if (!hasOpened) {
+        hasOpened = isRuleDart(dart, this.inRule);
+        if (!hasOpened) continue;
+      }
+
+      remaining -= getDartScore(dart);
+      const isLastDart = i === darts.length - 1;
+      const isFinish = remaining === 0 && isRuleDart(dart, this.outRule);
+
+      if (this.isBust(remaining) || (remaining === 0 && !isFinish)) {
+        if (!isLastDart) {
+          return this.invalidResult(player, `Visit ends on dart ${i + 1} (bust).`);
+        }
+        return this.bustResult(player, i + 1);
+      }
+
+      if (isFinish) {
+        if (!isLastDart) {
+          return this.invalidResult(player, `Leg finished on dart ${i + 1} (${formatDart(dart)}).`);
+        }
+        return { ...this.legWonResult(player, i + 1), checkoutDart: dart, hasOpened };
+      }
+    }
+
+    if (darts.length < DARTS_PER_VISIT) {
+      return this.invalidResult(player, `A visit needs ${DARTS_PER_VISIT} darts unless it finishes or busts.`);
+    }
+
+    return { ...this.scoredResult(remaining, darts.length), hasOpened };
+  }
+
+  private scoredResult(newScore: number, dartsUsed: number): ThrowResult {
     return {
       success: true,
       newScore,
       isBust: false,
       isLegWon: false,
-      isMatchWon: false
+      isSetWon: false,
+      isMatchWon: false,
+      dartsUsed
+    };
+  }
+
+  private bustResult(player: PlayerState, dartsUsed: number): ThrowResult {
+    return {
+      success: true,
+      newScore: player.score, // Score stays the same on bust
+      isBust: true,
+      isLegWon: false,
+      isSetWon: false,
+      isMatchWon: false,
+      dartsUsed,
+      message: 'Bust!'
+    };
+  }
+
+  private legWonResult(player: PlayerState, dartsUsed: number): ThrowResult {
+    const legsWon = player.legs + 1;
+    const isSetWon = this.setsNeeded !== null && legsWon >= this.legsNeeded;
+    const isMatchWon = this.setsNeeded === null
+      ? legsWon >= this.legsNeeded
+      : isSetWon && (player.sets ?? 0) + 1 >= this.setsNeeded;
+
+    return {
+      success: true,
+      newScore: 0,
+      isBust: false,
+      isLegWon: true,
+      isSetWon,
+      isMatchWon,
+      dartsUsed,
+      message: isMatchWon ? 'Match won!' : isSetWon ? 'Set won!' : 'Leg won!'
+    };
+  }
+
+  private invalidResult(player: PlayerState, message: string): ThrowResult {
+    return {
+      success: false,
+      newScore: player.score,
+      isBust: false,
+      isLegWon: false,
+      isSetWon: false,
+      isMatchWon: false,
+      message
     };
   }
 
@@ -132,24 +256,74 @@ export class DartsScoringEngine {
    * Check if a score results in a bust
    */
   private isBust(newScore: number): boolean {
-    // Went negative or left on 1 (impossible to checkout on double)
-    return newScore < 0 || newScore === 1;
+    // Went negative, or left on 1 (no double or treble scores 1)
+    if (newScore < 0) return true;
+    return newScore === 1 && this.outRule !== 'straight';
   }
 
   /**
-   * Check if match is won based on legs
+   * Check a remaining score can be finished in one visit under the out rule
    */
-  checkMatchWin(legs: number): boolean {
-    return legs >= this.legsNeeded;
+  isPossibleCheckout(score: number): boolean {
+    switch (this.outRule) {
+      case 'double':
+        return VALID_CHECKOUTS.has(score);
+      case 'master':
+        return score >= 2 && score <= MAX_SCORE && !IMPOSSIBLE_VISIT_SCORES.includes(score);
+      default:
+        return score >= 1 && score <= MAX_SCORE && !IMPOSSIBLE_VISIT_SCORES.includes(score);
+    }
   }
 
   /**
-   * Get legs needed to win
+   * Get the resolved in/out rules
+   */
+  getRules(): { inRule: InOutRule; outRule: InOutRule } {
+    return { inRule: this.inRule, outRule: this.outRule };
+  }
+
+  /**
+   * Check if match is won based on legs (or sets when playing sets)
+   */
+  checkMatchWin(legs: number, sets = 0): boolean {
+    return this.setsNeeded === null ? legs >= this.legsNeeded : sets >= this.setsNeeded;
+  }
+
+  /**
+   * Get legs needed to win (the match, or a set when playing sets)
    */
   getLegsNeeded(): number {
     return this.legsNeeded;
   }
 
+  /**
+   * Get sets needed to win, or null for a legs-only match
+   */
+  getSetsNeeded(): number | null {
+    return this.setsNeeded;
+  }
+
+  /**
+   * Leg and set score in the shape broadcast widgets expect
+   */
+  getScoreline(player1: PlayerState, player2: PlayerState): {
+    legs: { player1: number; player2: number };
+    sets?: { player1: number; player2: number };
+    targetLegs: number;
+    targetSets?: number;
+    matchType: 'first_to' | 'best_of';
+  } {
+    return {
+      legs: { player1: player1.legs, player2: player2.legs },
+      sets: this.setsNeeded === null
+        ? undefined
+        : { player1: player1.sets ?? 0, player2: player2.sets ?? 0 },
+      targetLegs: this.config.targetLegs,
+      targetSets: this.config.targetSets,
+      matchType: this.config.matchType
+    };
+  }
+
   /**
    * Update player statistics after a throw
    * Uses single-pass update for performance
@@ -186,7 +360,7 @@ export class DartsScoringEngine {
   }
 
   /**
-   * Apply a throw to a player and return updated state
+   * Apply a throw (3-dart total) to a player and return updated state
    * Returns new state objects (immutable update)
    */
   applyThrow(player: PlayerState, scoreThrown: number): {
@@ -194,70 +368,83 @@ export class DartsScoringEngine {
     result: ThrowResult;
   } {
     const result = this.processThrow(player, scoreThrown);
+    return { player: this.commitVisit(player, result, scoreThrown, null), result };
+  }
+
+  /**
+   * Apply a visit entered dart by dart and return updated state
+   */
+  applyVisit(player: PlayerState, darts: readonly Dart[]): {
+    player: PlayerState;
+    result: ThrowResult;
+  } {
+    const result = this.processVisit(player, darts);
+    const scoreThrown = result.isBust ? 0 : player.score - result.newScore;
+    return { player: this.commitVisit(player, result, scoreThrown, [...darts]), result };
+  }
 
+  /**
+   * Shared state update for total and per-dart entry
+   */
+  private commitVisit(
+    player: PlayerState,
+    result: ThrowResult,
+    scoreThrown: number,
+    darts: Dart[] | null
+  ): PlayerState {
     if (!result.success) {
-      return { player, result };
+      return player;
     }
 
-    if (result.isBust) {
-      // Bust: only increment darts thrown
-      return {
-        player: {
-          ...player,
-          dartsThrown: player.dartsThrown + 3
-        },
-        result
-      };
-    }
+    const dartsUsed = result.dartsUsed ?? DARTS_PER_VISIT;
+    const hasOpened = result.hasOpened ?? player.hasOpened;
+
+    // A bust is recorded as a visit scoring 0, leaving the score where it was
+    const scored = result.isBust ? 0 : scoreThrown;
+    const newHistory = [...player.history, scored];
+    const newDartHistory = [...player.dartHistory, darts];
+    const newMatchHistory = [...player.matchHistory, scored];
+    let newStats = this.updateStats(player.stats, scored);
 
     if (result.isLegWon) {
       // Leg won
-      const finalDarts = player.dartsThrown + 3;
-      const newHistory = [...player.history, scoreThrown];
-      const newMatchHistory = [...player.matchHistory, scoreThrown];
-
-      let newStats = this.updateStats(player.stats, scoreThrown);
-      newStats = this.updateBestLeg(newStats, finalDarts);
+      newStats = this.updateBestLeg(newStats, player.dartsThrown + dartsUsed);
 
       // Update highest checkout if applicable
       if (!newStats.highest_checkout || player.score > newStats.highest_checkout) {
         newStats = { ...newStats, highest_checkout: player.score };
       }
-
-      newStats.average = this.calculateAverage(newMatchHistory);
-      newStats.visit_history = newMatchHistory;
-
-      return {
-        player: {
-          ...player,
-          score: 0,
-          legs: player.legs + 1,
-          history: newHistory,
-          matchHistory: newMatchHistory,
-          stats: newStats,
-          dartsThrown: 0 // Reset for next leg
-        },
-        result
-      };
     }
 
-    // Normal throw
-    const newHistory = [...player.history, scoreThrown];
-    const newMatchHistory = [...player.matchHistory, scoreThrown];
-    let newStats = this.updateStats(player.stats, scoreThrown);
     newStats.average = this.calculateAverage(newMatchHistory);
     newStats.visit_history = newMatchHistory;
 
-    return {
-      player: {
+    if (result.isLegWon) {
+      // Winning a set banks it and starts the next set's leg count
+      return {
         ...player,
-        score: result.newScore,
+        score: 0,
+        legs: result.isSetWon ? 0 : player.legs + 1,
+        sets: (player.sets ?? 0) + (result.isSetWon ? 1 : 0),
         history: newHistory,
+        dartHistory: newDartHistory,
         matchHistory: newMatchHistory,
         stats: newStats,
-        dartsThrown: player.dartsThrown + 3
-      },
-      result
+        dartsThrown: 0, // Reset for next leg
+        hasOpened
+      };
+    }
+
+    // Normal throw
+    return {
+      ...player,
+      score: result.newScore,
+      history: newHistory,
+      dartHistory: newDartHistory,
+      matchHistory: newMatchHistory,
+      stats: newStats,
+      dartsThrown: player.dartsThrown + dartsUsed,
+      hasOpened
     };
   }
 
@@ -269,7 +456,19 @@ export class DartsScoringEngine {
       ...player,
       score: this.config.startingScore,
       history: [],
-      dartsThrown: 0
+      dartHistory: [],
+      dartsThrown: 0,
+      hasOpened: this.inRule === 'straight'
+    };
+  }
+
+  /**
+   * Reset player for new set (legs back to zero)
+   */
+  resetForNewSet(player: PlayerState): PlayerState {
+    return {
+      ...this.resetForNewLeg(player),
+      legs: 0
     };
   }
 
@@ -283,17 +482,22 @@ export class DartsScoringEngine {
       legs: 0,
       sets: 0,
       history: [],
+      dartHistory: [],
       matchHistory: [],
       stats: { ...INITIAL_MATCH_STATS },
-      dartsThrown: 0
+      dartsThrown: 0,
+      hasOpened: this.inRule === 'straight'
     };
   }
 
   /**
-   * Get suggested checkout
+   * Get suggested checkout under this match's out rule
    */
-  getSuggestedCheckout(remaining: number): string | null {
-    return getCheckoutSuggestion(remaining);
+  getSuggestedCheckout(
+    remaining: number,
+    options: Omit<CheckoutOptions, 'outRule'> = {}
+  ): string | null {
+    return getCheckoutSuggestion(remaining, { ...options, outRule: this.outRule });
   }
 
   /**
@@ -306,6 +510,13 @@ export class DartsScoringEngine {
 
 // ==================== UTILITY FUNCTIONS ====================
 
+/**
+ * Legs or sets needed to win under first-to / best-of rules
+ */
+export function winsNeeded(matchType: 'first_to' | 'best_of', target: number): number {
+  return matchType === 'first_to' ? target : Math.ceil(target / 2);
+}
+
 /**
  * Format average to 2 decimal places
  */
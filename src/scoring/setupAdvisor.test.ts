@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { getSetupAdvice } from './setupAdvisor';
+import { BULL_SEGMENT, createDart } from './dartModel';
+
+describe('getSetupAdvice', () => {
+  it('sets up a finish when there is no checkout', () => {
+    const advice = getSetupAdvice(169);
+    expect(advice?.target).toEqual(createDart(20, 3));
+    expect(advice?.leave).toBeGreaterThan(1);
+    expect(advice?.leave).toBeLessThanOrEqual(40);
+    expect(advice?.finishProbability).toBeGreaterThan(0);
+  });
+
+  it('leaves a double with the last dart', () => {
+    const advice = getSetupAdvice(99, 1);
+    expect(advice?.plan).toHaveLength(1);
+    expect(advice?.leave).toBe(42);
+    expect(advice?.label).toBe('T19 leaves 42');
+  });
+
+  it('scores on T20 above 170', () => {
+    expect(getSetupAdvice(171, 1)?.label).toBe('T20 leaves 111');
+    expect(getSetupAdvice(501)?.label).toBe('T20 T20 T20 leaves 321');
+    expect(getSetupAdvice(501)?.finishProbability).toBe(0);
+  });
+
+  it('sets up once the visit comes into range', () => {
+    expect(getSetupAdvice(200)?.label).toBe('T20 T20 T20 leaves 20');
+    expect(getSetupAdvice(180)?.plan.slice(0, 2)).toEqual([createDart(20, 3), createDart(20, 3)]);
+  });
+
+  it('only aims at the bullseye to finish', () => {
+    for (const remaining of [90, 115, 140, 200]) {
+      for (const dartsLeft of [1, 2, 3]) {
+        const advice = getSetupAdvice(remaining, dartsLeft);
+        const bull = advice?.plan.findIndex(d => d.segment === BULL_SEGMENT && d.multiplier === 2) ?? -1;
+        if (bull !== -1) expect(advice?.leave === 0 && bull === advice.plan.length - 1).toBe(true);
+      }
+    }
+  });
+
+  it('has nothing to aim at with 1 or less', () => {
+    expect(getSetupAdvice(1)).toBeNull();
+    expect(getSetupAdvice(40, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Setup Advisor
+ * When there's no checkout with the darts left, recommends what to aim at so
+ * the visit leaves the best finishing number (e.g. 'T20 leaves 32')
+ *
+ * Each target is valued by the checkout solver's finish probabilities:
+ * the chance of finishing later in this visit or with the three darts of the
+ * next one, over every place the dart can land.
+ *
+ * Above 170 there's no finish to set up, so the advice is to score on T20
+ * until the visit gets into checkout range. The bullseye is only aimed at to
+ * finish: the model lets a missed bullseye still score 25, which overrates it
+ * as a setup shot.
+ */
+
+import type { InOutRule } from '../types';
+import { MAX_CHECKOUT } from '../constants';
+import {
+  type Dart,
+  BULL_SEGMENT,
+  BULLSEYE,
+  DARTS_PER_VISIT,
+  createDart,
+  getDartScore,
+  formatVisit
+} from './dartModel';
+import {
+  DEFAULT_HIT_RATES,
+  getDartOutcomes,
+  getFinishProbability,
+  resolveDart,
+  type CheckoutOptions,
+  type HitRates
+} from './checkoutSolver';
+
+// ==================== TYPES ====================
+
+export type SetupOptions = Pick<CheckoutOptions, 'outRule' | 'hitRates'>;
+
+export interface SetupAdvice {
+  target: Dart;                  // Dart to throw now
+  plan: Dart[];                  // Rest of the visit if every dart hits (starts with target)
+  leave: number;                 // Score left after the plan (0 = it finishes)
+  label: string;                 // e.g. 'T20 leaves 32'
+  finishProbability: number;     // Chance of finishing this visit or next by following the advice
+}
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Targets worth aiming at - every single, double, treble and both bulls
+ */
+const TARGETS: readonly Dart[] = Object.freeze([
+  ...[3, 2, 1].flatMap(m => Array.from({ length: 20 }, (_, i) => createDart(i + 1, m as 1 | 2 | 3))),
+  BULLSEYE,
+  createDart(BULL_SEGMENT, 1)
+]);
+
+const SCORING_TARGET = createDart(20, 3);
+
+// ==================== ADVISOR ====================
+
+/**
+ * Best target for the next dart: a setup shot from 170 or less, T20 above it
+ * Null when there's nothing left to aim for (1 or less)
+ */
+export function getSetupAdvice(
+  remaining: number,
+  dartsLeft = DARTS_PER_VISIT,
+  options: SetupOptions = {}
+): SetupAdvice | null {
+  if (dartsLeft <= 0 || remaining <= 1) return null;
+
+  const outRule = options.outRule ?? 'double';
+  const rates: HitRates = { ...DEFAULT_HIT_RATES, ...options.hitRates };
+  const cache = new Map<string, number>();
+
+  const first = nextTarget(remaining, dartsLeft, outRule, rates, cache);
+  if (!first || (first.value === 0 && remaining <= MAX_CHECKOUT)) return null;
+
+  // Follow the advice assuming every dart hits
+  const plan: Dart[] = [first.target];
+  let left = remaining;
+  for (let k = dartsLeft; k > 0; k--) {
+    const next = resolveDart(left, plan[plan.length - 1], outRule);
+    if (next.outcome !== 'continue') {
+      left = next.outcome === 'finish' ? 0 : left;
+      break;
+    }
+    left = next.remaining;
+    if (k === 1) break;
+
+    const step = nextTarget(left, k - 1, outRule, rates, cache);
+    if (!step) break;
+    plan.push(step.target);
+  }
+
+  return {
+    target: first.target,
+    plan,
+    leave: left,
+    label: left === 0 ? formatVisit(plan) : `${formatVisit(plan)} leaves ${left}`,
+    finishProbability: first.value
+  };
+}
+
+/**
+ * Scoring target out of checkout range, best setup shot inside it
+ */
+function nextTarget(
+  remaining: number,
+  dartsLeft: number,
+  outRule: InOutRule,
+  rates: HitRates,
+  cache: Map<string, number>
+): { target: Dart; value: number } | null {
+  if (remaining <= MAX_CHECKOUT) return bestTarget(remaining, dartsLeft, outRule, rates, cache);
+
+  const { value } = targetValue(SCORING_TARGET, remaining, dartsLeft, outRule, rates, cache);
+  return { target: SCORING_TARGET, value };
+}
+
+/**
+ * Target with the best chance of finishing by the end of the next visit
+ * Ties (e.g. far from a finish) go to the higher expected score
+ */
+function bestTarget(
+  remaining: number,
+  dartsLeft: number,
+  outRule: InOutRule,
+  rates: HitRates,
+  cache: Map<string, number>
+): { target: Dart; value: number } | null {
+  let best: { target: Dart; value: number; expected: number } | null = null;
+
+  for (const target of TARGETS) {
+    if (target === BULLSEYE && getDartScore(target) !== remaining) continue;
+
+    const { value, expected } = targetValue(target, remaining, dartsLeft, outRule, rates, cache);
+
+    if (!best || value > best.value + 1e-9 ||
+        (Math.abs(value - best.value) <= 1e-9 && expected > best.expected)) {
+      best = { target, value, expected };
+    }
+  }
+
+  return best && { target: best.target, value: best.value };
+}
+
+/**
+ * Chance of finishing by the end of the next visit aiming at a target,
+ * and the score it's expected to add
+ */
+function targetValue(
+  target: Dart,
+  remaining: number,
+  dartsLeft: number,
+  outRule: InOutRule,
+  rates: HitRates,
+  cache: Map<string, number>
+): { value: number; expected: number } {
+  let value = 0;
+  let expected = 0;
+
+  for (const { dart, probability } of getDartOutcomes(target, rates)) {
+    const next = resolveDart(remaining, dart, outRule);
+    if (next.outcome === 'finish') value += probability;
+    else if (next.outcome === 'continue') {
+      value += probability * visitValue(next.remaining, dartsLeft - 1, outRule, rates, cache);
+      expected += probability * getDartScore(dart);
+    }
+  }
+
+  return { value, expected };
+}
+
+/**
+ * Chance of finishing from here: the rest of this visit, then a fresh visit
+ */
+function visitValue(
+  remaining: number,
+  dartsLeft: number,
+  outRule: InOutRule,
+  rates: HitRates,
+  cache: Map<string, number>
+): number {
+  if (dartsLeft === 0) {
+    return getFinishProbability(remaining, DARTS_PER_VISIT, { outRule, hitRates: rates });
+  }
+
+  const key = `${remaining}:${dartsLeft}`;
+  const cached = cache.get(key);
+  if (cached !== undefined) return cached;
+
+  const value = bestTarget(remaining, dartsLeft, outRule, rates, cache)?.value ?? 0;
+  cache.set(key, value);
+  return value;
+}
+
+export default getSetupAdvice;
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildDoubleEliminationBracket,
+  buildSingleEliminationBracket,
+  drawFirstRound,
+  getSeedPositions,
+  type BracketMatch,
+  type DrawEntrant
+} from './brackets';
+import { createRandom } from '../utils/random';
+
+const seeded = (count: number): DrawEntrant[] =>
+  Array.from({ length: count }, (_, i) => ({ playerId: `p${i + 1}`, seed: i + 1 }));
+
+const byNumber = (matches: readonly BracketMatch[], number: number) =>
+  matches.find(m => m.match_number === number)!;
+
+describe('getSeedPositions', () => {
+  it('keeps the top seeds apart', () => {
+    expect(getSeedPositions(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+  });
+
+  it('puts seeds 1 and 2 in opposite halves', () => {
+    for (const size of [2, 4, 8, 16, 32]) {
+      const positions = getSeedPositions(size);
+      expect(positions.indexOf(1)).toBeLessThan(size / 2);
+      expect(positions.indexOf(2)).toBeGreaterThanOrEqual(size / 2);
+    }
+  });
+});
+
+describe('drawFirstRound', () => {
+  it('gives the byes to the top seeds', () => {
+    const pairs = drawFirstRound(seeded(5), 8);
+    const byes = pairs.filter(([, opponent]) => opponent === null).map(([player]) => player);
+
+    expect(byes.sort()).toEqual(['p1', 'p2', 'p3']);
+  });
+
+  it('draws the same pairs from the same seed', () => {
+    const field = seeded(12).map(e => ({ playerId: e.playerId }));
+    const draw = (seed: string) => drawFirstRound(field, 16, { random: createRandom(seed) });
+
+    expect(draw('open-2026')).toEqual(draw('open-2026'));
+    expect(draw('open-2026')).not.toEqual(draw('open-2027'));
+  });
+
+  it('keeps clubmates apart in the first round', () => {
+    const field: DrawEntrant[] = Array.from({ length: 8 }, (_, i) => ({
+      playerId: `p${i + 1}`,
+      clubId: i < 4 ? 'crown' : 'anchor'
+    }));
+
+    for (const seed of ['a', 'b', 'c', 'd']) {
+      const clubOf = (id: string | null) => field.find(e => e.playerId === id)?.clubId;
+      const pairs = drawFirstRound(field, 8, { random: createRandom(seed), separateClubs: true });
+
+      for (const [a, b] of pairs) expect(clubOf(a)).not.toBe(clubOf(b));
+    }
+  });
+});
+
+describe('buildSingleEliminationBracket', () => {
+  it('gives byes to the top seeds and plays them through', () => {
+    const matches = buildSingleEliminationBracket('t', seeded(6));
+
+    expect(matches).toHaveLength(7);
+    expect(byNumber(matches, 1)).toMatchObject({ player1_id: 'p1', status: 'bye', winner_id: 'p1' });
+    expect(byNumber(matches, 2)).toMatchObject({ player1_id: 'p4', player2_id: 'p5', status: 'ready' });
+    expect(byNumber(matches, 5).player1_id).toBe('p1');
+    expect(byNumber(matches, 6).player1_id).toBe('p2');
+  });
+
+  it('links every match to the next round until the final', () => {
+    const matches = buildSingleEliminationBracket('t', seeded(8));
+    const final = matches[matches.length - 1];
+
+    expect(final.next_match_number).toBeUndefined();
+    for (const match of matches.filter(m => m !== final)) {
+      const next = byNumber(matches, match.next_match_number!);
+      expect(next.round).toBe(match.round! + 1);
+    }
+  });
+
+  it('takes the slot from the bracket position', () => {
+    const matches = buildSingleEliminationBracket('t', seeded(8));
+    for (const match of matches.filter(m => m.next_match_number !== undefined)) {
+      expect(match.next_match_slot).toBe(match.match_number! % 2 === 1 ? 1 : 2);
+    }
+  });
+
+  it('keeps seeds 1 and 2 apart until the final', () => {
+    // Match numbers a player would go through if they kept winning
+    const path = (matches: readonly BracketMatch[], playerId: string) => {
+      let match: BracketMatch | undefined = matches.find(m =>
+        m.round === 1 && (m.player1_id === playerId || m.player2_id === playerId));
+      const numbers: number[] = [];
+      for (; match; match = match.next_match_number ? byNumber(matches, match.next_match_number) : undefined) {
+        numbers.push(match.match_number!);
+      }
+      return numbers;
+    };
+
+    for (const size of [5, 8, 11, 16]) {
+      const matches = buildSingleEliminationBracket('t', seeded(size));
+      const final = matches[matches.length - 1].match_number;
+      const top = path(matches, 'p1');
+
+      expect(path(matches, 'p2').filter(n => top.includes(n))).toEqual([final]);
+    }
+  });
+
+  it('marks a match ready once both players are known', () => {
+    const matches = buildSingleEliminationBracket('t', seeded(5));
+    const secondRound = matches.filter(m => m.round === 2);
+
+    // Seeds 2 and 3 both have byes, into the same second-round match
+    expect(secondRound.map(m => m.status)).toEqual(['pending', 'ready']);
+    expect(secondRound[1]).toMatchObject({ player1_id: 'p2', player2_id: 'p3' });
+  });
+});
+
+describe('buildDoubleEliminationBracket', () => {
+  it('drops winners-bracket losers into the losers bracket', () => {
+    const matches = buildDoubleEliminationBracket('t', seeded(4));
+    const [first, second] = matches.filter(m => m.bracket === 'winners' && m.round === 1);
+    const losersFinal = matches.filter(m => m.bracket === 'losers').pop()!;
+    const grandFinals = matches.filter(m => m.bracket === 'grand_final');
+
+    expect(first.loser_next_match_number).toBe(second.loser_next_match_number);
+    expect(byNumber(matches, first.loser_next_match_number!).bracket).toBe('losers');
+    expect(losersFinal.next_match_number).toBe(grandFinals[0].match_number);
+    expect(grandFinals).toHaveLength(2);
+  });
+
+  it('feeds every slot from one match only', () => {
+    for (const size of [4, 6, 8]) {
+      const matches = buildDoubleEliminationBracket('t', seeded(size));
+      const slots = matches.flatMap(m => [
+        m.next_match_number && `${m.next_match_number}/${m.next_match_slot}`,
+        m.loser_next_match_number && `${m.loser_next_match_number}/${m.loser_next_match_slot}`
+      ]).filter(Boolean);
+
+      expect(new Set(slots).size).toBe(slots.length);
+    }
+  });
+
+  it('sends no loser out of a bye', () => {
+    const matches = buildDoubleEliminationBracket('t', seeded(6));
+    for (const bye of matches.filter(m => m.bracket === 'winners' && m.status === 'bye')) {
+      expect(bye.loser_next_match_number).toBeUndefined();
+    }
+  });
+
+  it('seats the winners champion first in the grand final', () => {
+    const matches = buildDoubleEliminationBracket('t', seeded(8));
+    const winnersFinal = matches.filter(m => m.bracket === 'winners').pop()!;
+    const grandFinal = matches.find(m => m.bracket === 'grand_final')!;
+
+    expect(winnersFinal).toMatchObject({ next_match_number: grandFinal.match_number, next_match_slot: 1 });
+  });
+
+  it('leaves out the reset match when asked', () => {
+    const matches = buildDoubleEliminationBracket('t', seeded(4), { grandFinalReset: false });
+    expect(matches.filter(m => m.bracket === 'grand_final')).toHaveLength(1);
+  });
+});
@@ -0,0 +1,398 @@
+/**
+ * Bracket Builder
+ * Lays out elimination brackets as match rows linked by match number -
+ * TournamentService inserts the rows, then swaps the numbers for match ids
+ *
+ * Every bracket is fully linked when drawn: each match knows which match
+ * and slot its winner goes to, byes are played through, and a match is
+ * 'ready' as soon as both its players are known.
+ *
+ * Seeds take the standard positions (1 and 2 can only meet in the final,
+ * 1-4 not before the semis, and so on) and byes go to the top seeds.
+ * Unseeded players are drawn at random into the remaining lines, and can
+ * be moved apart so clubmates don't meet in the early rounds.
+ *
+ * Double elimination has a winners bracket, a losers bracket fed by every
+ * winners-bracket loser, and a grand final between the two champions.
+ * Losers drop in an order that keeps them away from players they have
+ * already met, and if the losers-bracket champion wins the grand final
+ * an optional reset match decides the title.
+ */
+
+import type { BracketSide, MatchSlot, TournamentMatch } from './tournamentService';
+import { type RandomSource, defaultRandom, shuffle } from '../utils/random';
+
+// ==================== TYPES ====================
+
+/**
+ * A drawn match before insert - links point at match numbers
+ */
+export interface BracketMatch extends Partial<TournamentMatch> {
+  next_match_number?: number;        // Winner goes here
+  loser_next_match_number?: number;  // Loser goes here (double elimination)
+}
+
+export interface DrawEntrant {
+  playerId: string;
+  seed?: number;                     // 1 = top seed; unseeded players are drawn at random
+  clubId?: string;
+}
+
+export interface DrawOptions {
+  random?: RandomSource;
+  separateClubs?: boolean;           // Keep clubmates apart for as long as possible
+}
+
+export interface DoubleEliminationOptions extends DrawOptions {
+  grandFinalReset?: boolean;         // Default true
+}
+
+// Slot state while resolving byes: a player, null when nobody will
+// ever arrive, undefined while waiting on an earlier match
+type SlotState = string | null | undefined;
+
+// ==================== SINGLE ELIMINATION ====================
+
+/**
+ * Linked knockout bracket - bye winners are already through to round 2
+ */
+export function buildSingleEliminationBracket(
+  tournamentId: string,
+  entrants: readonly DrawEntrant[],
+  options: DrawOptions = {}
+): BracketMatch[] {
+  if (entrants.length < 2) throw new Error('A bracket needs at least 2 players');
+
+  const bracketSize = getBracketSize(entrants.length);
+  const matches: BracketMatch[] = [];
+
+  addWinnersBracket(matches, tournamentId, bracketSize);
+  resolveByes(matches, drawFirstRound(entrants, bracketSize, options));
+  return matches;
+}
+
+// ==================== DOUBLE ELIMINATION ====================
+
+/**
+ * Full double-elimination bracket
+ * Byes are resolved through both brackets, so every linked match gets
+ * two players
+ */
+export function buildDoubleEliminationBracket(
+  tournamentId: string,
+  entrants: readonly DrawEntrant[],
+  options: DoubleEliminationOptions = {}
+): BracketMatch[] {
+  if (entrants.length < 2) throw new Error('Double elimination needs at least 2 players');
+
+  const bracketSize = getBracketSize(entrants.length);
+  const winnersRounds = Math.log2(bracketSize);
+  const losersRounds = 2 * (winnersRounds - 1);
+  const matches: BracketMatch[] = [];
+
+  // Numbered winners bracket first, then losers, then the final, so every
+  // match is numbered after the matches that feed it
+  const winners = addWinnersBracket(matches, tournamentId, bracketSize, 'winners');
+
+  // Odd losers rounds play off among themselves, even rounds take the
+  // drop-downs from the next winners round
+  const losers: BracketMatch[][] = [];
+  for (let round = 1; round <= losersRounds; round++) {
+    const size = bracketSize / Math.pow(2, Math.ceil(round / 2) + 1);
+    losers.push(Array.from({ length: size }, () => addMatch(matches, tournamentId, round, 'losers')));
+  }
+
+  const grandFinal = addMatch(matches, tournamentId, 1, 'grand_final');
+  link(winners[winners.length - 1][0], 'winner', grandFinal, 1);
+
+  // Winners-bracket losers drop down
+  winners.forEach((round, r) => round.forEach((match, i) => {
+    if (losers.length === 0) {
+      link(match, 'loser', grandFinal, 2);
+    } else if (r === 0) {
+      link(match, 'loser', losers[0][Math.floor(i / 2)], slotFor(i));
+    } else {
+      link(match, 'loser', losers[2 * r - 1][dropIndex(i, round.length, r)], 2);
+    }
+  }));
+
+  // Losers bracket
+  losers.forEach((round, r) => round.forEach((match, i) => {
+    const nextRound = losers[r + 1];
+    if (!nextRound) {
+      link(match, 'winner', grandFinal, 2);
+    } else if (r % 2 === 0) {
+      link(match, 'winner', nextRound[i], 1);
+    } else {
+      link(match, 'winner', nextRound[Math.floor(i / 2)], slotFor(i));
+    }
+  }));
+
+  // Reset: only played when the losers-bracket champion (slot 2) wins
+  if (options.grandFinalReset ?? true) {
+    const reset = addMatch(matches, tournamentId, 2, 'grand_final');
+    link(grandFinal, 'winner', reset, 2);
+    link(grandFinal, 'loser', reset, 1);
+  }
+
+  resolveByes(matches, drawFirstRound(entrants, bracketSize, options));
+  return matches;
+}
+
+// ==================== SEEDING ====================
+
+/**
+ * Seed number for each line of a bracket, top to bottom
+ * Each first-round pair adds up to bracketSize + 1 (1 v 8, 4 v 5, 2 v 7, 3 v 6)
+ */
+export function getSeedPositions(bracketSize: number): number[] {
+  let positions = [1];
+  while (positions.length < bracketSize) {
+    const size = positions.length * 2;
+    positions = positions.flatMap(seed => [seed, size + 1 - seed]);
+  }
+  return positions;
+}
+
+/**
+ * Entrants best first: seeds in seed order, then everyone else at random
+ */
+export function getDrawOrder(entrants: readonly DrawEntrant[], random: RandomSource = defaultRandom): DrawEntrant[] {
+  const seeded = entrants
+    .filter(e => e.seed !== undefined)
+    .sort((a, b) => a.seed! - b.seed!);
+  return [...seeded, ...shuffle(entrants.filter(e => e.seed === undefined), random)];
+}
+
+/**
+ * First-round pairs for a draw
+ * Seeded players take their seed's line, in seed order (gaps close up).
+ * Unseeded players fill the next seed numbers in random order, and the
+ * seed numbers past the field are byes - so byes fall to the top seeds.
+ */
+export function drawFirstRound(
+  entrants: readonly DrawEntrant[],
+  bracketSize: number,
+  options: DrawOptions = {}
+): [string, string | null][] {
+  const bySeed = getDrawOrder(entrants, options.random);
+
+  const lines: (DrawEntrant | null)[] = getSeedPositions(bracketSize).map(seed => bySeed[seed - 1] ?? null);
+  if (options.separateClubs) separateClubs(lines);
+
+  const pairs: [string, string | null][] = [];
+  for (let i = 0; i < bracketSize; i += 2) {
+    const [top, bottom] = [lines[i], lines[i + 1]];
+    pairs.push(top ? [top.playerId, bottom?.playerId ?? null] : [bottom!.playerId, null]);
+  }
+  return pairs;
+}
+
+/**
+ * Swap unseeded players between lines while a swap makes clubmates meet
+ * later - the earlier a possible meeting, the more it costs
+ * Seeds and byes stay where they are
+ */
+function separateClubs(lines: (DrawEntrant | null)[]): void {
+  const rounds = Math.log2(lines.length);
+  const unseeded = lines
+    .map((entrant, line) => (entrant && entrant.seed === undefined ? line : -1))
+    .filter(line => line >= 0);
+
+  // Cost of a player sitting on a line: clubmates they could meet, weighted by how early
+  const cost = (entrant: DrawEntrant | null, line: number, ignore: number): number => {
+    if (!entrant?.clubId) return 0;
+    let total = 0;
+    lines.forEach((other, otherLine) => {
+      if (otherLine === line || otherLine === ignore || other?.clubId !== entrant.clubId) return;
+      total += Math.pow(2, rounds - meetingRound(line, otherLine));
+    });
+    return total;
+  };
+
+  for (let pass = 0, improved = true; improved && pass < rounds * 4; pass++) {
+    improved = false;
+    for (const a of unseeded) {
+      if (cost(lines[a], a, -1) === 0) continue;
+
+      for (const b of unseeded) {
+        if (a === b || lines[a]?.clubId === lines[b]?.clubId) continue;
+
+        const before = cost(lines[a], a, b) + cost(lines[b], b, a);
+        const after = cost(lines[a], b, a) + cost(lines[b], a, b);
+        if (after < before) {
+          [lines[a], lines[b]] = [lines[b], lines[a]];
+          improved = true;
+          break;
+        }
+      }
+    }
+  }
+}
+
+// Round in which the players on two lines would meet
+function meetingRound(lineA: number, lineB: number): number {
+  return Math.floor(Math.log2(lineA ^ lineB)) + 1;
+}
+
+// ==================== LAYOUT ====================
+
+/**
+ * Shift drawn matches (and their links) to start after the matches
+ * already in a tournament - for a stage drawn part way through
+ */
+export function offsetMatchNumbers(matches: readonly BracketMatch[], offset: number): BracketMatch[] {
+  const shift = (number?: number) => (number === undefined ? undefined : number + offset);
+
+  return matches.map(match => ({
+    ...match,
+    match_number: shift(match.match_number),
+    next_match_number: shift(match.next_match_number),
+    loser_next_match_number: shift(match.loser_next_match_number)
+  }));
+}
+
+function getBracketSize(playerCount: number): number {
+  return Math.pow(2, Math.ceil(Math.log2(playerCount)));
+}
+
+function addMatch(
+  matches: BracketMatch[],
+  tournamentId: string,
+  round: number,
+  bracket?: BracketSide
+): BracketMatch {
+  const match: BracketMatch = {
+    tournament_id: tournamentId,
+    bracket,
+    round,
+    match_number: matches.length + 1,
+    player1_legs: 0,
+    player2_legs: 0,
+    status: 'pending'
+  };
+  matches.push(match);
+  return match;
+}
+
+/**
+ * Knockout rounds, each match's winner linked to its slot in the next round
+ */
+function addWinnersBracket(
+  matches: BracketMatch[],
+  tournamentId: string,
+  bracketSize: number,
+  bracket?: BracketSide
+): BracketMatch[][] {
+  const rounds: BracketMatch[][] = [];
+  for (let round = 1; round <= Math.log2(bracketSize); round++) {
+    const size = bracketSize / Math.pow(2, round);
+    rounds.push(Array.from({ length: size }, () => addMatch(matches, tournamentId, round, bracket)));
+  }
+
+  rounds.forEach((round, r) => round.forEach((match, i) => {
+    const nextRound = rounds[r + 1];
+    if (nextRound) link(match, 'winner', nextRound[Math.floor(i / 2)], slotFor(i));
+  }));
+
+  return rounds;
+}
+
+// ==================== LINKS ====================
+
+function link(from: BracketMatch, side: 'winner' | 'loser', to: BracketMatch, slot: MatchSlot): void {
+  if (side === 'winner') {
+    from.next_match_number = to.match_number;
+    from.next_match_slot = slot;
+  } else {
+    from.loser_next_match_number = to.match_number;
+    from.loser_next_match_slot = slot;
+  }
+}
+
+function unlink(from: BracketMatch, side: 'winner' | 'loser'): void {
+  if (side === 'winner') {
+    delete from.next_match_number;
+    delete from.next_match_slot;
+  } else {
+    delete from.loser_next_match_number;
+    delete from.loser_next_match_slot;
+  }
+}
+
+function slotFor(index: number): MatchSlot {
+  return index % 2 === 0 ? 1 : 2;
+}
+
+/**
+ * Where a winners-bracket loser drops into its losers round
+ * Alternately reversed and half-swapped, so a dropped player meets the
+ * far side of the draw rather than the section they came through
+ */
+function dropIndex(index: number, size: number, drop: number): number {
+  return drop % 2 === 1 ? size - 1 - index : (index + Math.floor(size / 2)) % size;
+}
+
+// ==================== BYES ====================
+
+/**
+ * Fill the draw and settle every match a bye decides
+ * A match with one player and one empty slot is a bye for that player.
+ * A match still waiting on one side but empty on the other is skipped:
+ * whoever would have reached it is sent straight on to its next match.
+ */
+function resolveByes(matches: BracketMatch[], firstRound: [string, string | null][]): void {
+  const byNumber = new Map(matches.map(m => [m.match_number!, m]));
+  const slots = new Map<BracketMatch, [SlotState, SlotState]>(matches.map(m => [m, [undefined, undefined]]));
+  firstRound.forEach((pair, i) => slots.set(matches[i], [...pair]));
+
+  const send = (from: BracketMatch, side: 'winner' | 'loser', state: string | null) => {
+    const number = side === 'winner' ? from.next_match_number : from.loser_next_match_number;
+    const slot = side === 'winner' ? from.next_match_slot : from.loser_next_match_slot;
+    if (number === undefined || slot === undefined) return;
+
+    slots.get(byNumber.get(number)!)![slot - 1] = state;
+    if (state === null) unlink(from, side);
+  };
+
+  const feedersOf = (match: BracketMatch, slot: MatchSlot) => {
+    const feeders: [BracketMatch, 'winner' | 'loser'][] = [];
+    for (const m of matches) {
+      if (m.next_match_number === match.match_number && m.next_match_slot === slot) feeders.push([m, 'winner']);
+      if (m.loser_next_match_number === match.match_number && m.loser_next_match_slot === slot) feeders.push([m, 'loser']);
+    }
+    return feeders;
+  };
+
+  for (const match of matches) {
+    const [player1, player2] = slots.get(match)!;
+    match.player1_id = player1 ?? undefined;
+    match.player2_id = player2 ?? undefined;
+
+    if (player1 && player2) {
+      match.status = 'ready';
+      continue;
+    }
+    if (player1 !== null && player2 !== null) continue;
+
+    // At least one slot will never be filled
+    match.status = 'bye';
+    send(match, 'loser', null);
+
+    const waiting: MatchSlot | null = player1 === undefined ? 1 : player2 === undefined ? 2 : null;
+    if (waiting) {
+      // Route the player on their way here past this match
+      for (const [feeder, side] of feedersOf(match, waiting)) {
+        link(feeder, side, byNumber.get(match.next_match_number!)!, match.next_match_slot!);
+      }
+      unlink(match, 'winner');
+      continue;
+    }
+
+    const winner = player1 ?? player2 ?? null;
+    match.winner_id = winner ?? undefined;
+    send(match, 'winner', winner);
+  }
+}
+
+export default buildDoubleEliminationBracket;
@@ -5,6 +5,12 @@
  */
 
 import React from 'react';
+import { calculateFirst9Average, type PlayerState } from '../scoring/scoringEngine';
+import type { MatchLog } from '../scoring/matchLog';
+import type { InOutRule } from '../types';
+import { MatchEventService } from './matchEventService';
+import { StatisticsService } from './statisticsService';
+import { getBroadcastSituation, predictWinProbability, type PlayerProfile } from '../analytics/winPredictor';
 
 // ==================== TYPES ====================
 
@@ -39,6 +45,7 @@ export interface BroadcastMatchState {
   player2: BroadcastPlayer;
   
   currentThrower: 1 | 2;
+  legStarter?: 1 | 2;          // Threw first in the current leg
   
   legs: { player1: number; player2: number };
   sets?: { player1: number; player2: number };
@@ -47,13 +54,22 @@ export interface BroadcastMatchState {
   targetSets?: number;
   matchType: 'first_to' | 'best_of';
   startingScore: number;
+  outRule?: InOutRule;         // Default 'double'
   
   status: 'waiting' | 'in_progress' | 'completed';
   winner?: 1 | 2;
   
+  winProbability?: { player1: number; player2: number };  // 0-1, X01 only
+  
   lastUpdate: string;
 }
 
+export interface BroadcastOptions {
+  winProbabilitySimulations?: number;   // Per live update, default 200 (at most 1000)
+  winProbabilityBudgetMs?: number;      // Time a live update may simulate for, default 100
+  updateDelayMs?: number;               // Realtime changes are batched this long, default 250
+}
+
 export interface BroadcastPlayer {
   id: string;
   name: string;
@@ -95,18 +111,49 @@ export type WidgetType =
   | 'match_stats'
   | 'last_throw'
   | 'checkout_suggestion'
+  | 'win_probability'
   | 'leaderboard'
   | 'schedule'
   | 'commentator_booth';
 
+// Simulations per live win probability update - the time budget usually
+// stops it first on a slow client
+const WIN_PROBABILITY_SIMULATIONS = 200;
+const MAX_WIN_PROBABILITY_SIMULATIONS = 1000;
+const WIN_PROBABILITY_BUDGET_MS = 100;
+
+// Matches whose profiles and last probability are kept
+const MAX_CACHED_MATCHES = 50;
+
+// Realtime changes within this window give one update
+const UPDATE_DELAY_MS = 250;
+
 // ==================== BROADCAST SERVICE ====================
 
 export class BroadcastService {
   private db: any;
+  private events: MatchEventService;
+  private stats: StatisticsService;
   private realtimeChannels: Map<string, any> = new Map();
+  private simulations: number;
+  private budgetMs: number;
+  private updateDelayMs: number;
+
+  // Per match: both players' profiles, and the last probability with the
+  // match version (event seq, or row update time) it was simulated at
+  private profiles: Map<string, Promise<[PlayerProfile, PlayerProfile]>> = new Map();
+  private winProbabilities: Map<string, { version: string; value: { player1: number; player2: number } }> = new Map();
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: BroadcastOptions = {}) {
     this.db = dbClient;
+    this.events = new MatchEventService(dbClient);
+    this.stats = new StatisticsService(dbClient);
+    this.simulations = Math.min(
+      options.winProbabilitySimulations ?? WIN_PROBABILITY_SIMULATIONS,
+      MAX_WIN_PROBABILITY_SIMULATIONS
+    );
+    this.budgetMs = options.winProbabilityBudgetMs ?? WIN_PROBABILITY_BUDGET_MS;
+    this.updateDelayMs = options.updateDelayMs ?? UPDATE_DELAY_MS;
   }
 
   // ---- Match State ----
@@ -124,7 +171,124 @@ export class BroadcastService {
 
     if (error || !match) return null;
 
-    return this.formatMatchState(match);
+    // Scores come from the event log when the match has one
+    const state = this.formatMatchState(match);
+    const log = await this.events.loadLog(matchId);
+    const live = log ? this.applyMatchLog(state, log) : state;
+
+    if (match.game_mode && match.game_mode !== 'x01') return live;
+    const version = log ? `seq:${log.getLastSeq()}` : `row:${live.lastUpdate}`;
+    return this.withWinProbability(live, version);
+  }
+
+  /**
+   * Add live win probability, simulated from each player's career profile
+   * With a version (e.g. the last event seq) it is only simulated once per version
+   * Simulation stops at the time budget, so an update never holds up the overlay for long
+   */
+  async withWinProbability(state: BroadcastMatchState, version?: string): Promise<BroadcastMatchState> {
+    if (state.status === 'completed') {
+      this.forgetMatch(state.matchId);
+      return {
+        ...state,
+        winProbability: state.winner
+          ? { player1: state.winner === 1 ? 1 : 0, player2: state.winner === 2 ? 1 : 0 }
+          : undefined
+      };
+    }
+
+    const cached = this.winProbabilities.get(state.matchId);
+    if (version && cached?.version === version) {
+      return { ...state, winProbability: cached.value };
+    }
+
+    const profiles = await this.getProfiles(state);
+    const { player1, player2 } = predictWinProbability(
+      getBroadcastSituation(state),
+      profiles,
+      { simulations: this.simulations, timeBudgetMs: this.budgetMs }
+    );
+
+    if (version) setBounded(this.winProbabilities, state.matchId, { version, value: { player1, player2 } });
+    return { ...state, winProbability: { player1, player2 } };
+  }
+
+  private getProfiles(state: BroadcastMatchState): Promise<[PlayerProfile, PlayerProfile]> {
+    let profiles = this.profiles.get(state.matchId);
+    if (!profiles) {
+      profiles = Promise.all([
+        this.stats.getPlayerProfile(state.player1.id),
+        this.stats.getPlayerProfile(state.player2.id)
+      ]);
+      profiles.catch(() => this.profiles.delete(state.matchId));
+      setBounded(this.profiles, state.matchId, profiles);
+    }
+    return profiles;
+  }
+
+  private forgetMatch(matchId: string): void {
+    this.profiles.delete(matchId);
+    this.winProbabilities.delete(matchId);
+  }
+
+  /**
+   * Overlay scores and stats replayed from a match log
+   * (names, avatars etc. still come from the match row)
+   */
+  applyMatchLog(state: BroadcastMatchState, log: MatchLog): BroadcastMatchState {
+    const controller = log.getController();
+    const engine = controller.getEngine();
+    const { startingScore } = engine.getConfig();
+    const replayed = log.getState();
+    const [p1, p2] = replayed.players;
+    const events = log.getEvents();
+
+    // Walk the live visits for checkout attempts and last throws
+    const remaining = replayed.players.map(() => startingScore);
+    const checkouts = replayed.players.map(() => ({ hit: 0, attempts: 0, lastThrow: undefined as number | undefined }));
+
+    for (const visit of controller.getVisits()) {
+      const i = visit.playerIndex;
+      const before = remaining[i];
+      if (engine.isPossibleCheckout(before)) checkouts[i].attempts++;
+      checkouts[i].lastThrow = visit.result.isBust ? 0 : before - visit.result.newScore;
+
+      if (visit.result.isLegWon) {
+        checkouts[i].hit++;
+        remaining.fill(startingScore);
+      } else {
+        remaining[i] = visit.result.newScore;
+      }
+    }
+
+    const formatPlayer = (base: BroadcastPlayer, player: PlayerState, i: number): BroadcastPlayer => ({
+      ...base,
+      score: player.score,
+      average: player.stats.average,
+      first9Average: calculateFirst9Average(player.matchHistory),
+      scores_180: player.stats.scores_180,
+      scores_140_plus: player.stats.scores_140_plus + player.stats.scores_170_plus,
+      scores_100_plus: player.stats.scores_100_plus,
+      checkouts_hit: checkouts[i].hit,
+      checkout_attempts: checkouts[i].attempts,
+      highest_checkout: player.stats.highest_checkout || 0,
+      best_leg: player.stats.best_leg,
+      lastThrow: checkouts[i].lastThrow
+    });
+
+    return {
+      ...state,
+      ...engine.getScoreline(p1, p2),
+      player1: formatPlayer(state.player1, p1, 0),
+      player2: formatPlayer(state.player2, p2, 1),
+      currentThrower: replayed.currentPlayerIndex === 0 ? 1 : 2,
+      legStarter: replayed.legStarterIndex === 0 ? 1 : 2,
+      startingScore,
+      outRule: engine.getRules().outRule,
+      status: replayed.isComplete ? 'completed' : events.length > 1 ? 'in_progress' : 'waiting',
+      winner: replayed.winnerIndex === 0 ? 1 : replayed.winnerIndex === 1 ? 2 : undefined,
+      lastUpdate: events[events.length - 1].at
+    };
   }
 
   private formatMatchState(match: any): BroadcastMatchState {
@@ -194,7 +358,24 @@ export class BroadcastService {
 
   // ---- Realtime Subscriptions ----
 
+  /**
+   * Push match state on score changes. A visit touches both the match row
+   * and the event log, so changes are batched into one update.
+   */
   subscribeToMatch(matchId: string, onUpdate: (state: BroadcastMatchState) => void): () => void {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const scheduleUpdate = () => {
+      clearTimeout(timer);
+      timer = setTimeout(async () => {
+        try {
+          const state = await this.getMatchState(matchId);
+          if (state) onUpdate(state);
+        } catch (error) {
+          console.error('Failed to update broadcast match state:', error);
+        }
+      }, this.updateDelayMs);
+    };
+
     const channel = this.db
       .channel(`broadcast:${matchId}`)
       .on('postgres_changes', {
@@ -202,17 +383,22 @@ export class BroadcastService {
         schema: 'public',
         table: 'matches',
         filter: `id=eq.${matchId}`
-      }, async () => {
-        const state = await this.getMatchState(matchId);
-        if (state) onUpdate(state);
-      })
+      }, scheduleUpdate)
+      .on('postgres_changes', {
+        event: 'INSERT',
+        schema: 'public',
+        table: 'match_events',
+        filter: `match_id=eq.${matchId}`
+      }, scheduleUpdate)
       .subscribe();
 
     this.realtimeChannels.set(matchId, channel);
 
     return () => {
+      clearTimeout(timer);
       channel.unsubscribe();
       this.realtimeChannels.delete(matchId);
+      this.forgetMatch(matchId);
     };
   }
 
@@ -250,6 +436,7 @@ export class BroadcastService {
       match_stats: { type: 'match_stats', width: 400, height: 300, fps: 5 },
       last_throw: { type: 'last_throw', width: 200, height: 100, fps: 30 },
       checkout_suggestion: { type: 'checkout_suggestion', width: 250, height: 80, fps: 10 },
+      win_probability: { type: 'win_probability', width: 400, height: 80, fps: 10 },
       leaderboard: { type: 'leaderboard', width: 740, height: 510, fps: 1 },
       schedule: { type: 'schedule', width: 400, height: 600, fps: 1 },
       commentator_booth: { type: 'commentator_booth', width: 1280, height: 200, fps: 30 }
@@ -259,6 +446,13 @@ export class BroadcastService {
   }
 }
 
+// Map insertion order is age - drop the oldest entry once over the limit
+function setBounded<V>(map: Map<string, V>, key: string, value: V): void {
+  map.delete(key);
+  map.set(key, value);
+  if (map.size > MAX_CACHED_MATCHES) map.delete(map.keys().next().value as string);
+}
+
 // ==================== REACT BROADCAST COMPONENTS ====================
 
 // Horizontal Scoreboard (Bottom of screen)
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import {
+  assignGroups,
+  buildGroupStage,
+  getGroupCount,
+  getGroupStandings,
+  getGroupsFromMatches,
+  getKnockoutQualifiers,
+  type GroupStanding
+} from './groups';
+import type { BracketMatch, DrawEntrant } from './brackets';
+
+const ranked = (count: number): DrawEntrant[] =>
+  Array.from({ length: count }, (_, i) => ({ playerId: `p${i + 1}`, seed: i + 1 }));
+
+// A completed group match - player1 wins unless the legs say otherwise
+const result = (player1: string, player2: string, legs: [number, number], average?: [number, number]): BracketMatch => ({
+  stage: 'group',
+  group_number: 1,
+  player1_id: player1,
+  player2_id: player2,
+  player1_legs: legs[0],
+  player2_legs: legs[1],
+  winner_id: legs[0] > legs[1] ? player1 : player2,
+  status: 'completed',
+  stats: average ? { player1: { average: average[0] }, player2: { average: average[1] } } : undefined
+});
+
+const order = (standings: GroupStanding[][]) => standings.map(group => group.map(s => s.player_id));
+
+describe('assignGroups', () => {
+  it('defaults to groups of about four', () => {
+    expect(getGroupCount(8)).toBe(2);
+    expect(getGroupCount(10)).toBe(3);
+    expect(getGroupCount(3)).toBe(1);
+  });
+
+  it('fills groups in snake order', () => {
+    expect(assignGroups(ranked(8), 2)).toEqual([['p1', 'p4', 'p5', 'p8'], ['p2', 'p3', 'p6', 'p7']]);
+  });
+
+  it('keeps group sizes within one of each other', () => {
+    const sizes = assignGroups(ranked(11), 3).map(g => g.length);
+    expect(Math.max(...sizes) - Math.min(...sizes)).toBeLessThanOrEqual(1);
+  });
+
+  it('never makes a group of one', () => {
+    expect(assignGroups(ranked(5), 4)).toHaveLength(2);
+  });
+});
+
+describe('buildGroupStage', () => {
+  it('plays a round robin in each group', () => {
+    const groups = assignGroups(ranked(8), 2);
+    const matches = buildGroupStage('t', groups);
+
+    expect(matches).toHaveLength(12);
+    groups.forEach((group, g) => {
+      const pairs = matches
+        .filter(m => m.group_number === g + 1)
+        .map(m => [m.player1_id, m.player2_id].sort().join('-'));
+      expect(new Set(pairs).size).toBe(6);
+      expect(pairs.every(pair => pair.split('-').every(id => group.includes(id)))).toBe(true);
+    });
+  });
+
+  it('shares boards across the groups in a round', () => {
+    const matches = buildGroupStage('t', assignGroups(ranked(8), 2), { boards: 4 });
+    const firstRound = matches.filter(m => m.round === 1).map(m => m.board_number);
+
+    expect(firstRound.sort()).toEqual([1, 2, 3, 4]);
+  });
+
+  it('reads the groups back from the matches', () => {
+    const groups = assignGroups(ranked(8), 2);
+    const fromMatches = getGroupsFromMatches(buildGroupStage('t', groups));
+
+    expect(fromMatches.map(g => [...g].sort())).toEqual(groups.map(g => [...g].sort()));
+  });
+});
+
+describe('getGroupStandings', () => {
+  const group = [['a', 'b', 'c', 'd']];
+
+  it('ranks by points, then leg difference', () => {
+    const matches = [
+      result('a', 'b', [3, 0]),
+      result('c', 'd', [3, 2]),
+      result('a', 'c', [1, 3]),
+      result('b', 'd', [3, 1])
+    ];
+    const [table] = getGroupStandings(group, matches);
+
+    expect(table.map(s => s.player_id)).toEqual(['c', 'a', 'b', 'd']);
+    expect(table[1]).toMatchObject({ points: 2, won: 1, lost: 1, leg_difference: 1, position: 2 });
+  });
+
+  it('breaks a tie on head-to-head', () => {
+    // Everyone on one win; a and b are level on legs too, and b won their meeting
+    const matches = [
+      result('a', 'b', [2, 3]),
+      result('a', 'c', [3, 2]),
+      result('b', 'd', [2, 3]),
+      result('c', 'd', [3, 0])
+    ];
+    expect(order(getGroupStandings(group, matches, ['points', 'leg_difference', 'head_to_head'])))
+      .toEqual([['c', 'b', 'a', 'd']]);
+  });
+
+  it('breaks a tie on average', () => {
+    const matches = [result('a', 'c', [3, 1], [88.5, 70]), result('b', 'd', [3, 1], [95.2, 80])];
+    expect(order(getGroupStandings(group, matches, ['points', 'average']))[0].slice(0, 2)).toEqual(['b', 'a']);
+  });
+
+  it('follows the tiebreak order given', () => {
+    const matches = [result('a', 'c', [3, 0], [60, 70]), result('b', 'd', [3, 2], [90, 80])];
+
+    expect(order(getGroupStandings(group, matches, ['points', 'leg_difference']))[0][0]).toBe('a');
+    expect(order(getGroupStandings(group, matches, ['points', 'average']))[0][0]).toBe('b');
+  });
+
+  it('only counts completed group matches', () => {
+    const matches = [result('a', 'b', [3, 0]), { ...result('c', 'd', [0, 0]), status: 'ready' as const }];
+    const [table] = getGroupStandings(group, matches);
+
+    expect(table.find(s => s.player_id === 'c')!.played).toBe(0);
+  });
+});
+
+describe('getKnockoutQualifiers', () => {
+  const tables = (groups: string[][]) =>
+    getGroupStandings(groups, []).map(table => table.map((s, i) => ({ ...s, position: i + 1 })));
+
+  it('crosses group winners over to another group\'s runner-up', () => {
+    const qualifiers = getKnockoutQualifiers(tables([['a1', 'a2', 'a3'], ['b1', 'b2', 'b3']]), 2);
+
+    // Seeds 1 v 4 and 2 v 3 in a bracket of four
+    expect(qualifiers.map(q => q.playerId)).toEqual(['a1', 'b1', 'a2', 'b2']);
+    expect(qualifiers.map(q => q.seed)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('keeps groupmates apart in the first round with an odd number of groups', () => {
+    const qualifiers = getKnockoutQualifiers(tables([['a1', 'a2'], ['b1', 'b2'], ['c1', 'c2']]), 2);
+    const bySeed = new Map(qualifiers.map(q => [q.seed!, q.playerId]));
+
+    // First-round pairs in a bracket of eight add up to nine; seeds 7 and 8 are byes
+    for (let seed = 1; seed <= 4; seed++) {
+      const [top, bottom] = [bySeed.get(seed)!, bySeed.get(9 - seed)];
+      if (bottom) expect(bottom[0]).not.toBe(top[0]);
+    }
+    expect(bySeed.size).toBe(6);
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Group Stage
+ * Splits a field into balanced groups, plays a round robin in each, and
+ * ranks the group tables for the knockout that follows
+ *
+ * Groups are filled in snake order (1-2-3-4, 4-3-2-1, ...), so each group
+ * gets one player from every pot of seeds. Qualifiers are seeded into the
+ * knockout by finishing place, crossed over so that group winners meet
+ * another group's qualifier in the first round (A1 v B2, B1 v A2).
+ */
+
+import type { TournamentMatch } from './tournamentService';
+import type { BracketMatch, DrawEntrant } from './brackets';
+import { rankByTiebreaks } from './tiebreaks';
+import {
+  type RoundRobinOptions,
+  getBoardNumber,
+  scheduleRoundRobin
+} from './roundRobin';
+
+// ==================== TYPES ====================
+
+export type GroupTiebreak =
+  | 'points'
+  | 'leg_difference'
+  | 'legs_for'
+  | 'head_to_head'      // Points in matches between the tied players
+  | 'average';          // Mean of the match averages recorded in stats
+
+export interface GroupStanding {
+  group_number: number;
+  player_id: string;
+  position: number;
+  played: number;
+  won: number;
+  lost: number;
+  points: number;
+  legs_for: number;
+  legs_against: number;
+  leg_difference: number;
+  average?: number;
+}
+
+// ==================== CONSTANTS ====================
+
+export const GROUP_POINTS = Object.freeze({
+  win: 2,
+  loss: 0
+});
+
+export const DEFAULT_GROUP_TIEBREAKS: readonly GroupTiebreak[] = Object.freeze([
+  'points',
+  'leg_difference',
+  'head_to_head',
+  'average'
+]);
+
+// Default group size when no group count is set
+const DEFAULT_GROUP_SIZE = 4;
+
+// ==================== DRAW ====================
+
+/**
+ * Default number of groups - groups of about four
+ */
+export function getGroupCount(playerCount: number): number {
+  return Math.max(1, Math.round(playerCount / DEFAULT_GROUP_SIZE));
+}
+
+/**
+ * Split players (best first) into groups in snake order
+ * Group sizes differ by at most one
+ */
+export function assignGroups(ranked: readonly DrawEntrant[], groupCount: number): string[][] {
+  const count = Math.max(1, Math.min(groupCount, Math.floor(ranked.length / 2)));
+  const groups: string[][] = Array.from({ length: count }, () => []);
+
+  ranked.forEach((entrant, i) => {
+    const pot = Math.floor(i / count);
+    const index = i % count;
+    groups[pot % 2 === 0 ? index : count - 1 - index].push(entrant.playerId);
+  });
+
+  return groups;
+}
+
+/**
+ * Round-robin matches for every group, round by round across groups
+ * Boards are shared out across all the groups' matches in a round
+ */
+export function buildGroupStage(
+  tournamentId: string,
+  groups: readonly string[][],
+  options: RoundRobinOptions = {}
+): BracketMatch[] {
+  const schedules = groups.map(group => scheduleRoundRobin(group, { meetings: options.meetings }));
+  const rounds = Math.max(...schedules.map(s => s.length));
+  const matches: BracketMatch[] = [];
+
+  for (let round = 0; round < rounds; round++) {
+    let index = 0;
+    schedules.forEach((schedule, g) => {
+      for (const fixture of schedule[round]?.fixtures ?? []) {
+        matches.push({
+          tournament_id: tournamentId,
+          stage: 'group',
+          group_number: g + 1,
+          round: round + 1,
+          match_number: matches.length + 1,
+          player1_id: fixture.home,
+          player2_id: fixture.away,
+          board_number: options.boards ? getBoardNumber(index++, round + 1, options.boards) : undefined,
+          player1_legs: 0,
+          player2_legs: 0,
+          status: 'ready'
+        });
+      }
+    });
+  }
+
+  return matches;
+}
+
+// ==================== STANDINGS ====================
+
+/**
+ * Ranked table for each group
+ * Each tiebreak only splits players still level on the ones before it;
+ * players level on all of them keep their order in the group
+ */
+export function getGroupStandings(
+  groups: readonly string[][],
+  matches: readonly Partial<TournamentMatch>[],
+  tiebreaks: readonly GroupTiebreak[] = DEFAULT_GROUP_TIEBREAKS
+): GroupStanding[][] {
+  const played = matches.filter(m => m.stage === 'group' && m.status === 'completed');
+
+  return groups.map((group, g) => {
+    const groupMatches = played.filter(m => m.group_number === g + 1);
+    const table = group.map(playerId => getRecord(g + 1, playerId, groupMatches));
+    const ranked = rankByTiebreaks(table, tiebreaks, (tiebreak, tied) => getTiebreakValue(tiebreak, tied, groupMatches));
+    ranked.forEach((s, i) => { s.position = i + 1; });
+    return ranked;
+  });
+}
+
+/**
+ * Knockout entrants from the group tables, seeded by finishing place
+ * Each pot of finishers is ordered against the pot it meets, so
+ * qualifiers from the same group don't meet in the first round
+ */
+export function getKnockoutQualifiers(standings: readonly GroupStanding[][], perGroup: number): DrawEntrant[] {
+  const groupCount = standings.length;
+  const partner = (g: number) => (groupCount % 2 === 0 ? g ^ 1 : (g + 1) % groupCount);
+  const qualifiers: DrawEntrant[] = [];
+
+  for (let pot = 0; pot < perGroup; pot++) {
+    for (let j = 0; j < groupCount; j++) {
+      // Odd pots mirror the pot above them in the seed order - cross them over
+      const group = pot % 2 === 0 ? j : partner(groupCount - 1 - j);
+      const standing = standings[group][pot];
+      if (standing) qualifiers.push({ playerId: standing.player_id, seed: qualifiers.length + 1 });
+    }
+  }
+
+  return qualifiers;
+}
+
+/**
+ * Group line-ups from the group-stage matches, in order of first appearance
+ */
+export function getGroupsFromMatches(matches: readonly Partial<TournamentMatch>[]): string[][] {
+  const groups: string[][] = [];
+  const ordered = [...matches]
+    .filter(m => m.stage === 'group' && m.group_number)
+    .sort((a, b) => (a.match_number ?? 0) - (b.match_number ?? 0));
+
+  for (const match of ordered) {
+    const group = (groups[match.group_number! - 1] ??= []);
+    for (const playerId of [match.player1_id, match.player2_id]) {
+      if (playerId && !group.includes(playerId)) group.push(playerId);
+    }
+  }
+  return Array.from(groups, group => group ?? []);
+}
+
+function getRecord(groupNumber: number, playerId: string, matches: readonly Partial<TournamentMatch>[]): GroupStanding {
+  const record: GroupStanding = {
+    group_number: groupNumber,
+    player_id: playerId,
+    position: 0,
+    played: 0,
+    won: 0,
+    lost: 0,
+    points: 0,
+    legs_for: 0,
+    legs_against: 0,
+    leg_difference: 0
+  };
+  const averages: number[] = [];
+
+  for (const match of matches) {
+    const side = match.player1_id === playerId ? 'player1' : match.player2_id === playerId ? 'player2' : null;
+    if (!side) continue;
+
+    const legsFor = (side === 'player1' ? match.player1_legs : match.player2_legs) ?? 0;
+    const legsAgainst = (side === 'player1' ? match.player2_legs : match.player1_legs) ?? 0;
+    const won = match.winner_id === playerId;
+
+    record.played++;
+    record.won += won ? 1 : 0;
+    record.lost += won ? 0 : 1;
+    record.points += won ? GROUP_POINTS.win : GROUP_POINTS.loss;
+    record.legs_for += legsFor;
+    record.legs_against += legsAgainst;
+
+    const average = match.stats?.[side]?.average;
+    if (typeof average === 'number') averages.push(average);
+  }
+
+  record.leg_difference = record.legs_for - record.legs_against;
+  if (averages.length > 0) {
+    record.average = Math.round((averages.reduce((sum, a) => sum + a, 0) / averages.length) * 100) / 100;
+  }
+  return record;
+}
+
+function getTiebreakValue(
+  tiebreak: GroupTiebreak,
+  tied: readonly GroupStanding[],
+  matches: readonly Partial<TournamentMatch>[]
+): (standing: GroupStanding) => number {
+  switch (tiebreak) {
+    case 'points':
+      return s => s.points;
+    case 'leg_difference':
+      return s => s.leg_difference;
+    case 'legs_for':
+      return s => s.legs_for;
+    case 'average':
+      return s => s.average ?? 0;
+    case 'head_to_head': {
+      const ids = new Set(tied.map(s => s.player_id));
+      const points = new Map<string, number>();
+      for (const match of matches) {
+        if (!ids.has(match.player1_id!) || !ids.has(match.player2_id!) || !match.winner_id) continue;
+        points.set(match.winner_id, (points.get(match.winner_id) ?? 0) + GROUP_POINTS.win);
+      }
+      return s => points.get(s.player_id) ?? 0;
+    }
+  }
+}
+
+export default buildGroupStage;
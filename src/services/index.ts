@@ -7,17 +7,112 @@
 export {
   TournamentService,
   LeagueService,
+  resolveMatchSettings,
+  isX01Settings,
+  type MatchSettings,
   type Tournament,
   type TournamentFormat,
   type TournamentStatus,
+  type SeedingMode,
   type TournamentRegistration,
   type TournamentMatch,
+  type BracketSide,
+  type TournamentStage,
+  type MatchSlot,
   type League,
   type LeagueType,
   type LeagueStanding,
   type LeagueMatch
 } from './tournamentService';
 
+// Bracket Builder
+export {
+  buildSingleEliminationBracket,
+  buildDoubleEliminationBracket,
+  drawFirstRound,
+  getSeedPositions,
+  getDrawOrder,
+  offsetMatchNumbers,
+  type BracketMatch,
+  type DrawEntrant,
+  type DrawOptions,
+  type DoubleEliminationOptions
+} from './brackets';
+
+// Swiss System
+export {
+  pairSwissRound,
+  getSwissStandings,
+  getSwissRoundCount,
+  SWISS_POINTS,
+  type SwissStanding
+} from './swiss';
+
+// Group Stage
+export {
+  assignGroups,
+  buildGroupStage,
+  getGroupCount,
+  getGroupStandings,
+  getGroupsFromMatches,
+  getKnockoutQualifiers,
+  GROUP_POINTS,
+  DEFAULT_GROUP_TIEBREAKS,
+  type GroupTiebreak,
+  type GroupStanding
+} from './groups';
+
+// Round Robin
+export {
+  scheduleRoundRobin,
+  buildRoundRobinMatches,
+  getBoardNumber,
+  type RoundRobinOptions,
+  type RoundRobinFixture,
+  type RoundRobinRound
+} from './roundRobin';
+
+// Tiebreaks
+export {
+  rankByTiebreaks,
+  type TiebreakValue
+} from './tiebreaks';
+
+// League Fixtures
+export {
+  scheduleSeason,
+  scheduleJoiner,
+  findFixtureWeek,
+  getSeasonWeekCount,
+  getWeekDate,
+  getNextWeek,
+  type SeasonOptions,
+  type LeagueFixture
+} from './leagueFixtures';
+
+// League Standings
+export {
+  getLeagueStandings,
+  getMatchPoints,
+  getBonusPoints,
+  getEntrantId,
+  getMatchEntrants,
+  DEFAULT_LEAGUE_TIEBREAKS,
+  type LeagueTiebreak,
+  type LeagueBonusPoints,
+  type LeagueDeduction,
+  type LeagueScoring
+} from './leagueStandings';
+
+// League Divisions
+export {
+  planDivisionMovements,
+  getSeasonSettings,
+  type DivisionTable,
+  type DivisionMove,
+  type SeasonPlan
+} from './leagueDivisions';
+
 // Statistics Service
 export {
   StatisticsService,
@@ -25,6 +120,8 @@ export {
   type PlayerLifetimeStats,
   type FormatStats,
   type CricketStats,
+  type CricketMatchStatistics,
+  type PracticeBest,
   type MatchStatistics,
   type Ranking,
   type Achievement,
@@ -50,9 +147,24 @@ export {
   type SMSTemplate,
   type SMSProvider,
   type Team,
-  type DoublesMatch
+  type DoublesMatch,
+  type TeamFixture,
+  type TeamRubber
 } from './smsTeamsService';
 
+// Team Fixtures
+export {
+  validateLineUp,
+  getTeamMembers,
+  getRubberSize,
+  getRubberWinner,
+  getTeamResult,
+  DEFAULT_RUNNING_ORDER,
+  type RubberType,
+  type RubberFormat,
+  type TeamResult
+} from './teamFixtures';
+
 // Kiosk & Venue Service
 export {
   KioskService,
@@ -66,6 +178,15 @@ export {
   type KioskState
 } from './kioskVenueService';
 
+// Match Event Store
+export {
+  MatchEventService,
+  MATCH_EVENTS_SCHEMA,
+  toEventRow,
+  fromEventRow,
+  type MatchEventRow
+} from './matchEventService';
+
 // Broadcast Service
 export {
   BroadcastService,
@@ -3,6 +3,10 @@
  * Public tablet scoring, venue management like Darts Atlas
  */
 
+import { resolveGameSettings } from '../scoring/gameModes';
+import { generateSlug } from '../constants';
+import { type RandomSource, defaultRandom, randomInt } from '../utils/random';
+
 // ==================== TYPES ====================
 
 export interface Venue {
@@ -115,9 +119,11 @@ export interface ScoreCode {
 
 export class KioskService {
   private db: any;
+  private random: RandomSource;
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.random = options.random ?? defaultRandom;
   }
 
   // ---- Board Management ----
@@ -248,7 +254,7 @@ export class KioskService {
     const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
     let code = '';
     for (let i = 0; i < length; i++) {
-      code += chars.charAt(Math.floor(Math.random() * chars.length));
+      code += chars.charAt(randomInt(chars.length, this.random));
     }
     return code;
   }
@@ -306,7 +312,14 @@ export class KioskService {
     startingScore: number;
     legsToWin: number;
     matchType: 'first_to' | 'best_of';
+    gameMode?: string;
+    gameConfig?: Record<string, unknown>;
   }): Promise<{ matchId: string; scoreCode: string }> {
+    const { mode, config } = resolveGameSettings(
+      { game_mode: settings.gameMode, game_config: settings.gameConfig },
+      { startingScore: settings.startingScore, matchType: 'first_to', targetLegs: settings.legsToWin }
+    );
+
     // Create match
     const { data: match, error } = await this.db
       .from('matches')
@@ -318,6 +331,8 @@ export class KioskService {
         starting_score: settings.startingScore,
         legs_to_win: settings.legsToWin,
         match_type: settings.matchType,
+        game_mode: mode.id,
+        game_config: config,
         status: 'in_progress',
         source: 'kiosk',
         created_at: new Date().toISOString()
@@ -341,9 +356,11 @@ export class KioskService {
 
 export class VenueService {
   private db: any;
+  private random: RandomSource;
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.random = options.random ?? defaultRandom;
   }
 
   // ---- Venue CRUD ----
@@ -485,11 +502,7 @@ export class VenueService {
   }
 
   private generateSlug(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
-      + '-' + Math.random().toString(36).substring(2, 6);
+    return generateSlug(name, this.random);
   }
 }
 
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { getSeasonSettings, planDivisionMovements, type DivisionTable } from './leagueDivisions';
+import type { League, LeagueStanding } from './tournamentService';
+
+// Final table with players finishing in the order given
+const table = (division: number, players: string[], places: Partial<DivisionTable> = {}): DivisionTable => ({
+  division,
+  promotion_places: 2,
+  relegation_places: 2,
+  ...places,
+  standings: players.map((playerId, i) => ({ player_id: playerId, position: i + 1 }) as LeagueStanding)
+});
+
+const lineUps = (tables: DivisionTable[]) =>
+  planDivisionMovements(tables).divisions.map(d => d.player_ids);
+
+describe('planDivisionMovements', () => {
+  it('swaps the bottom of each division with the top of the one below', () => {
+    const plan = planDivisionMovements([
+      table(1, ['a1', 'a2', 'a3', 'a4', 'a5']),
+      table(2, ['b1', 'b2', 'b3', 'b4', 'b5']),
+      table(3, ['c1', 'c2', 'c3', 'c4', 'c5'])
+    ]);
+
+    expect(plan.divisions.map(d => d.player_ids)).toEqual([
+      ['a1', 'a2', 'a3', 'b1', 'b2'],
+      ['a4', 'a5', 'b3', 'c1', 'c2'],
+      ['b4', 'b5', 'c3', 'c4', 'c5']
+    ]);
+    expect(plan.promoted).toContainEqual({ player_id: 'c1', from_division: 3, to_division: 2 });
+    expect(plan.relegated).toContainEqual({ player_id: 'a5', from_division: 1, to_division: 2 });
+  });
+
+  it('promotes nobody out of the top division and relegates nobody out of the bottom', () => {
+    const plan = planDivisionMovements([table(2, ['b1', 'b2', 'b3']), table(1, ['a1', 'a2', 'a3'])]);
+
+    expect(plan.promoted.map(m => m.player_id)).toEqual(['b1', 'b2']);
+    expect(plan.relegated.map(m => m.player_id)).toEqual(['a2', 'a3']);
+    expect(plan.divisions.map(d => d.division)).toEqual([1, 2]);
+  });
+
+  it('leaves out withdrawn players without using up a place', () => {
+    const tables = [table(1, ['a1', 'a2', 'a3', 'a4']), table(2, ['b1', 'b2', 'b3', 'b4'])];
+    (tables[0].standings[3] as LeagueStanding).withdrawn_at = '2026-02-01';
+
+    expect(lineUps(tables)).toEqual([['a1', 'b1', 'b2'], ['a2', 'a3', 'b3', 'b4']]);
+  });
+
+  it('fills promotion places first in a small division', () => {
+    const plan = planDivisionMovements([
+      table(1, ['a1', 'a2', 'a3']),
+      table(2, ['b1', 'b2', 'b3'], { promotion_places: 2, relegation_places: 2 }),
+      table(3, ['c1', 'c2', 'c3'])
+    ]);
+
+    expect(plan.promoted.filter(m => m.from_division === 2).map(m => m.player_id)).toEqual(['b1', 'b2']);
+    expect(plan.relegated.filter(m => m.from_division === 2).map(m => m.player_id)).toEqual(['b3']);
+  });
+
+  it('keeps a league without places as it is', () => {
+    const tables = [table(1, ['a2', 'a1'], { promotion_places: undefined, relegation_places: undefined })];
+    expect(lineUps(tables)).toEqual([['a2', 'a1']]);
+  });
+
+  it('moves teams by team id', () => {
+    const teams = (division: number, ids: string[]): DivisionTable => ({
+      division,
+      promotion_places: 1,
+      relegation_places: 1,
+      standings: ids.map((teamId, i) => ({ team_id: teamId, position: i + 1 }) as LeagueStanding)
+    });
+
+    expect(lineUps([teams(1, ['t1', 't2']), teams(2, ['t3', 't4'])])).toEqual([['t1', 't3'], ['t2', 't4']]);
+  });
+});
+
+describe('getSeasonSettings', () => {
+  it('carries the settings but not the season\'s identity', () => {
+    const settings = getSeasonSettings({
+      id: 'l1',
+      name: 'Monday League',
+      status: 'completed',
+      current_week: 10,
+      start_date: '2026-01-05',
+      end_date: '2026-03-09',
+      parent_league_id: 'p1',
+      previous_season_id: 'l0',
+      division: 2,
+      promotion_places: 2,
+      matches_per_week: 1
+    } as League);
+
+    expect(settings).toEqual({ name: 'Monday League', division: 2, promotion_places: 2, matches_per_week: 1 });
+  });
+});
@@ -0,0 +1,101 @@
+/**
+ * League Divisions
+ * Season rollover for divisions under a parent league: each division's top
+ * promotion_places go up one division and its bottom relegation_places go
+ * down one, from the final standings
+ *
+ * Division 1 is the top. Players who withdrew aren't carried over and
+ * don't take up a promotion or relegation place. When a division is too
+ * small for both, promotion places are filled first. In a team league the
+ * ids are team ids.
+ */
+
+import type { League, LeagueStanding } from './tournamentService';
+import { getEntrantId } from './leagueStandings';
+
+// ==================== TYPES ====================
+
+export interface DivisionTable {
+  division: number;
+  promotion_places?: number;
+  relegation_places?: number;
+  standings: readonly LeagueStanding[];   // Final table
+}
+
+export interface DivisionMove {
+  player_id: string;
+  from_division: number;
+  to_division: number;
+}
+
+export interface SeasonPlan {
+  divisions: { division: number; player_ids: string[] }[];
+  promoted: DivisionMove[];
+  relegated: DivisionMove[];
+}
+
+// ==================== ROLLOVER ====================
+
+/**
+ * Next season's line-up for each division
+ * Each line-up lists players coming down first, then those staying in
+ * finishing order, then those coming up
+ */
+export function planDivisionMovements(tables: readonly DivisionTable[]): SeasonPlan {
+  const ordered = [...tables].sort((a, b) => a.division - b.division);
+  const promoted: DivisionMove[] = [];
+  const relegated: DivisionMove[] = [];
+  const staying = new Map<number, string[]>();
+
+  ordered.forEach((table, i) => {
+    const active = [...table.standings]
+      .filter(s => !s.withdrawn_at)
+      .sort((a, b) => a.position - b.position)
+      .map(getEntrantId);
+
+    const up = i > 0 ? Math.min(table.promotion_places ?? 0, active.length) : 0;
+    const down = i < ordered.length - 1 ? Math.min(table.relegation_places ?? 0, active.length - up) : 0;
+
+    for (const playerId of active.slice(0, up)) {
+      promoted.push({ player_id: playerId, from_division: table.division, to_division: ordered[i - 1].division });
+    }
+    for (const playerId of active.slice(active.length - down)) {
+      relegated.push({ player_id: playerId, from_division: table.division, to_division: ordered[i + 1].division });
+    }
+    staying.set(table.division, active.slice(up, active.length - down));
+  });
+
+  const divisions = ordered.map(({ division }) => ({
+    division,
+    player_ids: [
+      ...relegated.filter(m => m.to_division === division).map(m => m.player_id),
+      ...staying.get(division)!,
+      ...promoted.filter(m => m.to_division === division).map(m => m.player_id)
+    ]
+  }));
+
+  return { divisions, promoted, relegated };
+}
+
+/**
+ * Settings to carry into next season - everything but the row's identity,
+ * dates, status and place in the league tree
+ */
+export function getSeasonSettings(league: League): Partial<League> {
+  const {
+    id: _id,
+    status: _status,
+    current_week: _currentWeek,
+    start_date: _startDate,
+    end_date: _endDate,
+    parent_league_id: _parentLeagueId,
+    previous_season_id: _previousSeasonId,
+    created_at: _createdAt,
+    updated_at: _updatedAt,
+    ...settings
+  } = league;
+
+  return settings;
+}
+
+export default planDivisionMovements;
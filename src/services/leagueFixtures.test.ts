@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import {
+  findFixtureWeek,
+  getNextWeek,
+  getSeasonWeekCount,
+  getWeekDate,
+  scheduleJoiner,
+  scheduleSeason,
+  type LeagueFixture,
+  type SeasonOptions
+} from './leagueFixtures';
+
+const field = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+// Ten Mondays, 5 January to 9 March
+const season: SeasonOptions = { startDate: '2026-01-05', endDate: '2026-03-09', matchesPerWeek: 1 };
+
+const asMatches = (fixtures: LeagueFixture[]) => fixtures.map(f => ({ ...f, status: 'scheduled' as const }));
+
+const weekLoad = (fixtures: readonly LeagueFixture[], player: string, week: number) =>
+  fixtures.filter(f => f.week === week && (f.home_player_id === player || f.away_player_id === player)).length;
+
+describe('season weeks', () => {
+  it('counts every seventh day up to the end date', () => {
+    expect(getSeasonWeekCount(season.startDate, season.endDate)).toBe(10);
+    expect(getSeasonWeekCount('2026-01-05', '2026-01-11')).toBe(1);
+    expect(() => getSeasonWeekCount('2026-01-05', '2026-01-04')).toThrow('Season ends before it starts');
+  });
+
+  it('dates each week from the start', () => {
+    expect(getWeekDate(season.startDate, 1)).toBe('2026-01-05');
+    expect(getWeekDate(season.startDate, 9)).toBe('2026-03-02');
+  });
+
+  it('finds the first week after a date', () => {
+    expect(getNextWeek(season.startDate, '2026-01-01T12:00:00Z')).toBe(1);
+    expect(getNextWeek(season.startDate, '2026-01-05T19:30:00Z')).toBe(2);
+    expect(getNextWeek(season.startDate, '2026-01-13')).toBe(3);
+  });
+});
+
+describe('scheduleSeason', () => {
+  it('has everyone play everyone the configured number of times', () => {
+    const fixtures = scheduleSeason(field(4), { ...season, meetings: 2 });
+    const meetings = new Map<string, number>();
+    for (const f of fixtures) {
+      const key = [f.home_player_id, f.away_player_id].sort().join('-');
+      meetings.set(key, (meetings.get(key) ?? 0) + 1);
+    }
+
+    expect(meetings.size).toBe(6);
+    expect([...meetings.values()].every(count => count === 2)).toBe(true);
+  });
+
+  it('packs matches_per_week rounds into each week from the start', () => {
+    const fixtures = scheduleSeason(field(6), { ...season, matchesPerWeek: 2 });
+
+    expect(Math.max(...fixtures.map(f => f.week))).toBe(3);
+    for (const player of field(6)) {
+      for (const week of [1, 2]) expect(weekLoad(fixtures, player, week)).toBe(2);
+    }
+    expect(fixtures.find(f => f.week === 3)!.scheduled_date).toBe('2026-01-19');
+  });
+
+  it('fits the season into its weeks or says why not', () => {
+    expect(() => scheduleSeason(field(12), season))
+      .toThrow('The season needs 11 weeks for 11 rounds but only has 10');
+    expect(scheduleSeason(field(12), { ...season, matchesPerWeek: 2 })).toHaveLength(66);
+  });
+});
+
+describe('findFixtureWeek', () => {
+  const fixtures = asMatches(scheduleSeason(field(4), season));   // Weeks 1-3
+
+  it('takes the earliest week where both players have room', () => {
+    expect(findFixtureWeek(['p1', 'p5'], fixtures, { ...season, fromWeek: 1 })).toBe(4);
+    expect(findFixtureWeek(['p1', 'p5'], fixtures, { ...season, fromWeek: 6 })).toBe(6);
+  });
+
+  it('ignores postponed and cancelled matches', () => {
+    const postponed = fixtures.map(f => (f.week === 2 ? { ...f, status: 'postponed' as const } : f));
+    expect(findFixtureWeek(['p1', 'p2'], postponed, { ...season, fromWeek: 1 })).toBe(2);
+  });
+
+  it('falls back to the least crowded week, or null when none are left', () => {
+    const short = { ...season, endDate: '2026-01-19' };
+    expect(findFixtureWeek(['p1', 'p2'], fixtures, { ...short, fromWeek: 1 })).toBe(1);
+    expect(findFixtureWeek(['p1', 'p2'], fixtures, { ...short, fromWeek: 4 })).toBeNull();
+  });
+});
+
+describe('scheduleJoiner', () => {
+  it('fits a joiner in against everyone from the week given', () => {
+    const existing = asMatches(scheduleSeason(field(4), season));
+    const added = scheduleJoiner('p5', field(4), existing, { ...season, fromWeek: 2 });
+    const all = [...existing, ...added];
+
+    expect(added.map(f => (f.home_player_id === 'p5' ? f.away_player_id : f.home_player_id))).toEqual(field(4));
+    expect(added.every(f => f.week >= 2)).toBe(true);
+    for (const player of field(5)) {
+      for (let week = 1; week <= 10; week++) expect(weekLoad(all, player, week)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it('alternates home and away and plays every first meeting first', () => {
+    const added = scheduleJoiner('p5', field(3), [], { ...season, meetings: 2, fromWeek: 1 });
+
+    expect(added.map(f => f.home_player_id === 'p5')).toEqual([true, false, true, false, true, false]);
+    expect(added.slice(0, 3).map(f => f.week)).toEqual([1, 2, 3]);
+    expect(added.slice(3).map(f => f.week)).toEqual([4, 5, 6]);
+  });
+
+  it('runs out of weeks loudly', () => {
+    expect(() => scheduleJoiner('p5', field(4), [], { ...season, fromWeek: 11 }))
+      .toThrow('The season has no weeks left to schedule');
+  });
+});
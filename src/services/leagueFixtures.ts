@@ -0,0 +1,168 @@
+/**
+ * League Fixtures
+ * Season-long fixture lists built on the round-robin scheduler: everyone
+ * plays everyone the configured number of times, with matches_per_week
+ * rounds played each week from the start date
+ *
+ * Rounds are packed from the first week, so any weeks left before the end
+ * date are free for catch-up. Players joining mid-season and postponed
+ * matches go into the earliest week to come where both players still have
+ * room, or the least crowded week when none has.
+ */
+
+import type { LeagueMatch } from './tournamentService';
+import { scheduleRoundRobin } from './roundRobin';
+import { getMatchEntrants } from './leagueStandings';
+
+// ==================== TYPES ====================
+
+export interface SeasonOptions {
+  startDate: string;             // Week 1 match day (YYYY-MM-DD)
+  endDate: string;               // Last possible match day
+  matchesPerWeek: number;        // Matches each player plays a week
+  meetings?: number;             // Times each pair meets, default 1
+}
+
+export interface LeagueFixture {
+  week: number;
+  scheduled_date: string;
+  home_player_id: string;        // Throws first - team ids in a team league
+  away_player_id: string;
+}
+
+// ==================== CONSTANTS ====================
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Statuses that don't take up a player's week
+const UNSCHEDULED_STATUSES: readonly LeagueMatch['status'][] = ['postponed', 'cancelled'];
+
+// ==================== WEEKS ====================
+
+/**
+ * Match weeks in the season - every seventh day from the start date
+ * up to and including the end date
+ */
+export function getSeasonWeekCount(startDate: string, endDate: string): number {
+  const days = (parseDate(endDate) - parseDate(startDate)) / DAY_MS;
+  if (days < 0) throw new Error('Season ends before it starts');
+  return Math.floor(days / 7) + 1;
+}
+
+/**
+ * Match day for a week (from 1)
+ */
+export function getWeekDate(startDate: string, week: number): string {
+  return new Date(parseDate(startDate) + (week - 1) * 7 * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * First week whose match day is after the given date
+ */
+export function getNextWeek(startDate: string, date: string): number {
+  const days = (parseDate(date) - parseDate(startDate)) / DAY_MS;
+  return days < 0 ? 1 : Math.floor(days / 7) + 2;
+}
+
+// ==================== SCHEDULING ====================
+
+/**
+ * Full season of fixtures for a field, in draw order
+ */
+export function scheduleSeason(playerIds: readonly string[], options: SeasonOptions): LeagueFixture[] {
+  const rounds = scheduleRoundRobin(playerIds, { meetings: options.meetings });
+  const perWeek = Math.max(1, options.matchesPerWeek);
+  const weeksNeeded = Math.ceil(rounds.length / perWeek);
+  const weeks = getSeasonWeekCount(options.startDate, options.endDate);
+
+  if (weeksNeeded > weeks) {
+    throw new Error(`The season needs ${weeksNeeded} weeks for ${rounds.length} rounds but only has ${weeks}`);
+  }
+
+  return rounds.flatMap(({ round, fixtures }) => {
+    const week = Math.ceil(round / perWeek);
+    return fixtures.map(fixture => ({
+      week,
+      scheduled_date: getWeekDate(options.startDate, week),
+      home_player_id: fixture.home,
+      away_player_id: fixture.away
+    }));
+  });
+}
+
+/**
+ * Fixtures for a player joining mid-season against everyone still in,
+ * from fromWeek on. Every first meeting is placed before any second one,
+ * and home and away alternate.
+ */
+export function scheduleJoiner(
+  playerId: string,
+  opponents: readonly string[],
+  fixtures: readonly Partial<LeagueMatch>[],
+  options: SeasonOptions & { fromWeek: number }
+): LeagueFixture[] {
+  const meetings = Math.max(1, options.meetings ?? 1);
+  const scheduled: Partial<LeagueMatch>[] = [...fixtures];
+  const added: LeagueFixture[] = [];
+
+  for (let m = 0; m < meetings; m++) {
+    opponents.forEach((opponent, i) => {
+      const week = findFixtureWeek([playerId, opponent], scheduled, options);
+      if (week === null) throw new Error('The season has no weeks left to schedule');
+
+      const atHome = (i + m) % 2 === 0;
+      const fixture: LeagueFixture = {
+        week,
+        scheduled_date: getWeekDate(options.startDate, week),
+        home_player_id: atHome ? playerId : opponent,
+        away_player_id: atHome ? opponent : playerId
+      };
+      added.push(fixture);
+      scheduled.push({ ...fixture, status: 'scheduled' });
+    });
+  }
+
+  return added;
+}
+
+/**
+ * Week for a fixture between two players, from fromWeek on: the earliest
+ * week where neither has reached matches_per_week, otherwise the week
+ * where the busier of the two has fewest. Null when no weeks are left.
+ */
+export function findFixtureWeek(
+  players: readonly string[],
+  fixtures: readonly Partial<LeagueMatch>[],
+  options: SeasonOptions & { fromWeek: number }
+): number | null {
+  const weeks = getSeasonWeekCount(options.startDate, options.endDate);
+  const perWeek = Math.max(1, options.matchesPerWeek);
+  let best: number | null = null;
+  let bestLoad = Infinity;
+
+  for (let week = Math.max(1, options.fromWeek); week <= weeks; week++) {
+    const busiest = Math.max(...players.map(id => countMatches(id, week, fixtures)));
+    const load = busiest < perWeek ? 0 : busiest;
+
+    if (load < bestLoad) {
+      best = week;
+      bestLoad = load;
+      if (load === 0) break;
+    }
+  }
+  return best;
+}
+
+function countMatches(entrantId: string, week: number, fixtures: readonly Partial<LeagueMatch>[]): number {
+  return fixtures.filter(f =>
+    f.week === week &&
+    !UNSCHEDULED_STATUSES.includes(f.status!) &&
+    getMatchEntrants(f).includes(entrantId)
+  ).length;
+}
+
+function parseDate(date: string): number {
+  return Date.parse(`${date.slice(0, 10)}T00:00:00Z`);
+}
+
+export default scheduleSeason;
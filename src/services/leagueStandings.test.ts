@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getBonusPoints,
+  getLeagueStandings,
+  getMatchPoints,
+  type LeagueScoring
+} from './leagueStandings';
+import type { LeagueMatch, LeagueStanding } from './tournamentService';
+
+const scoring: LeagueScoring = { points_for_win: 2, points_for_draw: 1, points_for_loss: 0 };
+
+const result = (home: string, away: string, homeLegs: number, awayLegs: number, stats?: any): Partial<LeagueMatch> => ({
+  home_player_id: home,
+  away_player_id: away,
+  home_legs: homeLegs,
+  away_legs: awayLegs,
+  status: 'completed',
+  stats
+});
+
+const ids = (standings: LeagueStanding[]) => standings.map(s => s.player_id ?? s.team_id);
+
+describe('points', () => {
+  it('scores a win, a draw and a loss', () => {
+    expect(getMatchPoints(4, 2, scoring)).toBe(2);
+    expect(getMatchPoints(3, 3, scoring)).toBe(1);
+    expect(getMatchPoints(1, 4, scoring)).toBe(0);
+  });
+
+  it('adds bonus points per leg and for a whitewash', () => {
+    const bonus = { per_leg_won: 0.5, whitewash: 1 };
+    expect(getBonusPoints(4, 0, bonus)).toBe(3);
+    expect(getBonusPoints(4, 1, bonus)).toBe(2);
+    expect(getBonusPoints(0, 0, bonus)).toBe(0);
+    expect(getBonusPoints(4, 0)).toBe(0);
+  });
+});
+
+describe('getLeagueStandings', () => {
+  it('builds the table from completed matches only', () => {
+    const matches = [
+      result('a', 'b', 4, 2),
+      result('c', 'a', 3, 3),
+      { ...result('b', 'c', 0, 0), status: 'scheduled' as const }
+    ];
+    const table = getLeagueStandings('l1', ['a', 'b', 'c'], matches, scoring);
+
+    expect(ids(table)).toEqual(['a', 'c', 'b']);
+    expect(table[0]).toMatchObject({ position: 1, played: 2, won: 1, drawn: 1, points: 3, leg_difference: 2 });
+    expect(table[2]).toMatchObject({ played: 1, lost: 1, points: 0 });
+  });
+
+  it('takes off deductions and adds bonus points', () => {
+    const league = { ...scoring, bonus_points: { whitewash: 1 } };
+    const matches = [result('a', 'b', 4, 0), result('c', 'd', 4, 3)];
+    const table = getLeagueStandings('l1', ['a', 'b', 'c', 'd'], matches, league, [{ player_id: 'a', points: 2 }]);
+
+    expect(table.find(s => s.player_id === 'a')).toMatchObject({ points: 1, bonus: 1, deducted: 2 });
+    expect(ids(table)[0]).toBe('c');
+  });
+
+  it('breaks ties with the league\'s tiebreaks in order', () => {
+    // a and b both won one and lost one 4-2, so they are level on legs; b won their meeting
+    const matches = [result('a', 'c', 4, 2), result('b', 'a', 4, 2), result('d', 'b', 4, 2)];
+    const entrants = ['a', 'b', 'c', 'd'];
+    const table = getLeagueStandings('l1', entrants, matches, { ...scoring, tiebreaks: ['leg_difference', 'head_to_head'] });
+
+    expect(ids(table)).toEqual(['d', 'b', 'a', 'c']);
+    expect(ids(getLeagueStandings('l1', entrants, matches, scoring))).toEqual(['d', 'a', 'b', 'c']);
+  });
+
+  it('ranks on averages and 180s from the match stats', () => {
+    const matches = [
+      result('a', 'c', 4, 2, { home: { average: 85.2, scores_180: 1 }, away: { average: 70 } }),
+      result('b', 'd', 4, 2, { home: { average: 91.4, scores_180: 3, highest_checkout: 121 } })
+    ];
+    const byAverage = getLeagueStandings('l1', ['a', 'b', 'c', 'd'], matches, { ...scoring, tiebreaks: ['average'] });
+    const by180s = getLeagueStandings('l1', ['a', 'b', 'c', 'd'], matches, { ...scoring, tiebreaks: ['180s'] });
+
+    expect(ids(byAverage).slice(0, 2)).toEqual(['b', 'a']);
+    expect(ids(by180s).slice(0, 2)).toEqual(['b', 'a']);
+    expect(byAverage[0]).toMatchObject({ average: 91.4, total_180s: 3, highest_checkout: 121 });
+  });
+
+  it('flags players still level for a play-off and stops there', () => {
+    const matches = [result('a', 'c', 4, 2), result('b', 'd', 4, 2)];
+    const table = getLeagueStandings('l1', ['a', 'b', 'c', 'd'], matches, {
+      ...scoring,
+      tiebreaks: ['leg_difference', 'playoff', 'legs_for']
+    });
+
+    expect(table.filter(s => s.playoff).map(s => s.player_id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(table)).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('ranks teams in a team league', () => {
+    const match: Partial<LeagueMatch> = { home_team_id: 't1', away_team_id: 't2', home_legs: 5, away_legs: 4, status: 'completed' };
+    const table = getLeagueStandings('l1', ['t2', 't1'], [match], { ...scoring, team_league: true });
+
+    expect(table[0]).toMatchObject({ team_id: 't1', points: 2 });
+    expect(table[0].player_id).toBeUndefined();
+  });
+});
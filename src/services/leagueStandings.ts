@@ -0,0 +1,219 @@
+/**
+ * League Standings
+ * Rebuilds a league table from its completed matches, so an edited result
+ * or a new deduction always gives the right table
+ *
+ * Points are match points (win/draw/loss), plus any bonus points the league
+ * awards, minus deductions. Players level on points are split by the
+ * league's tiebreaks in order. A 'playoff' tiebreak stops there and flags
+ * the players still level as needing a play-off.
+ *
+ * Match stats are read per side (stats.home / stats.away) using the
+ * MatchStatistics names: average, scores_180, highest_checkout.
+ *
+ * In a team league the entrants are teams (team_id, home_team_id and
+ * away_team_id) and legs count the rubbers each team won.
+ */
+
+import type { League, LeagueMatch, LeagueStanding } from './tournamentService';
+import { rankByTiebreaks } from './tiebreaks';
+
+// ==================== TYPES ====================
+
+export type LeagueTiebreak =
+  | 'leg_difference'
+  | 'legs_for'
+  | 'head_to_head'      // Match points in matches between the tied players
+  | 'average'           // Mean of the match averages
+  | '180s'
+  | 'playoff';          // Flag anyone still level - later tiebreaks are ignored
+
+export interface LeagueBonusPoints {
+  per_leg_won?: number;
+  whitewash?: number;            // Winning without dropping a leg
+}
+
+export interface LeagueDeduction {
+  id: string;
+  league_id: string;
+  player_id?: string;            // Or team_id in a team league
+  team_id?: string;
+  points: number;                // Points taken off (positive)
+  reason: string;                // Audit note
+  created_by?: string;
+  created_at: string;
+}
+
+export type LeagueScoring = Pick<
+  League,
+  'points_for_win' | 'points_for_draw' | 'points_for_loss' | 'bonus_points' | 'tiebreaks' | 'team_league'
+>;
+
+// ==================== CONSTANTS ====================
+
+export const DEFAULT_LEAGUE_TIEBREAKS: readonly LeagueTiebreak[] = Object.freeze([
+  'leg_difference',
+  'legs_for'
+]);
+
+// ==================== STANDINGS ====================
+
+/**
+ * Ranked table for a league from its matches and deductions
+ * Entrants level on everything keep the order they were given in
+ */
+export function getLeagueStandings(
+  leagueId: string,
+  entrantIds: readonly string[],
+  matches: readonly Partial<LeagueMatch>[],
+  league: LeagueScoring,
+  deductions: readonly Partial<LeagueDeduction>[] = []
+): LeagueStanding[] {
+  const played = matches.filter(m => m.status === 'completed');
+  const table = entrantIds.map(entrantId => getRecord(leagueId, entrantId, played, league, deductions));
+
+  const tiebreaks = league.tiebreaks ?? DEFAULT_LEAGUE_TIEBREAKS;
+  const ranked = rankByTiebreaks(table, ['points' as const, ...tiebreaks], (tiebreak, tied) => {
+    if (tiebreak !== 'playoff') return getTiebreakValue(tiebreak, tied, played, league);
+
+    // Still level: flag for a play-off and ignore any later tiebreaks
+    tied.forEach(s => { s.playoff = true; });
+    return null;
+  });
+  ranked.forEach((s, i) => { s.position = i + 1; });
+
+  return ranked;
+}
+
+/**
+ * Player, or team in a team league, that a standing or deduction is for
+ */
+export function getEntrantId(row: { player_id?: string; team_id?: string }): string {
+  return (row.team_id ?? row.player_id)!;
+}
+
+/**
+ * Home and away entrants of a league match
+ */
+export function getMatchEntrants(match: Partial<LeagueMatch>): [string | undefined, string | undefined] {
+  return [match.home_team_id ?? match.home_player_id, match.away_team_id ?? match.away_player_id];
+}
+
+/**
+ * Match points for one side of a result, before any bonus
+ */
+export function getMatchPoints(legsFor: number, legsAgainst: number, league: LeagueScoring): number {
+  if (legsFor > legsAgainst) return league.points_for_win;
+  if (legsFor === legsAgainst) return league.points_for_draw;
+  return league.points_for_loss;
+}
+
+/**
+ * Bonus points for one side of a result
+ */
+export function getBonusPoints(legsFor: number, legsAgainst: number, bonus: LeagueBonusPoints = {}): number {
+  const whitewash = legsFor > 0 && legsAgainst === 0 ? bonus.whitewash ?? 0 : 0;
+  return legsFor * (bonus.per_leg_won ?? 0) + whitewash;
+}
+
+function getRecord(
+  leagueId: string,
+  entrantId: string,
+  matches: readonly Partial<LeagueMatch>[],
+  league: LeagueScoring,
+  deductions: readonly Partial<LeagueDeduction>[]
+): LeagueStanding {
+  const record: LeagueStanding = {
+    league_id: leagueId,
+    ...(league.team_league ? { team_id: entrantId } : { player_id: entrantId }),
+    position: 0,
+    played: 0,
+    won: 0,
+    drawn: 0,
+    lost: 0,
+    legs_for: 0,
+    legs_against: 0,
+    leg_difference: 0,
+    points: 0,
+    bonus: 0,
+    deducted: 0,
+    playoff: false,
+    average: 0,
+    highest_checkout: 0,
+    total_180s: 0
+  };
+  const averages: number[] = [];
+
+  for (const match of matches) {
+    const [home, away] = getMatchEntrants(match);
+    const side = home === entrantId ? 'home' : away === entrantId ? 'away' : null;
+    if (!side) continue;
+
+    const legsFor = (side === 'home' ? match.home_legs : match.away_legs) ?? 0;
+    const legsAgainst = (side === 'home' ? match.away_legs : match.home_legs) ?? 0;
+    const bonus = getBonusPoints(legsFor, legsAgainst, league.bonus_points);
+
+    record.played++;
+    record.won += legsFor > legsAgainst ? 1 : 0;
+    record.drawn += legsFor === legsAgainst ? 1 : 0;
+    record.lost += legsFor < legsAgainst ? 1 : 0;
+    record.legs_for += legsFor;
+    record.legs_against += legsAgainst;
+    record.points += getMatchPoints(legsFor, legsAgainst, league) + bonus;
+    record.bonus += bonus;
+
+    const stats = match.stats?.[side];
+    if (typeof stats?.average === 'number') averages.push(stats.average);
+    record.total_180s += stats?.scores_180 ?? 0;
+    record.highest_checkout = Math.max(record.highest_checkout, stats?.highest_checkout ?? 0);
+  }
+
+  for (const deduction of deductions) {
+    if (getEntrantId(deduction) !== entrantId) continue;
+    record.deducted += deduction.points ?? 0;
+  }
+
+  record.points -= record.deducted;
+  record.leg_difference = record.legs_for - record.legs_against;
+  if (averages.length > 0) {
+    record.average = Math.round((averages.reduce((sum, a) => sum + a, 0) / averages.length) * 100) / 100;
+  }
+  return record;
+}
+
+function getTiebreakValue(
+  tiebreak: Exclude<LeagueTiebreak, 'playoff'> | 'points',
+  tied: readonly LeagueStanding[],
+  matches: readonly Partial<LeagueMatch>[],
+  league: LeagueScoring
+): (standing: LeagueStanding) => number {
+  switch (tiebreak) {
+    case 'points':
+      return s => s.points;
+    case 'leg_difference':
+      return s => s.leg_difference;
+    case 'legs_for':
+      return s => s.legs_for;
+    case 'average':
+      return s => s.average;
+    case '180s':
+      return s => s.total_180s;
+    case 'head_to_head': {
+      const ids = new Set(tied.map(getEntrantId));
+      const points = new Map<string, number>();
+      const add = (playerId: string, value: number) => points.set(playerId, (points.get(playerId) ?? 0) + value);
+
+      for (const match of matches) {
+        const [home, away] = getMatchEntrants(match);
+        if (!ids.has(home!) || !ids.has(away!)) continue;
+        const homeLegs = match.home_legs ?? 0;
+        const awayLegs = match.away_legs ?? 0;
+        add(home!, getMatchPoints(homeLegs, awayLegs, league));
+        add(away!, getMatchPoints(awayLegs, homeLegs, league));
+      }
+      return s => points.get(getEntrantId(s)) ?? 0;
+    }
+  }
+}
+
+export default getLeagueStandings;
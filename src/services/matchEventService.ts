@@ -0,0 +1,122 @@
+/**
+ * Match Event Store
+ * Persists match logs as append-only rows in match_events
+ * (seq is unique per match, so concurrent writers can't interleave)
+ */
+
+import type { DatabaseClient } from '../types';
+import {
+  MatchLog,
+  type MatchEvent,
+  type MatchEventType
+} from '../scoring/matchLog';
+
+// ==================== TYPES ====================
+
+export interface MatchEventRow {
+  id?: string;
+  match_id: string;              // Can reference matches, tournament_matches, league_matches, or online_matches
+  seq: number;
+  event_type: MatchEventType;
+  payload: Record<string, unknown>;
+  created_at: string;
+}
+
+// ==================== MATCH EVENT SERVICE ====================
+
+export class MatchEventService {
+  private db: DatabaseClient;
+
+  constructor(dbClient: DatabaseClient) {
+    this.db = dbClient;
+  }
+
+  /**
+   * Load a match's events in order
+   */
+  async getEvents(matchId: string, uptoSeq?: number): Promise<MatchEvent[]> {
+    let query = this.db
+      .from('match_events')
+      .select('*')
+      .eq('match_id', matchId);
+
+    if (uptoSeq !== undefined) {
+      query = query.lte('seq', uptoSeq);
+    }
+
+    const { data, error } = await query.order('seq', { ascending: true });
+
+    if (error) throw error;
+    return ((data as MatchEventRow[] | null) || []).map(fromEventRow);
+  }
+
+  /**
+   * Append events - fails if any seq already exists for the match
+   */
+  async appendEvents(matchId: string, events: readonly MatchEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const { error } = await this.db
+      .from('match_events')
+      .insert(events.map(event => toEventRow(matchId, event)));
+
+    if (error) throw error;
+  }
+
+  /**
+   * Replay a match from its stored events
+   * Returns null if the match has no log
+   */
+  async loadLog(matchId: string, uptoSeq?: number): Promise<MatchLog | null> {
+    const events = await this.getEvents(matchId, uptoSeq);
+    if (events.length === 0) return null;
+    return MatchLog.fromEvents(events, uptoSeq);
+  }
+
+  /**
+   * Persist everything recorded after a known seq
+   */
+  async saveLog(matchId: string, log: MatchLog, persistedSeq: number): Promise<void> {
+    await this.appendEvents(matchId, log.getEventsSince(persistedSeq));
+  }
+}
+
+// ==================== UTILITY FUNCTIONS ====================
+
+export function toEventRow(matchId: string, event: MatchEvent): MatchEventRow {
+  const { seq, at, type, ...payload } = event;
+  return {
+    match_id: matchId,
+    seq,
+    event_type: type,
+    payload,
+    created_at: at
+  };
+}
+
+export function fromEventRow(row: MatchEventRow): MatchEvent {
+  return {
+    ...row.payload,
+    seq: row.seq,
+    at: row.created_at,
+    type: row.event_type
+  } as MatchEvent;
+}
+
+// ==================== DATABASE SCHEMA ====================
+
+export const MATCH_EVENTS_SCHEMA = `
+-- Append-only match event log
+CREATE TABLE IF NOT EXISTS match_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  match_id UUID NOT NULL, -- Can reference matches, tournament_matches, league_matches, or online_matches
+  seq INTEGER NOT NULL,
+  event_type VARCHAR(20) NOT NULL, -- match_created, visit, bust, leg_won, set_won, undo, forfeit
+  payload JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+
+  UNIQUE(match_id, seq)
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_events_match ON match_events(match_id, seq);
+`;
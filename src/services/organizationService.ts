@@ -3,6 +3,9 @@
  * Like Darts Atlas - manage clubs, leagues, and player memberships
  */
 
+import { generateSlug } from '../constants';
+import { type RandomSource, defaultRandom } from '../utils/random';
+
 // ==================== TYPES ====================
 
 export interface Organization {
@@ -117,9 +120,11 @@ export interface OrganizationInvite {
 
 export class OrganizationService {
   private db: any;
+  private random: RandomSource;
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.random = options.random ?? defaultRandom;
   }
 
   // ---- Organization CRUD ----
@@ -397,11 +402,7 @@ export class OrganizationService {
   // ---- Utils ----
 
   private generateSlug(name: string): string {
-    return name
-      .toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/^-|-$/g, '')
-      + '-' + Math.random().toString(36).substring(2, 6);
+    return generateSlug(name, this.random);
   }
 
   // ---- Permission Checks ----
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { buildRoundRobinMatches, getBoardNumber, scheduleRoundRobin, type RoundRobinRound } from './roundRobin';
+
+const field = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+const pairKey = (a: string, b: string) => [a, b].sort().join('-');
+
+// Home and away sides for each player, round by round
+const sides = (rounds: readonly RoundRobinRound[], player: string) =>
+  rounds.flatMap(r => r.fixtures
+    .filter(f => f.home === player || f.away === player)
+    .map(f => (f.home === player ? 'H' : 'A')));
+
+describe('scheduleRoundRobin', () => {
+  it('has every pair meet once', () => {
+    for (const size of [2, 5, 6, 9, 10]) {
+      const rounds = scheduleRoundRobin(field(size));
+      const pairs = rounds.flatMap(r => r.fixtures.map(f => pairKey(f.home, f.away)));
+
+      expect(rounds).toHaveLength(size % 2 === 0 ? size - 1 : size);
+      expect(pairs).toHaveLength((size * (size - 1)) / 2);
+      expect(new Set(pairs).size).toBe(pairs.length);
+    }
+  });
+
+  it('plays each player at most once a round', () => {
+    for (const round of scheduleRoundRobin(field(8))) {
+      const players = round.fixtures.flatMap(f => [f.home, f.away]);
+      expect(new Set(players).size).toBe(8);
+    }
+  });
+
+  it('gives each player in an odd field one bye', () => {
+    const rounds = scheduleRoundRobin(field(7));
+
+    expect(rounds.every(r => r.fixtures.length === 3)).toBe(true);
+    expect(rounds.map(r => r.bye).sort()).toEqual(field(7));
+  });
+
+  it('balances home and away', () => {
+    const odd = scheduleRoundRobin(field(7));
+    for (const player of field(7)) {
+      const home = sides(odd, player).filter(s => s === 'H').length;
+      expect(home).toBe(3);
+    }
+
+    const even = scheduleRoundRobin(field(8));
+    for (const player of field(8)) {
+      const home = sides(even, player).filter(s => s === 'H').length;
+      expect(Math.abs(home * 2 - 7)).toBe(1);
+    }
+  });
+
+  it('never leaves a player home or away more than twice running', () => {
+    for (const size of [6, 7, 8, 10]) {
+      const rounds = scheduleRoundRobin(field(size));
+      for (const player of field(size)) {
+        expect(sides(rounds, player).join('')).not.toMatch(/HHH|AAA/);
+      }
+    }
+  });
+
+  it('swaps home and away for the second meeting', () => {
+    const rounds = scheduleRoundRobin(field(4), { meetings: 2 });
+    const [first, second] = [rounds.slice(0, 3), rounds.slice(3)];
+
+    expect(rounds.map(r => r.round)).toEqual([1, 2, 3, 4, 5, 6]);
+    first.forEach((round, i) => {
+      expect(second[i].fixtures).toEqual(round.fixtures.map(f => ({ home: f.away, away: f.home })));
+    });
+  });
+
+  it('spreads each round across the boards', () => {
+    const rounds = scheduleRoundRobin(field(8), { boards: 4 });
+    for (const round of rounds) {
+      expect(round.fixtures.map(f => f.board).sort()).toEqual([1, 2, 3, 4]);
+    }
+    expect(rounds.map(r => r.fixtures[0].board)).toEqual([1, 2, 3, 4, 1, 2, 3]);
+  });
+});
+
+describe('getBoardNumber', () => {
+  it('wraps when matches outnumber boards', () => {
+    expect([0, 1, 2, 3].map(i => getBoardNumber(i, 1, 2))).toEqual([1, 2, 1, 2]);
+    expect(getBoardNumber(0, 2, 2)).toBe(2);
+  });
+});
+
+describe('buildRoundRobinMatches', () => {
+  it('numbers the matches in round order', () => {
+    const matches = buildRoundRobinMatches('t', field(5), { boards: 2 });
+
+    expect(matches.map(m => m.match_number)).toEqual(Array.from({ length: 10 }, (_, i) => i + 1));
+    expect(matches.every((m, i) => i === 0 || m.round! >= matches[i - 1].round!)).toBe(true);
+    expect(matches[0]).toMatchObject({ tournament_id: 't', round: 1, status: 'ready', board_number: 1 });
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Round Robin
+ * Circle-method scheduling: one place stays put while everyone else
+ * rotates, so each round has every player in at most one match and
+ * everyone meets everyone once per cycle
+ *
+ * Odd fields put the bye in the fixed place, so each round one player
+ * sits out. Home (player1, throws first) alternates by position in the
+ * circle: with an odd field everyone is home exactly half the time, with
+ * an even field at most one match either way, and within a cycle nobody
+ * is home or away more than twice running. A double round robin replays
+ * the first cycle with home and away swapped.
+ */
+
+import type { BracketMatch } from './brackets';
+
+// ==================== TYPES ====================
+
+export interface RoundRobinOptions {
+  meetings?: number;             // Times each pair meets (2 = double round robin), default 1
+  boards?: number;               // Boards in use - each round's matches are spread across them
+}
+
+export interface RoundRobinFixture {
+  home: string;                  // Throws first
+  away: string;
+  board?: number;                // From 1, when boards are set
+}
+
+export interface RoundRobinRound {
+  round: number;
+  fixtures: RoundRobinFixture[];
+  bye?: string;                  // Sits this round out (odd fields)
+}
+
+// ==================== SCHEDULING ====================
+
+/**
+ * Full schedule for a field, in draw order
+ */
+export function scheduleRoundRobin(
+  playerIds: readonly string[],
+  options: RoundRobinOptions = {}
+): RoundRobinRound[] {
+  const meetings = Math.max(1, options.meetings ?? 1);
+  const circle: (string | null)[] = [...playerIds];
+  if (circle.length % 2 === 1) circle.unshift(null);
+
+  const size = circle.length;
+  const cycle: RoundRobinRound[] = [];
+
+  for (let r = 0; r < size - 1; r++) {
+    const fixtures: RoundRobinFixture[] = [];
+    let bye: string | undefined;
+
+    for (let i = 0; i < size / 2; i++) {
+      const first = circle[i];
+      const second = circle[size - 1 - i];
+      if (!first || !second) {
+        bye = first ?? second ?? undefined;
+        continue;
+      }
+
+      // The fixed place swaps every round; the others by position
+      const firstAtHome = i === 0 ? r % 2 === 0 : i % 2 === 1;
+      fixtures.push(firstAtHome ? { home: first, away: second } : { home: second, away: first });
+    }
+    cycle.push({ round: r + 1, fixtures, bye });
+
+    // Keep the first place fixed, rotate everyone else one step
+    circle.splice(1, 0, circle.pop()!);
+  }
+
+  const rounds: RoundRobinRound[] = [];
+  for (let m = 0; m < meetings; m++) {
+    for (const { round, fixtures, bye } of cycle) {
+      rounds.push({
+        round: m * cycle.length + round,
+        fixtures: fixtures.map(f => (m % 2 === 0 ? { ...f } : { home: f.away, away: f.home })),
+        bye
+      });
+    }
+  }
+
+  if (options.boards) {
+    for (const round of rounds) {
+      round.fixtures.forEach((fixture, i) => {
+        fixture.board = getBoardNumber(i, round.round, options.boards!);
+      });
+    }
+  }
+
+  return rounds;
+}
+
+/**
+ * Board for the i-th match of a round (from 0)
+ * The starting board moves on each round, so nobody is stuck on board 1;
+ * when matches outnumber boards, later ones wait for a board to free up
+ */
+export function getBoardNumber(index: number, round: number, boards: number): number {
+  return ((index + round - 1) % boards) + 1;
+}
+
+/**
+ * Tournament matches for a round-robin schedule
+ */
+export function buildRoundRobinMatches(
+  tournamentId: string,
+  playerIds: readonly string[],
+  options: RoundRobinOptions = {}
+): BracketMatch[] {
+  let matchNumber = 1;
+
+  return scheduleRoundRobin(playerIds, options).flatMap(({ round, fixtures }) =>
+    fixtures.map(fixture => ({
+      tournament_id: tournamentId,
+      round,
+      match_number: matchNumber++,
+      player1_id: fixture.home,
+      player2_id: fixture.away,
+      board_number: fixture.board,
+      player1_legs: 0,
+      player2_legs: 0,
+      status: 'ready' as const
+    }))
+  );
+}
+
+export default scheduleRoundRobin;
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { TeamService } from './smsTeamsService';
+import { createFakeDatabase } from '../test/fakeDatabase';
+
+const setup = () => {
+  const db = createFakeDatabase({
+    leagues: [{
+      id: 'l1',
+      name: 'Thursday Team League',
+      type: 'team',
+      team_league: true,
+      running_order: [
+        { type: 'singles', legs: 3 },
+        { type: 'singles', legs: 3 },
+        { type: 'pairs', legs: 3, points: 2 }
+      ],
+      matches_per_week: 1,
+      points_for_win: 2,
+      points_for_draw: 1,
+      points_for_loss: 0,
+      status: 'active'
+    }],
+    league_matches: [
+      { id: 'm1', league_id: 'l1', week: 1, home_team_id: 't1', away_team_id: 't2', home_legs: 0, away_legs: 0, status: 'scheduled' }
+    ],
+    league_standings: [{ league_id: 'l1', team_id: 't1' }, { league_id: 'l1', team_id: 't2' }],
+    teams: [
+      { id: 't1', name: 'Crown', player1_id: 'a', player2_id: 'b', captain_id: 'a' },
+      { id: 't2', name: 'Anchor', player1_id: 'c', player2_id: 'd', captain_id: 'd' }
+    ]
+  });
+  return { db, service: new TeamService(db) };
+};
+
+// Fixture for the league match with both line-ups in
+const startFixture = async (service: TeamService) => {
+  const fixture = await service.createTeamFixture({ leagueMatchId: 'm1' });
+  await service.submitLineUp(fixture.id, 't1', 'a', [['a'], ['b'], ['a', 'b']]);
+  await service.submitLineUp(fixture.id, 't2', 'd', [['c'], ['d'], ['c', 'd']]);
+  return { fixture, rubbers: await service.getRubbers(fixture.id) };
+};
+
+describe('team fixtures', () => {
+  it('takes the teams and card from the league match', async () => {
+    const { service } = setup();
+    const fixture = await service.createTeamFixture({ leagueMatchId: 'm1' });
+
+    expect(fixture).toMatchObject({ home_team_id: 't1', away_team_id: 't2', status: 'awaiting_line_ups' });
+    expect(fixture.running_order).toHaveLength(3);
+  });
+
+  it('sets up the rubbers once both captains have named their line-ups', async () => {
+    const { service } = setup();
+    const fixture = await service.createTeamFixture({ leagueMatchId: 'm1' });
+
+    await expect(service.submitLineUp(fixture.id, 't1', 'b', [['a'], ['b'], ['a', 'b']]))
+      .rejects.toThrow('Only the team captain can submit the line-up');
+
+    const halfway = await service.submitLineUp(fixture.id, 't1', 'a', [['a'], ['b'], ['a', 'b']]);
+    expect(halfway.status).toBe('awaiting_line_ups');
+    expect(await service.getRubbers(fixture.id)).toHaveLength(0);
+
+    const started = await service.submitLineUp(fixture.id, 't2', 'd', [['c'], ['d'], ['c', 'd']]);
+    const rubbers = await service.getRubbers(fixture.id);
+
+    expect(started.status).toBe('in_progress');
+    expect(rubbers.map(r => [r.home_player_ids, r.away_player_ids]))
+      .toEqual([[['a'], ['c']], [['b'], ['d']], [['a', 'b'], ['c', 'd']]]);
+  });
+
+  it('plays rubbers in running order', async () => {
+    const { service } = setup();
+    const { rubbers } = await startFixture(service);
+
+    await expect(service.recordRubberResult(rubbers[1].id, 2, 0)).rejects.toThrow('Rubbers are played in running order');
+  });
+
+  it('records the team result on the league match and updates the table', async () => {
+    const { db, service } = setup();
+    const { fixture, rubbers } = await startFixture(service);
+
+    await service.recordRubberResult(rubbers[0].id, 2, 1);
+    await service.recordRubberResult(rubbers[1].id, 0, 2);
+    expect(db.tables.league_matches[0].status).toBe('scheduled');
+
+    const result = await service.recordRubberResult(rubbers[2].id, 2, 0);
+
+    expect(result).toEqual({ home_points: 3, away_points: 1, completed: true, winner: 'home' });
+    expect(db.tables.team_fixtures.find(f => f.id === fixture.id))
+      .toMatchObject({ status: 'completed', winner_team_id: 't1', home_points: 3, away_points: 1 });
+    expect(db.tables.league_matches[0]).toMatchObject({ status: 'completed', home_legs: 3, away_legs: 1 });
+    expect(db.tables.league_standings.find(s => s.team_id === 't1'))
+      .toMatchObject({ position: 1, won: 1, points: 2, legs_for: 3 });
+  });
+
+  it('corrects the league result when a rubber is corrected', async () => {
+    const { db, service } = setup();
+    const { rubbers } = await startFixture(service);
+    for (const r of rubbers) await service.recordRubberResult(r.id, 2, 0);
+
+    await service.recordRubberResult(rubbers[2].id, 1, 2);
+
+    expect(db.tables.league_matches[0]).toMatchObject({ home_legs: 2, away_legs: 2 });
+    expect(db.tables.league_standings.map(s => [s.team_id, s.drawn, s.points])).toEqual([['t1', 1, 1], ['t2', 1, 1]]);
+  });
+});
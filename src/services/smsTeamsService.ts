@@ -1,8 +1,22 @@
 /**
  * SMS Notifications & Teams/Doubles System
- * Board calls, match notifications, team management
+ * Board calls, match notifications, team management, team fixtures
  */
 
+import { resolveGameSettings } from '../scoring/gameModes';
+import { type RandomSource, defaultRandom, shuffle } from '../utils/random';
+import { LeagueService } from './tournamentService';
+import {
+  type RubberFormat,
+  type RubberType,
+  type TeamResult,
+  DEFAULT_RUNNING_ORDER,
+  getRubberWinner,
+  getTeamMembers,
+  getTeamResult,
+  validateLineUp
+} from './teamFixtures';
+
 // ==================== SMS TYPES ====================
 
 export interface SMSNotification {
@@ -82,6 +96,8 @@ export interface DoublesMatch {
   starting_score: number;
   target_legs: number;
   match_type: 'first_to' | 'best_of';
+  game_mode?: string;                   // Registered game mode id (default 'x01')
+  game_config?: Record<string, unknown>;
   
   status: 'pending' | 'in_progress' | 'completed';
   winner_team_id?: string;
@@ -89,6 +105,44 @@ export interface DoublesMatch {
   created_at: string;
 }
 
+export interface TeamFixture {
+  id: string;
+  
+  home_team_id: string;
+  away_team_id: string;
+  league_match_id?: string;             // Team league match the result is recorded against
+  
+  running_order: RubberFormat[];
+  home_line_up?: string[][];            // Players for each rubber, named by the captain
+  away_line_up?: string[][];
+  
+  home_points: number;                  // Rubber points won
+  away_points: number;
+  
+  status: 'awaiting_line_ups' | 'in_progress' | 'completed';
+  winner_team_id?: string;              // Unset on a draw
+  
+  created_at: string;
+  completed_at?: string;
+}
+
+export interface TeamRubber {
+  id: string;
+  fixture_id: string;
+  rubber_number: number;                // Place in the running order, from 1
+  type: RubberType;
+  
+  home_player_ids: string[];
+  away_player_ids: string[];
+  
+  home_legs: number;
+  away_legs: number;
+  
+  status: 'pending' | 'completed';
+  winner?: 'home' | 'away';
+  stats?: any;
+}
+
 // ==================== SMS SERVICE ====================
 
 export class SMSService {
@@ -388,9 +442,13 @@ export class MockSMSProvider implements SMSProvider {
 
 export class TeamService {
   private db: any;
+  private random: RandomSource;
+  private leagues: LeagueService;
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.random = options.random ?? defaultRandom;
+    this.leagues = new LeagueService(dbClient, options);
   }
 
   // ---- Team CRUD ----
@@ -474,7 +532,7 @@ export class TeamService {
     }
 
     // Shuffle players
-    const shuffled = [...playerIds].sort(() => Math.random() - 0.5);
+    const shuffled = shuffle(playerIds, this.random);
     const teams: Team[] = [];
 
     for (let i = 0; i < shuffled.length; i += 2) {
@@ -498,7 +556,14 @@ export class TeamService {
     startingScore?: number;
     targetLegs?: number;
     matchType?: 'first_to' | 'best_of';
+    gameMode?: string;
+    gameConfig?: Record<string, unknown>;
   }): Promise<DoublesMatch> {
+    const { mode, config } = resolveGameSettings(
+      { game_mode: data.gameMode, game_config: data.gameConfig },
+      { startingScore: data.startingScore, matchType: data.matchType, targetLegs: data.targetLegs }
+    );
+
     const { data: match, error } = await this.db
       .from('doubles_matches')
       .insert([{
@@ -512,6 +577,8 @@ export class TeamService {
         starting_score: data.startingScore || 501,
         target_legs: data.targetLegs || 3,
         match_type: data.matchType || 'first_to',
+        game_mode: mode.id,
+        game_config: config,
         status: 'pending',
         created_at: new Date().toISOString()
       }])
@@ -589,6 +656,205 @@ export class TeamService {
     return data;
   }
 
+  // ---- Team Fixtures ----
+
+  /**
+   * Team fixture awaiting both line-ups - for a team league match the
+   * teams come from the match and the running order from its league
+   */
+  async createTeamFixture(data: {
+    homeTeamId?: string;
+    awayTeamId?: string;
+    runningOrder?: RubberFormat[];
+    leagueMatchId?: string;
+  }): Promise<TeamFixture> {
+    let { homeTeamId, awayTeamId, runningOrder } = data;
+
+    if (data.leagueMatchId) {
+      const { data: match } = await this.db
+        .from('league_matches')
+        .select('*')
+        .eq('id', data.leagueMatchId)
+        .single();
+
+      if (!match) throw new Error('Match not found');
+
+      const league = await this.leagues.getLeague(match.league_id);
+      if (!league?.team_league) throw new Error('Not a team league match');
+
+      homeTeamId = match.home_team_id;
+      awayTeamId = match.away_team_id;
+      runningOrder ??= league.running_order;
+    }
+
+    if (!homeTeamId || !awayTeamId) throw new Error('Both teams are needed');
+
+    const { data: fixture, error } = await this.db
+      .from('team_fixtures')
+      .insert([{
+        home_team_id: homeTeamId,
+        away_team_id: awayTeamId,
+        league_match_id: data.leagueMatchId,
+        running_order: runningOrder ?? DEFAULT_RUNNING_ORDER,
+        home_points: 0,
+        away_points: 0,
+        status: 'awaiting_line_ups',
+        created_at: new Date().toISOString()
+      }])
+      .select()
+      .single();
+
+    if (error) throw error;
+    return fixture;
+  }
+
+  async getTeamFixture(fixtureId: string): Promise<TeamFixture | null> {
+    const { data, error } = await this.db
+      .from('team_fixtures')
+      .select('*')
+      .eq('id', fixtureId)
+      .single();
+
+    if (error) return null;
+    return data;
+  }
+
+  async getRubbers(fixtureId: string): Promise<TeamRubber[]> {
+    const { data, error } = await this.db
+      .from('team_rubbers')
+      .select('*')
+      .eq('fixture_id', fixtureId)
+      .order('rubber_number');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * Captain's line-up: the players for each rubber, in running order
+   * Once both are in, the rubbers are set up and the match can start
+   */
+  async submitLineUp(
+    fixtureId: string,
+    teamId: string,
+    captainId: string,
+    lineUp: string[][]
+  ): Promise<TeamFixture> {
+    const fixture = await this.getTeamFixture(fixtureId);
+    if (!fixture) throw new Error('Fixture not found');
+    if (fixture.status !== 'awaiting_line_ups') throw new Error('Line-ups are closed once the match starts');
+
+    const side = teamId === fixture.home_team_id ? 'home' : teamId === fixture.away_team_id ? 'away' : null;
+    if (!side) throw new Error('Team is not in this fixture');
+
+    const team = await this.getTeam(teamId);
+    if (!team) throw new Error('Team not found');
+    if ((team.captain_id ?? team.player1_id) !== captainId) {
+      throw new Error('Only the team captain can submit the line-up');
+    }
+
+    validateLineUp(fixture.running_order, lineUp, getTeamMembers(team));
+
+    const homeLineUp = side === 'home' ? lineUp : fixture.home_line_up;
+    const awayLineUp = side === 'away' ? lineUp : fixture.away_line_up;
+    const ready = !!homeLineUp && !!awayLineUp;
+
+    if (ready) {
+      const { error } = await this.db
+        .from('team_rubbers')
+        .insert(fixture.running_order.map((rubber, i) => ({
+          fixture_id: fixtureId,
+          rubber_number: i + 1,
+          type: rubber.type,
+          home_player_ids: homeLineUp[i],
+          away_player_ids: awayLineUp[i],
+          home_legs: 0,
+          away_legs: 0,
+          status: 'pending'
+        })));
+
+      if (error) throw error;
+    }
+
+    const { data, error } = await this.db
+      .from('team_fixtures')
+      .update({
+        [`${side}_line_up`]: lineUp,
+        status: ready ? 'in_progress' : 'awaiting_line_ups'
+      })
+      .eq('id', fixtureId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
+
+  /**
+   * Score a rubber - rubbers are played in running order, and a played
+   * one can be corrected. When the last rubber is in, the team result
+   * goes to the league match, if there is one.
+   */
+  async recordRubberResult(
+    rubberId: string,
+    homeLegs: number,
+    awayLegs: number,
+    stats?: any
+  ): Promise<TeamResult> {
+    const { data: rubber } = await this.db
+      .from('team_rubbers')
+      .select('*')
+      .eq('id', rubberId)
+      .single();
+
+    if (!rubber) throw new Error('Rubber not found');
+
+    const fixture = await this.getTeamFixture(rubber.fixture_id);
+    if (!fixture) throw new Error('Fixture not found');
+
+    const earlier = (await this.getRubbers(fixture.id))
+      .filter(r => r.rubber_number < rubber.rubber_number);
+    if (earlier.some(r => r.status !== 'completed')) {
+      throw new Error('Rubbers are played in running order');
+    }
+
+    const winner = getRubberWinner(fixture.running_order[rubber.rubber_number - 1], homeLegs, awayLegs);
+
+    await this.db
+      .from('team_rubbers')
+      .update({
+        home_legs: homeLegs,
+        away_legs: awayLegs,
+        status: 'completed',
+        winner,
+        stats
+      })
+      .eq('id', rubberId);
+
+    const result = getTeamResult(fixture.running_order, await this.getRubbers(fixture.id));
+    const winnerTeamId = result.winner === 'home'
+      ? fixture.home_team_id
+      : result.winner === 'away' ? fixture.away_team_id : null;
+
+    await this.db
+      .from('team_fixtures')
+      .update({
+        home_points: result.home_points,
+        away_points: result.away_points,
+        status: result.completed ? 'completed' : 'in_progress',
+        winner_team_id: winnerTeamId,
+        completed_at: result.completed ? new Date().toISOString() : null
+      })
+      .eq('id', fixture.id);
+
+    // Team leagues score rubbers as legs
+    if (result.completed && fixture.league_match_id) {
+      await this.leagues.recordLeagueMatchResult(fixture.league_match_id, result.home_points, result.away_points);
+    }
+
+    return result;
+  }
+
   // ---- Team Stats ----
 
   async updateTeamStats(teamId: string, matchWon: boolean, average: number): Promise<void> {
@@ -681,6 +947,8 @@ CREATE TABLE IF NOT EXISTS doubles_matches (
   starting_score INTEGER DEFAULT 501,
   target_legs INTEGER DEFAULT 3,
   match_type VARCHAR(10) DEFAULT 'first_to',
+  game_mode VARCHAR(30) DEFAULT 'x01',
+  game_config JSONB DEFAULT '{}',
   
   status VARCHAR(20) DEFAULT 'pending',
   winner_team_id UUID REFERENCES teams(id),
@@ -688,12 +956,60 @@ CREATE TABLE IF NOT EXISTS doubles_matches (
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+CREATE TABLE IF NOT EXISTS team_fixtures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  
+  home_team_id UUID REFERENCES teams(id) NOT NULL,
+  away_team_id UUID REFERENCES teams(id) NOT NULL,
+  league_match_id UUID REFERENCES league_matches(id) ON DELETE SET NULL,
+  
+  running_order JSONB NOT NULL, -- e.g. [{"type": "singles", "legs": 3}, {"type": "pairs", "legs": 3}, {"type": "team", "legs": 1}]
+  home_line_up JSONB, -- Player ids for each rubber
+  away_line_up JSONB,
+  
+  home_points INTEGER DEFAULT 0,
+  away_points INTEGER DEFAULT 0,
+  
+  status VARCHAR(20) DEFAULT 'awaiting_line_ups', -- awaiting_line_ups, in_progress, completed
+  winner_team_id UUID REFERENCES teams(id),
+  
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE TABLE IF NOT EXISTS team_rubbers (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  fixture_id UUID REFERENCES team_fixtures(id) ON DELETE CASCADE,
+  rubber_number INTEGER NOT NULL,
+  type VARCHAR(10) NOT NULL, -- singles, pairs, team
+  
+  home_player_ids UUID[] NOT NULL,
+  away_player_ids UUID[] NOT NULL,
+  
+  home_legs INTEGER DEFAULT 0,
+  away_legs INTEGER DEFAULT 0,
+  
+  status VARCHAR(20) DEFAULT 'pending', -- pending, completed
+  winner VARCHAR(4), -- home, away
+  stats JSONB,
+  
+  UNIQUE(fixture_id, rubber_number)
+);
+
+-- Team leagues: entrants are teams
+ALTER TABLE league_standings ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS home_team_id UUID REFERENCES teams(id);
+ALTER TABLE league_matches ADD COLUMN IF NOT EXISTS away_team_id UUID REFERENCES teams(id);
+ALTER TABLE league_point_deductions ADD COLUMN IF NOT EXISTS team_id UUID REFERENCES teams(id) ON DELETE CASCADE;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_league_standings_team ON league_standings(league_id, team_id);
+
 -- Indexes
 CREATE INDEX IF NOT EXISTS idx_sms_notifications_player ON sms_notifications(player_id);
 CREATE INDEX IF NOT EXISTS idx_sms_notifications_status ON sms_notifications(status);
 CREATE INDEX IF NOT EXISTS idx_teams_org ON teams(organization_id);
 CREATE INDEX IF NOT EXISTS idx_teams_players ON teams(player1_id, player2_id);
 CREATE INDEX IF NOT EXISTS idx_doubles_matches_teams ON doubles_matches(team1_id, team2_id);
+CREATE INDEX IF NOT EXISTS idx_team_fixtures_teams ON team_fixtures(home_team_id, away_team_id);
 `;
 
 export default { SMSService, TeamService };
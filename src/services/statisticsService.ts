@@ -3,6 +3,18 @@
  * Lifetime stats, rankings, achievements like Darts Atlas
  */
 
+import {
+  isPracticeBest,
+  type PracticeGame,
+  type PracticeState
+} from '../scoring/practiceGames';
+import {
+  calibrateBotLevel,
+  type BotCalibration,
+  type BotCalibrationOptions
+} from '../scoring/botCalibration';
+import { DEFAULT_PLAYER_PROFILE, type PlayerProfile } from '../analytics/winPredictor';
+
 // ==================== TYPES ====================
 
 export interface PlayerLifetimeStats {
@@ -56,6 +68,9 @@ export interface PlayerLifetimeStats {
   stats_301: FormatStats;
   stats_cricket?: CricketStats;
   
+  // Practice games (keyed by practice game id)
+  practice_bests?: Record<string, PracticeBest>;
+  
   // Calculated
   rating: number;               // ELO-style rating
   rank?: number;
@@ -81,6 +96,27 @@ export interface CricketStats {
   marks_per_round: number;
   best_mpr: number;
   perfect_rounds: number;      // All 9 marks
+  total_marks?: number;        // Running totals behind marks_per_round
+  total_rounds?: number;
+}
+
+export interface PracticeBest {
+  value: number;                // Game result (darts, points, highest checkout...)
+  achieved_at: string;
+  sessions: number;             // Completed sessions of this game
+}
+
+export interface CricketMatchStatistics {
+  match_id: string;
+  player_id: string;
+  is_winner: boolean;
+  legs_won: number;
+  legs_lost: number;
+  rounds: number;
+  marks: number;
+  marks_per_round: number;
+  perfect_rounds: number;
+  created_at: string;
 }
 
 export interface MatchStatistics {
@@ -356,6 +392,86 @@ export class StatisticsService {
       .eq('player_id', matchStats.player_id);
   }
 
+  /**
+   * Fold a Cricket match into stats_cricket
+   */
+  async recordCricketMatchStats(matchStats: CricketMatchStatistics): Promise<void> {
+    const existing = await this.getPlayerStats(matchStats.player_id)
+      ?? await this.initializePlayerStats(matchStats.player_id);
+
+    const cricket = existing.stats_cricket ?? this.emptyCricketStats();
+    const totalMarks = (cricket.total_marks ?? 0) + matchStats.marks;
+    const totalRounds = (cricket.total_rounds ?? 0) + matchStats.rounds;
+
+    const stats_cricket: CricketStats = {
+      matches_played: cricket.matches_played + 1,
+      matches_won: cricket.matches_won + (matchStats.is_winner ? 1 : 0),
+      marks_per_round: totalRounds > 0 ? Math.round((totalMarks / totalRounds) * 100) / 100 : 0,
+      best_mpr: Math.max(cricket.best_mpr, matchStats.marks_per_round),
+      perfect_rounds: cricket.perfect_rounds + matchStats.perfect_rounds,
+      total_marks: totalMarks,
+      total_rounds: totalRounds
+    };
+
+    await this.db
+      .from('player_lifetime_stats')
+      .update({
+        stats_cricket,
+        last_match_date: new Date().toISOString(),
+        updated_at: new Date().toISOString()
+      })
+      .eq('player_id', matchStats.player_id);
+  }
+
+  // ---- Practice Games ----
+
+  /**
+   * Record a finished practice session and update the personal best
+   */
+  async recordPracticeResult<S extends PracticeState>(
+    playerId: string,
+    game: PracticeGame<S>,
+    state: S
+  ): Promise<{ best: PracticeBest; isPersonalBest: boolean }> {
+    if (!state.isComplete) throw new Error('Practice session is not complete');
+
+    const existing = await this.getPlayerStats(playerId)
+      ?? await this.initializePlayerStats(playerId);
+
+    const bests = existing.practice_bests ?? {};
+    const previous = bests[game.id];
+    const value = game.getResult(state);
+    const isPersonalBest = isPracticeBest(game, value, previous?.value);
+
+    const best: PracticeBest = {
+      value: isPersonalBest ? value : previous.value,
+      achieved_at: isPersonalBest ? new Date().toISOString() : previous.achieved_at,
+      sessions: (previous?.sessions ?? 0) + 1
+    };
+
+    await this.db
+      .from('player_lifetime_stats')
+      .update({
+        practice_bests: { ...bests, [game.id]: best },
+        updated_at: new Date().toISOString()
+      })
+      .eq('player_id', playerId);
+
+    return { best, isPersonalBest };
+  }
+
+  private emptyCricketStats(): CricketStats {
+    return {
+      matches_played: 0,
+      matches_won: 0,
+      marks_per_round: 0,
+      best_mpr: 0,
+      perfect_rounds: 0,
+      total_marks: 0,
+      total_rounds: 0
+    };
+  }
+
   private calculateNewRating(currentRating: number, won: boolean, opponentRating: number): number {
     const K = 32; // K-factor
     const expected = 1 / (1 + Math.pow(10, (opponentRating - currentRating) / 400));
@@ -539,6 +655,35 @@ export class StatisticsService {
     return data || [];
   }
 
+  // ---- Player Profiles ----
+
+  /**
+   * Scoring and checkout profile for match predictions
+   * Players with no history get DEFAULT_PLAYER_PROFILE
+   */
+  async getPlayerProfile(playerId: string): Promise<PlayerProfile> {
+    const stats = await this.getPlayerStats(playerId);
+    if (!stats || stats.career_average <= 0) return { ...DEFAULT_PLAYER_PROFILE };
+
+    return { average: stats.career_average, checkoutPercentage: stats.checkout_percentage };
+  }
+
+  // ---- Ghost Bots ----
+
+  /**
+   * Fit a bot to a player's recent match statistics ("ghost" opponent)
+   */
+  async createGhostBot(
+    playerId: string,
+    options: BotCalibrationOptions & { matches?: number } = {}
+  ): Promise<BotCalibration> {
+    const { matches = 50, ...calibration } = options;
+    const history = await this.getPlayerMatchHistory(playerId, matches);
+    if (history.length === 0) throw new Error('No match statistics for player');
+
+    return calibrateBotLevel(history, { name: `ghost_${playerId}`, ...calibration });
+  }
+
   // ---- Leaderboards ----
 
   async getLeaderboard(
@@ -645,6 +790,7 @@ CREATE TABLE IF NOT EXISTS player_lifetime_stats (
   stats_501 JSONB DEFAULT '{}',
   stats_301 JSONB DEFAULT '{}',
   stats_cricket JSONB,
+  practice_bests JSONB DEFAULT '{}',
   
   rating INTEGER DEFAULT 1000,
   
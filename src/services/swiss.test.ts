@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { getSwissRoundCount, getSwissStandings, pairSwissRound } from './swiss';
+import type { BracketMatch } from './brackets';
+
+const field = (count: number) => Array.from({ length: count }, (_, i) => `p${i + 1}`);
+
+// Complete a round's matches - the lower-numbered player always wins 3-1
+const playRound = (matches: BracketMatch[]): BracketMatch[] =>
+  matches.map(m => {
+    if (m.status === 'bye') return m;
+    const firstWins = Number(m.player1_id!.slice(1)) < Number(m.player2_id!.slice(1));
+    return {
+      ...m,
+      status: 'completed',
+      winner_id: firstWins ? m.player1_id : m.player2_id,
+      player1_legs: firstWins ? 3 : 1,
+      player2_legs: firstWins ? 1 : 3
+    };
+  });
+
+// Pair and play rounds from the standings, as the tournament service does
+const playSwiss = (players: string[], rounds: number): BracketMatch[] => {
+  const entrants = players.map(playerId => ({ playerId }));
+  let played: BracketMatch[] = [];
+  for (let round = 1; round <= rounds; round++) {
+    const ranking = round === 1 ? players : getSwissStandings(entrants, played).map(s => s.player_id);
+    played = [...played, ...playRound(pairSwissRound('t', ranking, played, round, played.length + 1))];
+  }
+  return played;
+};
+
+const pairKey = (m: BracketMatch) => [m.player1_id, m.player2_id].sort().join('-');
+
+describe('getSwissRoundCount', () => {
+  it('plays enough rounds to leave one unbeaten player', () => {
+    expect(getSwissRoundCount(2)).toBe(1);
+    expect(getSwissRoundCount(8)).toBe(3);
+    expect(getSwissRoundCount(9)).toBe(4);
+  });
+});
+
+describe('pairSwissRound', () => {
+  it('pairs the top half against the bottom half in round 1', () => {
+    const pairs = pairSwissRound('t', field(8), [], 1).map(m => [m.player1_id, m.player2_id]);
+    expect(pairs).toEqual([['p1', 'p5'], ['p2', 'p6'], ['p3', 'p7'], ['p4', 'p8']]);
+  });
+
+  it('never pairs a rematch', () => {
+    for (const size of [4, 6, 7, 8, 10]) {
+      const played = playSwiss(field(size), Math.min(size - 1, 5));
+      const pairs = played.filter(m => m.status !== 'bye').map(pairKey);
+
+      expect(new Set(pairs).size).toBe(pairs.length);
+    }
+  });
+
+  it('pairs players on the same score', () => {
+    const played = playSwiss(field(8), 2);
+    const entrants = field(8).map(playerId => ({ playerId }));
+    const standings = getSwissStandings(entrants, played);
+    const points = new Map(standings.map(s => [s.player_id, s.points]));
+    const round3 = pairSwissRound('t', standings.map(s => s.player_id), played, 3);
+
+    for (const match of round3) expect(points.get(match.player1_id!)).toBe(points.get(match.player2_id!));
+  });
+
+  it('gives the bye to the lowest-ranked player without one', () => {
+    const played = playSwiss(field(7), 3);
+    const byes = played.filter(m => m.status === 'bye');
+
+    expect(byes.map(m => m.player1_id)).toEqual(['p7', 'p6', 'p5']);
+    expect(byes.every(m => m.winner_id === m.player1_id)).toBe(true);
+  });
+
+  it('gives nobody a second bye', () => {
+    const played = playSwiss(field(5), 5);
+    const byes = played.filter(m => m.status === 'bye').map(m => m.player1_id);
+
+    expect(byes).toHaveLength(5);
+    expect(new Set(byes).size).toBe(5);
+  });
+
+  it('pairs a player alone on their score with the next group', () => {
+    const played = playSwiss(field(4), 2);
+    const round3 = pairSwissRound('t', ['p1', 'p2', 'p3', 'p4'], played, 3);
+
+    expect(round3.every(m => m.player1_id !== m.player2_id)).toBe(true);
+    expect(round3.map(pairKey)).toEqual(['p1-p4', 'p2-p3']);
+  });
+
+  it('lets the player who threw second throw first', () => {
+    const played: BracketMatch[] = [
+      { round: 1, player1_id: 'p1', player2_id: 'p2', winner_id: 'p2', status: 'completed' },
+      { round: 1, player1_id: 'p3', player2_id: 'p4', winner_id: 'p3', status: 'completed' }
+    ];
+    const pairs = pairSwissRound('t', ['p3', 'p2', 'p1', 'p4'], played, 2).map(m => [m.player1_id, m.player2_id]);
+
+    expect(pairs).toEqual([['p2', 'p3'], ['p4', 'p1']]);
+  });
+
+  it('throws once everyone has met', () => {
+    const played = playSwiss(field(4), 3);
+    expect(() => pairSwissRound('t', field(4), played, 4))
+      .toThrow('No Swiss pairing is possible without a rematch');
+  });
+});
+
+describe('getSwissStandings', () => {
+  it('counts a bye as a win but not a game played', () => {
+    const played = playSwiss(field(3), 1);
+    const bye = getSwissStandings(field(3).map(playerId => ({ playerId })), played)
+      .find(s => s.player_id === 'p3')!;
+
+    expect(bye).toMatchObject({ played: 0, byes: 1, points: 1 });
+  });
+
+  it('breaks ties on Buchholz', () => {
+    const played = playSwiss(field(8), 2);
+    const standings = getSwissStandings(field(8).map(playerId => ({ playerId })), played);
+    const oneWin = standings.filter(s => s.points === 1);
+
+    for (let i = 1; i < oneWin.length; i++) {
+      expect(oneWin[i - 1].buchholz).toBeGreaterThanOrEqual(oneWin[i].buchholz);
+    }
+    expect(standings[0]).toMatchObject({ player_id: 'p1', points: 2, leg_difference: 4 });
+  });
+});
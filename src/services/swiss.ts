@@ -0,0 +1,291 @@
+/**
+ * Swiss System
+ * Pairs each round from the standings so far: players meet others on the
+ * same score, never the same opponent twice, and take turns throwing first
+ * (player1 throws first). An odd field gives a bye, worth a win, to the
+ * lowest-ranked player who hasn't had one.
+ *
+ * Standings rank by match points, then Buchholz (the points of everyone
+ * a player has met), median-Buchholz (the same without the best and worst
+ * opponent) and leg difference.
+ */
+
+import type { TournamentMatch } from './tournamentService';
+import type { BracketMatch, DrawEntrant } from './brackets';
+
+// ==================== TYPES ====================
+
+export interface SwissStanding {
+  player_id: string;
+  position: number;
+  played: number;                // Byes not included
+  won: number;
+  lost: number;
+  byes: number;
+  points: number;
+  buchholz: number;
+  median_buchholz: number;
+  legs_for: number;
+  legs_against: number;
+  leg_difference: number;
+}
+
+// ==================== CONSTANTS ====================
+
+export const SWISS_POINTS = Object.freeze({
+  win: 1,
+  bye: 1,
+  loss: 0
+});
+
+// ==================== ROUNDS ====================
+
+/**
+ * Default number of rounds - enough to leave one unbeaten player
+ */
+export function getSwissRoundCount(playerCount: number): number {
+  return Math.max(1, Math.ceil(Math.log2(playerCount)));
+}
+
+/**
+ * Pairings for the next round
+ * ranking is best first: the draw order for round 1, the standings after
+ * that. Within a score group the top half meets the bottom half, and
+ * players drop to the next group only when they must to avoid a rematch.
+ */
+export function pairSwissRound(
+  tournamentId: string,
+  ranking: readonly string[],
+  played: readonly Partial<TournamentMatch>[],
+  round: number,
+  firstMatchNumber = 1
+): BracketMatch[] {
+  const history = getHistory(ranking, played);
+  const points = new Map(ranking.map(id => [id, history.get(id)!.points]));
+
+  let byePlayer: string | null = null;
+  let pairs: [string, string][] | null = null;
+
+  if (ranking.length % 2 === 0) {
+    pairs = pairPlayers([...ranking], points, history);
+  } else {
+    // Lowest-ranked player without a bye yet, moving up if the rest can't pair
+    for (let i = ranking.length - 1; i >= 0 && !pairs; i--) {
+      if (history.get(ranking[i])!.byes > 0) continue;
+      byePlayer = ranking[i];
+      pairs = pairPlayers(ranking.filter(id => id !== byePlayer), points, history);
+    }
+  }
+
+  if (!pairs) throw new Error('No Swiss pairing is possible without a rematch');
+
+  let matchNumber = firstMatchNumber;
+  const matches: BracketMatch[] = pairs.map(([a, b]) => {
+    const [first, second] = orderThrowFirst(a, b, history);
+    return {
+      tournament_id: tournamentId,
+      stage: 'swiss',
+      round,
+      match_number: matchNumber++,
+      player1_id: first,
+      player2_id: second,
+      player1_legs: 0,
+      player2_legs: 0,
+      status: 'ready'
+    };
+  });
+
+  if (byePlayer) {
+    matches.push({
+      tournament_id: tournamentId,
+      stage: 'swiss',
+      round,
+      match_number: matchNumber,
+      player1_id: byePlayer,
+      winner_id: byePlayer,
+      player1_legs: 0,
+      player2_legs: 0,
+      status: 'bye'
+    });
+  }
+
+  return matches;
+}
+
+// ==================== STANDINGS ====================
+
+/**
+ * Swiss table from the matches played so far
+ * Ties after every tiebreak go to the higher seed, then keep the entrants' order
+ */
+export function getSwissStandings(
+  entrants: readonly DrawEntrant[],
+  matches: readonly Partial<TournamentMatch>[]
+): SwissStanding[] {
+  const order = [...entrants]
+    .sort((a, b) => (a.seed ?? Infinity) - (b.seed ?? Infinity))
+    .map(e => e.playerId);
+  const history = getHistory(order, matches);
+
+  const standings = order.map(playerId => {
+    const h = history.get(playerId)!;
+    const opponentPoints = h.opponents.map(id => history.get(id)?.points ?? 0).sort((a, b) => a - b);
+    const buchholz = opponentPoints.reduce((sum, p) => sum + p, 0);
+    const median = opponentPoints.length > 2 ? opponentPoints.slice(1, -1).reduce((sum, p) => sum + p, 0) : buchholz;
+
+    return {
+      player_id: playerId,
+      position: 0,
+      played: h.won + h.lost,
+      won: h.won,
+      lost: h.lost,
+      byes: h.byes,
+      points: h.points,
+      buchholz,
+      median_buchholz: median,
+      legs_for: h.legsFor,
+      legs_against: h.legsAgainst,
+      leg_difference: h.legsFor - h.legsAgainst
+    };
+  });
+
+  standings.sort((a, b) =>
+    b.points - a.points ||
+    b.buchholz - a.buchholz ||
+    b.median_buchholz - a.median_buchholz ||
+    b.leg_difference - a.leg_difference ||
+    order.indexOf(a.player_id) - order.indexOf(b.player_id)
+  );
+  standings.forEach((s, i) => { s.position = i + 1; });
+
+  return standings;
+}
+
+// ==================== HISTORY ====================
+
+interface PlayerHistory {
+  points: number;
+  won: number;
+  lost: number;
+  byes: number;
+  legsFor: number;
+  legsAgainst: number;
+  opponents: string[];
+  throwBalance: number;          // Matches throwing first minus matches throwing second
+  lastThrewFirst?: boolean;
+}
+
+function getHistory(
+  playerIds: readonly string[],
+  matches: readonly Partial<TournamentMatch>[]
+): Map<string, PlayerHistory> {
+  const history = new Map<string, PlayerHistory>(playerIds.map(id => [id, {
+    points: 0,
+    won: 0,
+    lost: 0,
+    byes: 0,
+    legsFor: 0,
+    legsAgainst: 0,
+    opponents: [],
+    throwBalance: 0
+  }]));
+
+  const ordered = [...matches]
+    .filter(m => m.stage === undefined || m.stage === 'swiss')
+    .sort((a, b) => (a.round ?? 0) - (b.round ?? 0));
+
+  for (const match of ordered) {
+    const first = match.player1_id && history.get(match.player1_id);
+    const second = match.player2_id && history.get(match.player2_id);
+
+    if (match.status === 'bye' && first) {
+      first.byes++;
+      first.points += SWISS_POINTS.bye;
+      continue;
+    }
+    if (!first || !second) continue;
+
+    // Pairings count from the draw - a rematch is barred before it is played
+    first.opponents.push(match.player2_id!);
+    second.opponents.push(match.player1_id!);
+    first.throwBalance++;
+    second.throwBalance--;
+    first.lastThrewFirst = true;
+    second.lastThrewFirst = false;
+
+    if (match.status !== 'completed') continue;
+
+    const legs1 = match.player1_legs ?? 0;
+    const legs2 = match.player2_legs ?? 0;
+    first.legsFor += legs1;
+    first.legsAgainst += legs2;
+    second.legsFor += legs2;
+    second.legsAgainst += legs1;
+
+    const [winner, loser] = match.winner_id === match.player1_id ? [first, second] : [second, first];
+    winner.won++;
+    winner.points += SWISS_POINTS.win;
+    loser.lost++;
+    loser.points += SWISS_POINTS.loss;
+  }
+
+  return history;
+}
+
+// ==================== PAIRING ====================
+
+/**
+ * Pair a ranked list with backtracking - the top player takes the first
+ * opponent in preference order that leaves the rest pairable
+ */
+function pairPlayers(
+  ranked: string[],
+  points: Map<string, number>,
+  history: Map<string, PlayerHistory>
+): [string, string][] | null {
+  if (ranked.length === 0) return [];
+
+  const [player, ...rest] = ranked;
+  const met = history.get(player)!.opponents;
+
+  for (const opponent of getPreferences(player, rest, points)) {
+    if (met.includes(opponent)) continue;
+
+    const others = rest.filter(id => id !== opponent);
+    const pairs = pairPlayers(others, points, history);
+    if (pairs) return [[player, opponent], ...pairs];
+  }
+  return null;
+}
+
+/**
+ * Opponents for the top player in preference order: their own score group
+ * from the middle down (top half v bottom half), then back up the group,
+ * then the groups below in ranking order
+ */
+function getPreferences(player: string, rest: readonly string[], points: Map<string, number>): string[] {
+  const score = points.get(player);
+  const group = [player, ...rest.filter(id => points.get(id) === score)];
+  const middle = Math.max(1, Math.floor(group.length / 2));   // Alone on a score, the player is all there is
+
+  return [
+    ...group.slice(middle),
+    ...group.slice(1, middle).reverse(),
+    ...rest.filter(id => points.get(id) !== score)
+  ];
+}
+
+/**
+ * Who throws first: the player who has thrown first less often, then
+ * whoever threw second last time, then the higher-ranked player
+ */
+function orderThrowFirst(a: string, b: string, history: Map<string, PlayerHistory>): [string, string] {
+  const ha = history.get(a)!;
+  const hb = history.get(b)!;
+
+  if (ha.throwBalance !== hb.throwBalance) return ha.throwBalance < hb.throwBalance ? [a, b] : [b, a];
+  if (!!ha.lastThrewFirst !== !!hb.lastThrewFirst) return ha.lastThrewFirst ? [b, a] : [a, b];
+  return [a, b];
+}
+
+export default pairSwissRound;
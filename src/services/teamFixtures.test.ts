@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import {
+  DEFAULT_RUNNING_ORDER,
+  getRubberSize,
+  getRubberWinner,
+  getTeamMembers,
+  getTeamResult,
+  validateLineUp,
+  type RubberFormat
+} from './teamFixtures';
+import type { TeamRubber } from './smsTeamsService';
+
+const members = ['a', 'b', 'c', 'd'];
+
+// A legal line-up for the default card
+const lineUp = (): string[][] => [['a'], ['b'], ['c'], ['d'], ['a', 'b'], ['c', 'd'], [...members]];
+
+const rubber = (rubberNumber: number, winner?: 'home' | 'away'): Partial<TeamRubber> => ({
+  rubber_number: rubberNumber,
+  status: winner ? 'completed' : 'pending',
+  winner
+});
+
+describe('line-ups', () => {
+  it('reads the members and rubber sizes', () => {
+    expect(getTeamMembers({ player1_id: 'a', player2_id: 'b', player3_id: undefined, player4_id: 'd' }))
+      .toEqual(['a', 'b', 'd']);
+    expect([getRubberSize('singles', 4), getRubberSize('pairs', 4), getRubberSize('team', 3)]).toEqual([1, 2, 3]);
+  });
+
+  it('accepts a line-up that fits the card', () => {
+    expect(() => validateLineUp(DEFAULT_RUNNING_ORDER, lineUp(), members)).not.toThrow();
+  });
+
+  it('needs a line-up for every rubber, of the right size', () => {
+    expect(() => validateLineUp(DEFAULT_RUNNING_ORDER, lineUp().slice(1), members))
+      .toThrow('Line-up has 6 rubbers but the card has 7');
+
+    const short = lineUp();
+    short[4] = ['a'];
+    expect(() => validateLineUp(DEFAULT_RUNNING_ORDER, short, members)).toThrow('Rubber 5 (pairs) needs 2 players');
+  });
+
+  it('limits how many singles each player plays', () => {
+    const twice = lineUp();
+    twice[3] = ['a'];
+    expect(() => validateLineUp(DEFAULT_RUNNING_ORDER, twice, members)).toThrow('A player can play at most 1 singles');
+
+    // Three players share four singles - one of them plays two
+    const trio = ['a', 'b', 'c'];
+    const card = DEFAULT_RUNNING_ORDER.slice(0, 4);
+    expect(() => validateLineUp(card, [['a'], ['b'], ['c'], ['a']], trio)).not.toThrow();
+    expect(() => validateLineUp(card, [['a'], ['a'], ['a'], ['b']], trio)).toThrow('A player can play at most 2 singles');
+  });
+
+  it('turns away players from outside the team', () => {
+    const outsider = lineUp();
+    outsider[0] = ['z'];
+    expect(() => validateLineUp(DEFAULT_RUNNING_ORDER, outsider, members))
+      .toThrow('Rubber 1 names a player from outside the team');
+  });
+
+  it('turns away a player named twice in a rubber', () => {
+    const duplicate = lineUp();
+    duplicate[5] = ['c', 'c'];
+    expect(() => validateLineUp(DEFAULT_RUNNING_ORDER, duplicate, members)).toThrow('Rubber 6 names a player twice');
+  });
+});
+
+describe('getRubberWinner', () => {
+  it('reads best-of legs by default', () => {
+    expect(getRubberWinner({ type: 'singles', legs: 3 }, 2, 1)).toBe('home');
+    expect(getRubberWinner({ type: 'singles', legs: 3 }, 0, 2)).toBe('away');
+    expect(() => getRubberWinner({ type: 'singles', legs: 3 }, 3, 0)).toThrow('A rubber is won at 2 legs');
+  });
+
+  it('reads first-to legs', () => {
+    const format: RubberFormat = { type: 'pairs', legs: 3, match_type: 'first_to' };
+    expect(getRubberWinner(format, 3, 2)).toBe('home');
+    expect(() => getRubberWinner(format, 2, 1)).toThrow('A rubber is won at 3 legs');
+  });
+
+  it('needs the rubber to be finished', () => {
+    expect(() => getRubberWinner({ type: 'team', legs: 1 }, 0, 0)).toThrow('A rubber is won at 1 legs');
+    expect(() => getRubberWinner({ type: 'team', legs: 1 }, 1, 1)).toThrow();
+  });
+});
+
+describe('getTeamResult', () => {
+  const card: RubberFormat[] = [
+    { type: 'singles', legs: 3 },
+    { type: 'singles', legs: 3 },
+    { type: 'pairs', legs: 3, points: 2 }
+  ];
+
+  it('weights rubbers by their points', () => {
+    const result = getTeamResult(card, [rubber(1, 'home'), rubber(2, 'home'), rubber(3, 'away')]);
+    expect(result).toEqual({ home_points: 2, away_points: 2, completed: true, winner: null });
+
+    expect(getTeamResult(card, [rubber(1, 'away'), rubber(2, 'home'), rubber(3, 'home')]))
+      .toEqual({ home_points: 3, away_points: 1, completed: true, winner: 'home' });
+  });
+
+  it('has no winner until every rubber is in', () => {
+    const result = getTeamResult(card, [rubber(1, 'home'), rubber(2, 'home'), rubber(3)]);
+    expect(result).toEqual({ home_points: 2, away_points: 0, completed: false, winner: null });
+  });
+});
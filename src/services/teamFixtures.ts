@@ -0,0 +1,147 @@
+/**
+ * Team Fixtures
+ * A team night is a card of rubbers - singles, pairs and a team game -
+ * played in a fixed running order. Each captain names a line-up for
+ * every rubber before the match, and the team result is the rubber points
+ * each side won.
+ *
+ * Line-ups are checked against the card: the right number of players per
+ * rubber, all from the team, nobody twice in a rubber, and singles shared
+ * out so nobody plays more than their turn.
+ */
+
+import type { Team, TeamRubber } from './smsTeamsService';
+import { winsNeeded } from '../scoring/scoringEngine';
+
+// ==================== TYPES ====================
+
+export type RubberType = 'singles' | 'pairs' | 'team';
+
+export interface RubberFormat {
+  type: RubberType;
+  legs: number;                  // Target legs, read with match_type
+  match_type?: 'first_to' | 'best_of';   // Default 'best_of'
+  points?: number;               // Team points for winning it, default 1
+}
+
+export interface TeamResult {
+  home_points: number;
+  away_points: number;
+  completed: boolean;            // Every rubber played
+  winner: 'home' | 'away' | null;   // Null while playing, or on a draw
+}
+
+// ==================== CONSTANTS ====================
+
+/**
+ * Four singles, two pairs and a team game
+ */
+export const DEFAULT_RUNNING_ORDER: readonly RubberFormat[] = Object.freeze([
+  { type: 'singles', legs: 3 },
+  { type: 'singles', legs: 3 },
+  { type: 'singles', legs: 3 },
+  { type: 'singles', legs: 3 },
+  { type: 'pairs', legs: 3 },
+  { type: 'pairs', legs: 3 },
+  { type: 'team', legs: 1 }
+]);
+
+// ==================== LINE-UPS ====================
+
+/**
+ * Players in a team, in member order
+ */
+export function getTeamMembers(team: Pick<Team, 'player1_id' | 'player2_id' | 'player3_id' | 'player4_id'>): string[] {
+  return [team.player1_id, team.player2_id, team.player3_id, team.player4_id]
+    .filter((id): id is string => !!id);
+}
+
+/**
+ * Players each side puts out for a rubber - the team game takes the whole team
+ */
+export function getRubberSize(type: RubberType, teamSize: number): number {
+  if (type === 'singles') return 1;
+  if (type === 'pairs') return 2;
+  return teamSize;
+}
+
+/**
+ * Check a captain's line-up (players for each rubber, in running order)
+ * Throws on the first problem found
+ */
+export function validateLineUp(
+  runningOrder: readonly RubberFormat[],
+  lineUp: readonly (readonly string[])[],
+  members: readonly string[]
+): void {
+  if (lineUp.length !== runningOrder.length) {
+    throw new Error(`Line-up has ${lineUp.length} rubbers but the card has ${runningOrder.length}`);
+  }
+
+  const singlesCount = runningOrder.filter(r => r.type === 'singles').length;
+  const maxSingles = Math.ceil(singlesCount / Math.max(1, members.length));
+  const singles = new Map<string, number>();
+
+  runningOrder.forEach((rubber, i) => {
+    const players = lineUp[i];
+    const size = getRubberSize(rubber.type, members.length);
+
+    if (players.length !== size) {
+      throw new Error(`Rubber ${i + 1} (${rubber.type}) needs ${size} players`);
+    }
+    if (new Set(players).size !== players.length) {
+      throw new Error(`Rubber ${i + 1} names a player twice`);
+    }
+    for (const playerId of players) {
+      if (!members.includes(playerId)) throw new Error(`Rubber ${i + 1} names a player from outside the team`);
+      if (rubber.type !== 'singles') continue;
+
+      singles.set(playerId, (singles.get(playerId) ?? 0) + 1);
+      if (singles.get(playerId)! > maxSingles) {
+        throw new Error(`A player can play at most ${maxSingles} singles`);
+      }
+    }
+  });
+}
+
+// ==================== RESULTS ====================
+
+/**
+ * Winning side of a finished rubber - throws when the legs don't finish it
+ */
+export function getRubberWinner(format: RubberFormat, homeLegs: number, awayLegs: number): 'home' | 'away' {
+  const needed = winsNeeded(format.match_type ?? 'best_of', format.legs);
+  const homeWon = homeLegs === needed && awayLegs < needed;
+  const awayWon = awayLegs === needed && homeLegs < needed;
+
+  if (!homeWon && !awayWon) throw new Error(`A rubber is won at ${needed} legs`);
+  return homeWon ? 'home' : 'away';
+}
+
+/**
+ * Team score from the rubbers played so far
+ */
+export function getTeamResult(
+  runningOrder: readonly RubberFormat[],
+  rubbers: readonly Partial<TeamRubber>[]
+): TeamResult {
+  let homePoints = 0;
+  let awayPoints = 0;
+  let played = 0;
+
+  for (const rubber of rubbers) {
+    if (rubber.status !== 'completed' || !rubber.winner) continue;
+
+    const points = runningOrder[rubber.rubber_number! - 1]?.points ?? 1;
+    if (rubber.winner === 'home') homePoints += points;
+    else awayPoints += points;
+    played++;
+  }
+
+  const completed = played === runningOrder.length;
+  const winner = !completed || homePoints === awayPoints ? null : homePoints > awayPoints ? 'home' : 'away';
+
+  return { home_points: homePoints, away_points: awayPoints, completed, winner };
+}
+
+export default getTeamResult;
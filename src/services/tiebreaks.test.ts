@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { rankByTiebreaks } from './tiebreaks';
+
+interface Entry {
+  id: string;
+  points: number;
+  legs: number;
+}
+
+const entries: Entry[] = [
+  { id: 'a', points: 4, legs: 1 },
+  { id: 'b', points: 6, legs: 0 },
+  { id: 'c', points: 4, legs: 3 },
+  { id: 'd', points: 4, legs: 1 }
+];
+
+const byField = (tiebreak: 'points' | 'legs') => (entry: Entry) => entry[tiebreak];
+
+describe('rankByTiebreaks', () => {
+  it('splits only the entrants still level on the tiebreaks before', () => {
+    const ranked = rankByTiebreaks(entries, ['points', 'legs'] as const, byField);
+    expect(ranked.map(e => e.id)).toEqual(['b', 'c', 'a', 'd']);
+  });
+
+  it('keeps the given order for entrants level on everything', () => {
+    const ranked = rankByTiebreaks([entries[3], entries[0]], ['points', 'legs'] as const, byField);
+    expect(ranked.map(e => e.id)).toEqual(['d', 'a']);
+  });
+
+  it('asks for each tiebreak with just the tied entrants, and stops on null', () => {
+    const asked: string[] = [];
+    const ranked = rankByTiebreaks(entries, ['points', 'legs'] as const, (tiebreak, tied) => {
+      asked.push(`${tiebreak}:${tied.map(e => e.id).join('')}`);
+      return tiebreak === 'legs' ? null : byField(tiebreak);
+    });
+
+    expect(asked).toEqual(['points:abcd', 'legs:acd']);
+    expect(ranked.map(e => e.id)).toEqual(['b', 'a', 'c', 'd']);
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * Tiebreaks
+ * Orders entrants level on points by a list of tiebreaks: the first splits
+ * the field, the next splits whoever is still level on it, and so on.
+ * Used by group tables and league standings.
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * A tiebreak's value for each of the tied entrants (higher ranks first),
+ * or null to stop and leave them level
+ */
+export type TiebreakValue<T, K> = (tiebreak: K, tied: readonly T[]) => ((entrant: T) => number) | null;
+
+// ==================== RANKING ====================
+
+/**
+ * Rank tied entrants by the tiebreaks in order
+ * Entrants level on every tiebreak keep the order they were given in
+ */
+export function rankByTiebreaks<T, K>(
+  tied: T[],
+  tiebreaks: readonly K[],
+  getValue: TiebreakValue<T, K>
+): T[] {
+  if (tied.length < 2 || tiebreaks.length === 0) return tied;
+
+  const [tiebreak, ...rest] = tiebreaks;
+  const value = getValue(tiebreak, tied);
+  if (!value) return tied;
+
+  const sorted = [...tied].sort((a, b) => value(b) - value(a));
+
+  // Split into runs still level on this tiebreak and break those on the rest
+  const ranked: T[] = [];
+  for (let start = 0; start < sorted.length;) {
+    let end = start + 1;
+    while (end < sorted.length && value(sorted[end]) === value(sorted[start])) end++;
+    ranked.push(...rankByTiebreaks(sorted.slice(start, end), rest, getValue));
+    start = end;
+  }
+  return ranked;
+}
+
+export default rankByTiebreaks;
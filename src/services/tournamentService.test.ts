@@ -0,0 +1,415 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { LeagueService, TournamentService } from './tournamentService';
+import { createFakeDatabase } from '../test/fakeDatabase';
+import { createRandom } from '../utils/random';
+
+const players = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6'];
+
+const setup = (format = 'single_elimination', entrants = players) => {
+  const db = createFakeDatabase({
+    tournaments: [{
+      id: 't1',
+      name: 'Spring Open',
+      format,
+      status: 'registration_closed',
+      min_players: 2,
+      max_players: 16,
+      seeding: 'manual'
+    }],
+    tournament_registrations: entrants.map((playerId, i) => ({
+      id: `r${i + 1}`,
+      tournament_id: 't1',
+      player_id: playerId,
+      registered_at: `2026-03-0${i + 1}`,
+      status: 'confirmed',
+      seed: i < 2 ? i + 1 : undefined
+    }))
+  });
+  return { db, service: new TournamentService(db) };
+};
+
+const pairings = (rows: Record<string, any>[]) =>
+  rows.map(m => [m.round, m.match_number, m.player1_id ?? null, m.player2_id ?? null]);
+
+describe('seeded draws', () => {
+  it('draws the same bracket from the same seed', async () => {
+    const first = setup();
+    const second = setup();
+
+    const a = await first.service.generateBracket('t1', { seed: 'spring-open' });
+    const b = await second.service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(pairings(a)).toEqual(pairings(b));
+    expect(first.db.tables.tournaments[0]).toMatchObject({ status: 'in_progress', draw_seed: 'spring-open' });
+  });
+
+  it('verifies the stored draw', async () => {
+    const { service } = setup();
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(await service.verifyDraw('t1')).toBe(true);
+  });
+
+  it('verifies against the entrants drawn, not today\'s registrations', async () => {
+    const { db, service } = setup();
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(db.tables.tournaments[0].draw_entrants).toHaveLength(players.length);
+
+    // A withdrawal and a reseed after the draw
+    db.tables.tournament_registrations[5].status = 'withdrawn';
+    db.tables.tournament_registrations[0].seed = 2;
+    db.tables.tournament_registrations[1].seed = 1;
+
+    expect(await service.verifyDraw('t1')).toBe(true);
+  });
+
+  it('rejects a draw that was changed', async () => {
+    const { db, service } = setup();
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    const match = db.tables.tournament_matches.find(m => m.player1_id && m.player2_id)!;
+    [match.player1_id, match.player2_id] = [match.player2_id, match.player1_id];
+
+    expect(await service.verifyDraw('t1')).toBe(false);
+  });
+
+  it('needs a draw to verify', async () => {
+    const { service } = setup();
+    await expect(service.verifyDraw('t1')).rejects.toThrow('Tournament has not been drawn');
+  });
+});
+
+describe('seeding', () => {
+  const seeds = (db: ReturnType<typeof setup>['db']) =>
+    Object.fromEntries(db.tables.tournament_registrations.map(r => [r.player_id, r.seed ?? null]));
+
+  it('seeds by rating, best first, leaving unrated players unseeded', async () => {
+    const { db, service } = setup();
+    db.tables.tournaments[0].seeding = 'rating';
+    [1500, 1720, undefined, 1610, 1390, undefined].forEach((rating, i) => {
+      db.tables.tournament_registrations[i].player = { id: players[i], rating };
+    });
+
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(seeds(db)).toEqual({ p1: 3, p2: 1, p3: null, p4: 2, p5: 4, p6: null });
+  });
+
+  it('seeds by the organisation ranking', async () => {
+    const { db, service } = setup();
+    Object.assign(db.tables.tournaments[0], { seeding: 'ranking', organization_id: 'org1' });
+    db.tables.organization_rankings = [
+      { organization_id: 'org1', player_id: 'p5', rank: 1 },
+      { organization_id: 'org1', player_id: 'p3', rank: 2 },
+      { organization_id: 'org2', player_id: 'p1', rank: 1 }
+    ];
+
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(seeds(db)).toEqual({ p1: null, p2: null, p3: 2, p4: null, p5: 1, p6: null });
+  });
+
+  it('gives the top seeds the byes', async () => {
+    const { db, service } = setup();
+    const byes = (await service.generateBracket('t1', { seed: 'spring-open' }))
+      .filter(m => m.round === 1 && m.status === 'bye')
+      .map(m => m.player1_id);
+
+    expect(byes).toEqual(['p1', 'p2']);
+    expect(db.tables.tournament_matches).toHaveLength(7);
+  });
+
+  it('ignores seeds in a random draw', async () => {
+    const { db, service } = setup();
+    db.tables.tournaments[0].seeding = 'random';
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(db.tables.tournaments[0].draw_entrants.every((e: { seed?: number }) => e.seed === undefined)).toBe(true);
+  });
+});
+
+describe('single elimination', () => {
+  it('links the drawn matches and plays byes through', async () => {
+    const { db, service } = setup();
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    const rows = db.tables.tournament_matches;
+    const final = rows.find(m => m.round === 3)!;
+    expect(rows.filter(m => m !== final).every(m => m.next_match_id)).toBe(true);
+    expect(rows.find(m => m.match_number === 5)).toMatchObject({ player1_id: 'p1', status: 'pending' });
+  });
+
+  it('advances the winner into their bracket slot', async () => {
+    const { db, service } = setup();
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    const opener = db.tables.tournament_matches.find(m => m.match_number === 2)!;
+    await service.recordMatchResult(opener.id, 1, 3);
+
+    expect(db.tables.tournament_matches.find(m => m.match_number === 5)).toMatchObject({
+      player1_id: 'p1',
+      player2_id: opener.player2_id,
+      status: 'ready'
+    });
+  });
+});
+
+describe('double elimination', () => {
+  // Four players: winners 1-3, losers 4-5, grand final 6 and its reset 7
+  type Db = ReturnType<typeof setup>['db'];
+  const match = (db: Db, number: number) =>
+    db.tables.tournament_matches.find(m => m.match_number === number)!;
+  const play = (service: TournamentService, db: Db, number: number, winner: 1 | 2) =>
+    service.recordMatchResult(match(db, number).id, winner === 1 ? 3 : 1, winner === 1 ? 1 : 3);
+
+  it('drops losers into the losers bracket and on to the grand final', async () => {
+    const { db, service } = setup('double_elimination', players.slice(0, 4));
+    await service.generateBracket('t1', { seed: 'spring-open' });
+
+    await play(service, db, 1, 1);
+    await play(service, db, 2, 1);
+    const losersOpener = match(db, 4);
+    expect(losersOpener).toMatchObject({ bracket: 'losers', status: 'ready' });
+    expect([losersOpener.player1_id, losersOpener.player2_id].sort())
+      .toEqual([match(db, 1).player2_id, match(db, 2).player2_id].sort());
+
+    await play(service, db, 3, 1);   // Winners final
+    await play(service, db, 4, 1);   // Losers round 1
+    const losersFinal = match(db, 5);
+    expect(losersFinal).toMatchObject({ status: 'ready', player2_id: match(db, 3).player2_id });
+
+    await play(service, db, 5, 1);
+    expect(match(db, 6)).toMatchObject({
+      bracket: 'grand_final',
+      status: 'ready',
+      player1_id: match(db, 3).winner_id,
+      player2_id: match(db, 5).winner_id
+    });
+  });
+
+  it('skips the reset when the winners champion takes the grand final', async () => {
+    const { db, service } = setup('double_elimination', players.slice(0, 4));
+    await service.generateBracket('t1', { seed: 'spring-open' });
+    for (const number of [1, 2, 3, 4, 5, 6]) await play(service, db, number, 1);
+
+    expect(match(db, 7)).toMatchObject({ status: 'bye' });
+    expect(match(db, 7).player1_id).toBeUndefined();
+  });
+
+  it('plays the reset when the losers champion takes the grand final', async () => {
+    const { db, service } = setup('double_elimination', players.slice(0, 4));
+    await service.generateBracket('t1', { seed: 'spring-open' });
+    for (const number of [1, 2, 3, 4, 5]) await play(service, db, number, 1);
+    await play(service, db, 6, 2);
+
+    expect(match(db, 7)).toMatchObject({
+      status: 'ready',
+      player1_id: match(db, 6).player1_id,
+      player2_id: match(db, 6).player2_id
+    });
+  });
+});
+
+describe('round robin', () => {
+  it('schedules a double round robin across the tournament\'s boards', async () => {
+    const { db, service } = setup('round_robin', players.slice(0, 4));
+    Object.assign(db.tables.tournaments[0], { meetings: 2, boards: 2 });
+
+    const matches = await service.generateBracket('t1', { seed: 'spring-open' });
+    const pairs = matches.map(m => [m.player1_id, m.player2_id].sort().join('-'));
+
+    expect(matches).toHaveLength(12);
+    expect(new Set(pairs).size).toBe(6);
+    expect(Math.max(...matches.map(m => m.round))).toBe(6);
+    expect(matches.every(m => m.board_number === 1 || m.board_number === 2)).toBe(true);
+  });
+});
+
+describe('group stage', () => {
+  const field = ['p1', 'p2', 'p3', 'p4', 'p5', 'p6', 'p7', 'p8'];
+
+  it('draws the knockout from the group tables once the groups are done', async () => {
+    const { db, service } = setup('group_stage_knockout', field);
+    db.tables.tournaments[0].group_count = 2;
+    const groupMatches = await service.generateBracket('t1', { seed: 'spring-open' });
+
+    expect(groupMatches).toHaveLength(12);
+    await expect(service.generateKnockoutStage('t1')).rejects.toThrow('The group stage is not finished');
+
+    for (const match of groupMatches) await service.recordMatchResult(match.id, 3, 1);
+
+    const knockout = await service.generateKnockoutStage('t1');
+    const groupOf = new Map(groupMatches.flatMap(m => [[m.player1_id, m.group_number], [m.player2_id, m.group_number]]));
+    const firstRound = knockout.filter(m => m.round === 1);
+
+    expect(knockout.every(m => m.stage === 'knockout' && m.match_number > 12)).toBe(true);
+    expect(firstRound).toHaveLength(2);
+    for (const match of firstRound) {
+      expect(groupOf.get(match.player1_id)).not.toBe(groupOf.get(match.player2_id));
+    }
+    await expect(service.generateKnockoutStage('t1')).rejects.toThrow('The knockout has already been drawn');
+  });
+});
+
+// ==================== LEAGUES ====================
+
+const setupLeague = (entrants = ['p1', 'p2', 'p3', 'p4']) => {
+  const db = createFakeDatabase({
+    leagues: [{
+      id: 'l1',
+      name: 'Monday League',
+      type: 'singles',
+      matches_per_week: 1,
+      points_for_win: 2,
+      points_for_draw: 1,
+      points_for_loss: 0,
+      legs_per_match: 5,
+      match_type: 'best_of',
+      starting_score: 501,
+      start_date: '2026-01-05',
+      end_date: '2026-03-09',
+      status: 'active'
+    }],
+    league_standings: entrants.map(playerId => ({ league_id: 'l1', player_id: playerId }))
+  });
+  return { db, service: new LeagueService(db, { random: createRandom('monday') }) };
+};
+
+describe('league fixtures', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('generates the season once', async () => {
+    const { service } = setupLeague();
+    const fixtures = await service.generateSeasonFixtures('l1');
+
+    expect(fixtures).toHaveLength(6);
+    expect(new Set(fixtures.map(f => f.week))).toEqual(new Set([1, 2, 3]));
+    await expect(service.generateSeasonFixtures('l1')).rejects.toThrow('Fixtures already generated');
+  });
+
+  it('fits a mid-season joiner in from next week', async () => {
+    const { db, service } = setupLeague();
+    await service.generateSeasonFixtures('l1');
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-13T12:00:00Z'));   // Week 2 has been played
+    await service.joinLeague('l1', 'p5');
+
+    const joiner = db.tables.league_matches.filter(m => m.home_player_id === 'p5' || m.away_player_id === 'p5');
+    expect(joiner).toHaveLength(4);
+    expect(joiner.every(m => m.week >= 3 && m.status === 'scheduled')).toBe(true);
+    expect(db.tables.league_standings.map(s => s.player_id)).toContain('p5');
+  });
+
+  it('cancels the unplayed fixtures of a player who withdraws', async () => {
+    const { db, service } = setupLeague();
+    const [first] = await service.generateSeasonFixtures('l1');
+    db.tables.league_matches.find(m => m.id === first.id)!.status = 'completed';
+    const withdrawing = first.home_player_id!;
+
+    await service.withdrawFromLeague('l1', withdrawing);
+
+    const theirs = db.tables.league_matches
+      .filter(m => m.home_player_id === withdrawing || m.away_player_id === withdrawing);
+    expect(theirs.map(m => m.status).sort()).toEqual(['cancelled', 'cancelled', 'completed']);
+    expect(db.tables.league_standings.find(s => s.player_id === withdrawing)!.withdrawn_at).toBeDefined();
+  });
+
+  it('reschedules a postponed match into the first free week', async () => {
+    const { db, service } = setupLeague();
+    const [match] = await service.generateSeasonFixtures('l1');
+
+    await expect(service.rescheduleLeagueMatch(match.id)).rejects.toThrow('Only postponed matches can be rescheduled');
+
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-06T12:00:00Z'));
+    await service.postponeLeagueMatch(match.id);
+    const moved = await service.rescheduleLeagueMatch(match.id);
+
+    expect(moved).toMatchObject({ week: 4, scheduled_date: '2026-01-26', status: 'scheduled' });
+    expect(db.tables.league_matches.filter(m => m.week === 4)).toHaveLength(1);
+  });
+});
+
+describe('league standings', () => {
+  const standing = (db: ReturnType<typeof setupLeague>['db'], playerId: string) =>
+    db.tables.league_standings.find(s => s.player_id === playerId)!;
+
+  it('rebuilds the table when a result is recorded or corrected', async () => {
+    const { db, service } = setupLeague();
+    const [match] = await service.generateSeasonFixtures('l1');
+    const { home_player_id: home, away_player_id: away } = match;
+
+    await service.recordLeagueMatchResult(match.id, 3, 1);
+    expect(standing(db, home!)).toMatchObject({ position: 1, won: 1, points: 2 });
+
+    await service.recordLeagueMatchResult(match.id, 1, 3);
+    expect(standing(db, home!)).toMatchObject({ won: 0, lost: 1, points: 0 });
+    expect(standing(db, away!)).toMatchObject({ position: 1, won: 1, points: 2 });
+  });
+
+  it('keeps deductions in the table with a reason', async () => {
+    const { db, service } = setupLeague();
+
+    await expect(service.deductPoints('l1', 'p2', 0, 'Late')).rejects.toThrow('Deduction must be more than zero points');
+    await expect(service.deductPoints('l1', 'p2', 2, ' ')).rejects.toThrow('A deduction needs a reason');
+
+    const deduction = await service.deductPoints('l1', 'p2', 2, ' Failed to turn up ', 'admin');
+    expect(deduction).toMatchObject({ player_id: 'p2', points: 2, reason: 'Failed to turn up', created_by: 'admin' });
+    expect(standing(db, 'p2')).toMatchObject({ points: -2, deducted: 2, position: 4 });
+  });
+});
+
+describe('league divisions', () => {
+  const setupDivisions = () => {
+    const { db, service } = setupLeague([]);
+    const division = (id: string, number: number, players: string[]) => {
+      db.tables.leagues.push({
+        ...db.tables.leagues[0],
+        id,
+        name: `Division ${number}`,
+        parent_league_id: 'l1',
+        division: number,
+        promotion_places: 1,
+        relegation_places: 1,
+        status: 'completed'
+      });
+      players.forEach((playerId, i) => {
+        db.tables.league_standings.push({ league_id: id, player_id: playerId, position: i + 1 });
+      });
+    };
+    division('d1', 1, ['a1', 'a2', 'a3']);
+    division('d2', 2, ['b1', 'b2', 'b3']);
+    return { db, service };
+  };
+
+  it('adds a division below the others with the parent\'s settings', async () => {
+    const { service } = setupDivisions();
+    const division = await service.createDivision('l1', { name: 'Division 3' });
+
+    expect(division).toMatchObject({ parent_league_id: 'l1', division: 3, matches_per_week: 1, status: 'draft' });
+  });
+
+  it('starts a new season from the final standings', async () => {
+    const { db, service } = setupDivisions();
+    const plan = await service.planNewSeason('l1');
+
+    expect(plan.divisions.map(d => d.player_ids)).toEqual([['a1', 'a2', 'b1'], ['a3', 'b2', 'b3']]);
+
+    const { league, divisions } = await service.startNewSeason('l1', {
+      name: 'Monday League 2027',
+      start_date: '2027-01-04',
+      end_date: '2027-03-08'
+    });
+    const players = (leagueId: string) =>
+      db.tables.league_standings.filter(s => s.league_id === leagueId).map(s => s.player_id);
+
+    expect(league).toMatchObject({ name: 'Monday League 2027', previous_season_id: 'l1', start_date: '2027-01-04' });
+    expect(divisions.map(d => [d.division, d.parent_league_id, d.previous_season_id]))
+      .toEqual([[1, league.id, 'd1'], [2, league.id, 'd2']]);
+    expect(divisions.map(d => players(d.id))).toEqual([['a1', 'a2', 'b1'], ['a3', 'b2', 'b3']]);
+  });
+});
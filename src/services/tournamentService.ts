@@ -3,6 +3,72 @@
  * Complete signup, bracket generation, and management
  */
 
+import type { MatchConfig } from '../types';
+import { resolveGameSettings } from '../scoring/gameModes';
+import {
+  getMatchFormat,
+  getPreMatchOdds,
+  type PlayerProfile,
+  type PredictionOptions,
+  type WinProbability
+} from '../analytics/winPredictor';
+import { StatisticsService } from './statisticsService';
+import {
+  type BracketMatch,
+  type DrawEntrant,
+  buildSingleEliminationBracket,
+  buildDoubleEliminationBracket,
+  getDrawOrder,
+  offsetMatchNumbers
+} from './brackets';
+import {
+  type SwissStanding,
+  getSwissRoundCount,
+  getSwissStandings,
+  pairSwissRound
+} from './swiss';
+import {
+  type GroupStanding,
+  type GroupTiebreak,
+  assignGroups,
+  buildGroupStage,
+  getGroupCount,
+  getGroupStandings,
+  getGroupsFromMatches,
+  getKnockoutQualifiers
+} from './groups';
+import { buildRoundRobinMatches } from './roundRobin';
+import {
+  type LeagueBonusPoints,
+  type LeagueDeduction,
+  type LeagueTiebreak,
+  getEntrantId,
+  getLeagueStandings,
+  getMatchEntrants
+} from './leagueStandings';
+import type { RubberFormat } from './teamFixtures';
+import {
+  type SeasonPlan,
+  getSeasonSettings,
+  planDivisionMovements
+} from './leagueDivisions';
+import {
+  type LeagueFixture,
+  type SeasonOptions,
+  findFixtureWeek,
+  getNextWeek,
+  getWeekDate,
+  scheduleJoiner,
+  scheduleSeason
+} from './leagueFixtures';
+import {
+  type RandomSource,
+  createRandom,
+  defaultRandom,
+  generateSeed,
+  shuffle
+} from '../utils/random';
+
 // ==================== TYPES ====================
 
 export interface Player {
@@ -31,6 +97,12 @@ export type TournamentFormat =
   | 'swiss'
   | 'group_stage_knockout';
 
+export type SeedingMode =
+  | 'random'        // Everyone drawn at random
+  | 'rating'        // Player rating, highest first
+  | 'ranking'       // The organisation's ranking table
+  | 'manual';       // Seeds set on the registrations (setSeeds)
+
 export type TournamentStatus = 
   | 'draft'
   | 'registration_open'
@@ -55,7 +127,25 @@ export interface Tournament {
   // Match settings
   legs_per_match: number;
   match_type: 'first_to' | 'best_of';
-  starting_score: number;
+  starting_score: number;               // X01 only - kept for older rows
+  game_mode?: string;                   // Registered game mode id (default 'x01')
+  game_config?: Record<string, unknown>;
+  
+  // Draw
+  organization_id?: string;             // Host organisation - its rankings seed 'ranking' draws
+  seeding?: SeedingMode;                // Default 'random'
+  seed_count?: number;                  // Seeded places (default: everyone with a seed)
+  separate_clubs?: boolean;             // Keep clubmates apart in the early rounds
+  draw_seed?: string;                   // Seed the bracket was drawn with - regenerates it exactly
+  draw_entrants?: DrawEntrant[];        // Entrants and seeds the draw used, in draw order
+  grand_final_reset?: boolean;          // Double elimination: replay the final if the losers-bracket champion wins it (default true)
+  swiss_rounds?: number;                // Swiss: rounds before the cut (default log2 of the field, rounded up)
+  swiss_cut?: number;                   // Swiss: top N go into a knockout after the last round
+  group_count?: number;                 // Groups: default groups of about four
+  group_qualifiers?: number;            // Groups: top N per group into the knockout (default 2)
+  group_tiebreaks?: GroupTiebreak[];    // Groups: table order (default points, leg difference, head-to-head, average)
+  meetings?: number;                    // Round robin and groups: times each pair meets (default 1)
+  boards?: number;                      // Boards in use - round-robin rounds are spread across them
   
   // Dates
   registration_start: string;
@@ -74,17 +164,28 @@ export interface TournamentRegistration {
   tournament_id: string;
   player_id: string;
   registered_at: string;
-  seed?: number;
+  seed?: number;                 // 1 = top seed
+  club_id?: string;              // Organisation the player entered for
   status: 'pending' | 'confirmed' | 'withdrawn' | 'disqualified';
   payment_status?: 'pending' | 'paid' | 'refunded';
   player?: Player;
 }
 
+export type BracketSide = 'winners' | 'losers' | 'grand_final';
+
+export type TournamentStage = 'swiss' | 'group' | 'knockout';
+
+export type MatchSlot = 1 | 2;
+
 export interface TournamentMatch {
   id: string;
   tournament_id: string;
-  round: number;
+  round: number;                 // Counted within the stage and bracket side
   match_number: number;
+  stage?: TournamentStage;       // Set when a format has more than one kind of round
+  group_number?: number;         // Group stage, from 1
+  board_number?: number;         // Round robin and groups, when the tournament sets boards
+  bracket?: BracketSide;         // Double elimination only
   
   player1_id?: string;
   player2_id?: string;
@@ -95,7 +196,9 @@ export interface TournamentMatch {
   
   // For bracket progression
   next_match_id?: string;
+  next_match_slot?: MatchSlot;   // Slot the winner takes (unset: first empty slot)
   loser_next_match_id?: string;  // For double elimination
+  loser_next_match_slot?: MatchSlot;
   
   status: 'pending' | 'ready' | 'in_progress' | 'completed' | 'bye';
   scheduled_time?: string;
@@ -118,17 +221,33 @@ export interface League {
   description?: string;
   type: LeagueType;
   
+  // Divisions
+  parent_league_id?: string;            // Set on divisions - the parent groups them
+  division?: number;                    // 1 = top division
+  promotion_places?: number;            // Go up a division at season rollover
+  relegation_places?: number;           // Go down a division
+  previous_season_id?: string;          // Same league or division last season
+  
+  // Teams
+  team_league?: boolean;                // Entrants are teams playing TeamService fixtures
+  running_order?: RubberFormat[];       // Team fixture card (default DEFAULT_RUNNING_ORDER)
+  
   // Settings
   max_players?: number;
-  matches_per_week: number;
+  matches_per_week: number;             // Matches each player plays a week
+  meetings?: number;                    // Times each pair meets in a season, default 1
   points_for_win: number;
   points_for_draw: number;
   points_for_loss: number;
+  bonus_points?: LeagueBonusPoints;
+  tiebreaks?: LeagueTiebreak[];         // After points, in order (default leg difference, legs for)
   
   // Match settings
   legs_per_match: number;
   match_type: 'first_to' | 'best_of';
-  starting_score: number;
+  starting_score: number;               // X01 only - kept for older rows
+  game_mode?: string;                   // Registered game mode id (default 'x01')
+  game_config?: Record<string, unknown>;
   
   // Dates
   start_date: string;
@@ -143,7 +262,8 @@ export interface League {
 }
 
 export interface LeagueStanding {
-  player_id: string;
+  player_id?: string;                   // Or team_id in a team league
+  team_id?: string;
   league_id: string;
   player?: Player;
   
@@ -155,12 +275,17 @@ export interface LeagueStanding {
   legs_for: number;
   legs_against: number;
   leg_difference: number;
-  points: number;
+  points: number;                       // Including bonus, less deductions
+  bonus: number;
+  deducted: number;
+  playoff: boolean;                     // Still level after the tiebreaks - needs a play-off
   
   // Stats
   average: number;
   highest_checkout: number;
   total_180s: number;
+
+  withdrawn_at?: string;                // Left mid-season - no further fixtures
 }
 
 export interface LeagueMatch {
@@ -168,26 +293,105 @@ export interface LeagueMatch {
   league_id: string;
   week: number;
   
-  home_player_id: string;
-  away_player_id: string;
+  home_player_id?: string;              // Or home_team_id / away_team_id in a team league
+  away_player_id?: string;
+  home_team_id?: string;
+  away_team_id?: string;
   
   home_legs: number;
   away_legs: number;
   
-  status: 'scheduled' | 'in_progress' | 'completed' | 'postponed';
+  status: 'scheduled' | 'in_progress' | 'completed' | 'postponed' | 'cancelled';
   scheduled_date?: string;
   completed_at?: string;
   
   stats?: any;
 }
 
+// ==================== MATCH SETTINGS ====================
+
+/**
+ * A row's game mode and its resolved config
+ */
+export interface MatchSettings<C extends object = Record<string, unknown>> {
+  game_mode: string;
+  game_config: C;
+}
+
+// Simulations per pairing when pricing a whole tournament
+const PAIRING_ODDS_SIMULATIONS = 200;
+
+/**
+ * Validate the game mode of a tournament or league and store its full config
+ * Rows without game_config take it from the X01 columns
+ */
+export function resolveMatchSettings(
+  data: Partial<Pick<Tournament, 'game_mode' | 'game_config' | 'starting_score' | 'match_type' | 'legs_per_match'>>
+): MatchSettings {
+  const { mode, config } = resolveGameSettings(data, {
+    startingScore: data.starting_score,
+    matchType: data.match_type,
+    targetLegs: data.legs_per_match
+  });
+  return { game_mode: mode.id, game_config: { ...config } };
+}
+
+/**
+ * X01 settings carry a resolved MatchConfig
+ */
+export function isX01Settings(settings: MatchSettings<object>): settings is MatchSettings<MatchConfig> {
+  return settings.game_mode === 'x01';
+}
+
+/**
+ * Registrations as draw entrants - seeds only count for seeded draws,
+ * and only down to seed_count
+ */
+function getDrawEntrants(tournament: Tournament, registrations: TournamentRegistration[]): DrawEntrant[] {
+  const seeded = (tournament.seeding ?? 'random') !== 'random';
+  const seedCount = tournament.seed_count ?? Infinity;
+
+  return registrations.map(r => ({
+    playerId: r.player_id,
+    seed: seeded && r.seed && r.seed <= seedCount ? r.seed : undefined,
+    clubId: r.club_id ?? undefined
+  }));
+}
+
+/**
+ * Season settings for the fixture scheduler
+ */
+function getSeasonOptions(league: League): SeasonOptions {
+  if (!league.start_date || !league.end_date) throw new Error('League has no season dates');
+
+  return {
+    startDate: league.start_date,
+    endDate: league.end_date,
+    matchesPerWeek: league.matches_per_week,
+    meetings: league.meetings
+  };
+}
+
+/**
+ * League table columns for the entrants - players, or teams in a team league
+ */
+function getEntrantColumns(league: Pick<League, 'team_league'>) {
+  return league.team_league
+    ? { entrant: 'team_id', home: 'home_team_id', away: 'away_team_id' } as const
+    : { entrant: 'player_id', home: 'home_player_id', away: 'away_player_id' } as const;
+}
+
 // ==================== TOURNAMENT SERVICE ====================
 
 export class TournamentService {
   private db: any; // Your database client (Supabase, etc.)
+  private random: RandomSource;
+  private stats: StatisticsService;
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.random = options.random ?? defaultRandom;
+    this.stats = new StatisticsService(dbClient);
   }
 
   // ---- Tournament CRUD ----
@@ -197,6 +401,7 @@ export class TournamentService {
       .from('tournaments')
       .insert([{
         ...data,
+        ...resolveMatchSettings(data),
         status: 'draft',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -240,7 +445,11 @@ export class TournamentService {
 
   // ---- Registration ----
 
-  async registerPlayer(tournamentId: string, playerId: string): Promise<TournamentRegistration> {
+  async registerPlayer(
+    tournamentId: string,
+    playerId: string,
+    options: { clubId?: string } = {}
+  ): Promise<TournamentRegistration> {
     // Check tournament is open for registration
     const tournament = await this.getTournament(tournamentId);
     if (!tournament || tournament.status !== 'registration_open') {
@@ -276,6 +485,7 @@ export class TournamentService {
       .insert([{
         tournament_id: tournamentId,
         player_id: playerId,
+        club_id: options.clubId,
         status: tournament.entry_fee ? 'pending' : 'confirmed',
         payment_status: tournament.entry_fee ? 'pending' : undefined,
         registered_at: new Date().toISOString()
@@ -306,155 +516,370 @@ export class TournamentService {
     return data || [];
   }
 
+  /**
+   * Manual seeding - seeds follow the order given (first = top seed),
+   * everyone else is unseeded
+   */
+  async setSeeds(tournamentId: string, playerIds: string[]): Promise<void> {
+    await this.db
+      .from('tournament_registrations')
+      .update({ seed: null })
+      .eq('tournament_id', tournamentId);
+
+    for (const [index, playerId] of playerIds.entries()) {
+      await this.db
+        .from('tournament_registrations')
+        .update({ seed: index + 1 })
+        .eq('tournament_id', tournamentId)
+        .eq('player_id', playerId);
+    }
+  }
+
   // ---- Bracket Generation ----
 
-  async generateBracket(tournamentId: string): Promise<TournamentMatch[]> {
+  /**
+   * Draw the bracket and start the tournament
+   * The draw is seeded (a fresh seed unless one is given); the seed and the
+   * entrants with their seeds are stored as draw_seed and draw_entrants, so
+   * anyone can regenerate the draw with verifyDraw after registrations,
+   * ratings or rankings move on
+   */
+  async generateBracket(tournamentId: string, options: { seed?: string } = {}): Promise<TournamentMatch[]> {
     const tournament = await this.getTournament(tournamentId);
     if (!tournament) throw new Error('Tournament not found');
 
-    const registrations = await this.getRegistrations(tournamentId);
-    const confirmedPlayers = registrations
-      .filter(r => r.status === 'confirmed')
-      .map(r => r.player_id);
-
-    if (confirmedPlayers.length < tournament.min_players) {
+    const registrations = await this.getConfirmedRegistrations(tournamentId);
+    if (registrations.length < tournament.min_players) {
       throw new Error(`Not enough players. Need at least ${tournament.min_players}`);
     }
 
-    let matches: Partial<TournamentMatch>[];
+    await this.applySeeding(tournament, registrations);
 
-    switch (tournament.format) {
-      case 'single_elimination':
-        matches = this.generateSingleEliminationBracket(tournamentId, confirmedPlayers);
-        break;
-      case 'double_elimination':
-        matches = this.generateDoubleEliminationBracket(tournamentId, confirmedPlayers);
-        break;
-      case 'round_robin':
-        matches = this.generateRoundRobinSchedule(tournamentId, confirmedPlayers);
-        break;
-      default:
-        throw new Error(`Unsupported format: ${tournament.format}`);
-    }
+    const seed = options.seed ?? generateSeed(this.random);
+    const entrants = getDrawEntrants(tournament, registrations);
+    const matches = await this.insertMatches(this.drawMatches(tournament, entrants, seed));
 
-    // Insert matches
+    // Start the tournament and record the draw
+    await this.db
+      .from('tournaments')
+      .update({
+        status: 'in_progress',
+        draw_seed: seed,
+        draw_entrants: entrants,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', tournamentId);
+
+    return matches;
+  }
+
+  /**
+   * Regenerate the draw from the stored seed and entrants and check it
+   * matches the matches that were created
+   * Only slots the draw fills are compared - later ones fill as results come in,
+   * and rounds paired later (Swiss, a knockout after the cut) are numbered after it
+   * Draws made before entrants were stored fall back to today's registrations
+   */
+  async verifyDraw(tournamentId: string): Promise<boolean> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) throw new Error('Tournament not found');
+    if (!tournament.draw_seed) throw new Error('Tournament has not been drawn');
+
+    const entrants = tournament.draw_entrants ??
+      getDrawEntrants(tournament, await this.getConfirmedRegistrations(tournamentId));
+    const expected = this.drawMatches(tournament, entrants, tournament.draw_seed);
+
+    const { data: actual, error } = await this.db
+      .from('tournament_matches')
+      .select('round, match_number, bracket, player1_id, player2_id')
+      .eq('tournament_id', tournamentId);
+
+    if (error) throw error;
+
+    const stored = ((actual || []) as TournamentMatch[]).filter(m => m.match_number <= expected.length);
+    if (stored.length !== expected.length) return false;
+
+    const byNumber = new Map(stored.map(m => [m.match_number, m]));
+    return expected.every(m => {
+      const stored = byNumber.get(m.match_number!);
+      return stored !== undefined &&
+        stored.round === m.round &&
+        (stored.bracket ?? undefined) === m.bracket &&
+        (m.player1_id === undefined || stored.player1_id === m.player1_id) &&
+        (m.player2_id === undefined || stored.player2_id === m.player2_id);
+    });
+  }
+
+  async getMatches(tournamentId: string): Promise<TournamentMatch[]> {
     const { data, error } = await this.db
       .from('tournament_matches')
-      .insert(matches)
-      .select();
+      .select('*')
+      .eq('tournament_id', tournamentId)
+      .order('match_number');
 
     if (error) throw error;
+    return data || [];
+  }
 
-    // Update tournament status
-    await this.updateTournamentStatus(tournamentId, 'in_progress');
+  // Insert drawn matches, then link them up by id
+  private async insertMatches(matches: BracketMatch[]): Promise<TournamentMatch[]> {
+    const rows = matches.map(({ next_match_number, loser_next_match_number, ...row }) => row);
+    const { data, error } = await this.db
+      .from('tournament_matches')
+      .insert(rows)
+      .select();
 
-    return data;
+    if (error) throw error;
+    return this.linkMatches(data || [], matches);
   }
 
-  private generateSingleEliminationBracket(
-    tournamentId: string, 
-    playerIds: string[]
-  ): Partial<TournamentMatch>[] {
-    const matches: Partial<TournamentMatch>[] = [];
-    
-    // Shuffle players for random seeding
-    const shuffled = [...playerIds].sort(() => Math.random() - 0.5);
-    
-    // Calculate rounds needed
-    const playerCount = shuffled.length;
-    const bracketSize = Math.pow(2, Math.ceil(Math.log2(playerCount)));
-    const rounds = Math.log2(bracketSize);
-    const byes = bracketSize - playerCount;
-    
-    let matchNumber = 1;
-    
-    // First round
-    let firstRoundMatches = bracketSize / 2;
-    let playerIndex = 0;
-    let byeCount = 0;
-    
-    for (let i = 0; i < firstRoundMatches; i++) {
-      const match: Partial<TournamentMatch> = {
-        tournament_id: tournamentId,
-        round: 1,
-        match_number: matchNumber++,
-        player1_id: shuffled[playerIndex++],
-        player2_id: byeCount < byes ? undefined : shuffled[playerIndex++],
-        player1_legs: 0,
-        player2_legs: 0,
-        status: 'pending'
+  // Swap the draw's match-number links for the ids the rows were given
+  private async linkMatches(inserted: TournamentMatch[], drawn: BracketMatch[]): Promise<TournamentMatch[]> {
+    const ids = new Map(inserted.map(m => [m.match_number, m.id]));
+    const links = new Map<number, Partial<TournamentMatch>>();
+
+    for (const match of drawn) {
+      if (match.next_match_number === undefined && match.loser_next_match_number === undefined) continue;
+
+      const update: Partial<TournamentMatch> = {
+        next_match_id: match.next_match_number === undefined ? undefined : ids.get(match.next_match_number),
+        loser_next_match_id: match.loser_next_match_number === undefined ? undefined : ids.get(match.loser_next_match_number)
       };
-      
-      // Handle byes
-      if (!match.player2_id) {
-        match.status = 'bye';
-        match.winner_id = match.player1_id;
-        byeCount++;
-      }
-      
-      matches.push(match);
+      const { error } = await this.db
+        .from('tournament_matches')
+        .update(update)
+        .eq('id', ids.get(match.match_number!));
+
+      if (error) throw error;
+      links.set(match.match_number!, update);
     }
 
-    // Subsequent rounds (placeholders)
-    for (let round = 2; round <= rounds; round++) {
-      const matchesInRound = bracketSize / Math.pow(2, round);
-      for (let i = 0; i < matchesInRound; i++) {
-        matches.push({
-          tournament_id: tournamentId,
-          round,
-          match_number: matchNumber++,
-          player1_legs: 0,
-          player2_legs: 0,
-          status: 'pending'
+    return inserted.map(m => ({ ...m, ...links.get(m.match_number) }));
+  }
+
+  // Registration order, so the same seed always draws the same bracket
+  private async getConfirmedRegistrations(tournamentId: string): Promise<TournamentRegistration[]> {
+    const registrations = await this.getRegistrations(tournamentId);
+    return registrations.filter(r => r.status === 'confirmed');
+  }
+
+  /**
+   * Work out rating or ranking seeds and store them on the registrations
+   * Players with no rating (or not in the ranking table) go unseeded
+   */
+  private async applySeeding(tournament: Tournament, registrations: TournamentRegistration[]): Promise<void> {
+    const mode = tournament.seeding ?? 'random';
+    if (mode === 'random' || mode === 'manual') return;
+
+    let scores: Map<string, number>;
+    if (mode === 'rating') {
+      scores = new Map(registrations
+        .filter(r => r.player?.rating !== undefined && r.player?.rating !== null)
+        .map(r => [r.player_id, r.player!.rating!]));
+    } else {
+      if (!tournament.organization_id) throw new Error('Ranking seeding needs an organization');
+
+      const { data, error } = await this.db
+        .from('organization_rankings')
+        .select('player_id, rank')
+        .eq('organization_id', tournament.organization_id)
+        .in('player_id', registrations.map(r => r.player_id));
+
+      if (error) throw error;
+      scores = new Map(((data || []) as { player_id: string; rank: number }[]).map(r => [r.player_id, -r.rank]));
+    }
+
+    // Best first; ties keep registration order
+    const order = registrations
+      .filter(r => scores.has(r.player_id))
+      .sort((a, b) => scores.get(b.player_id)! - scores.get(a.player_id)!);
+
+    for (const registration of registrations) {
+      const rank = order.indexOf(registration);
+      registration.seed = rank >= 0 ? rank + 1 : undefined;
+
+      await this.db
+        .from('tournament_registrations')
+        .update({ seed: registration.seed ?? null })
+        .eq('id', registration.id);
+    }
+  }
+
+  private drawMatches(
+    tournament: Tournament,
+    entrants: DrawEntrant[],
+    seed: string
+  ): BracketMatch[] {
+    const random = createRandom(seed);
+    const drawOptions = { random, separateClubs: tournament.separate_clubs };
+    const roundRobinOptions = { meetings: tournament.meetings, boards: tournament.boards };
+
+    switch (tournament.format) {
+      case 'single_elimination':
+        return buildSingleEliminationBracket(tournament.id, entrants, drawOptions);
+      case 'double_elimination':
+        return buildDoubleEliminationBracket(tournament.id, entrants, {
+          ...drawOptions,
+          grandFinalReset: tournament.grand_final_reset
         });
+      case 'round_robin': {
+        const order = getDrawOrder(entrants, random);
+        return buildRoundRobinMatches(tournament.id, order.map(e => e.playerId), roundRobinOptions);
+      }
+      case 'swiss': {
+        const order = getDrawOrder(entrants, random);
+        return pairSwissRound(tournament.id, order.map(e => e.playerId), [], 1);
       }
+      case 'group_stage_knockout': {
+        const order = getDrawOrder(entrants, random);
+        const groupCount = tournament.group_count ?? getGroupCount(order.length);
+        return buildGroupStage(tournament.id, assignGroups(order, groupCount), roundRobinOptions);
+      }
+      default:
+        throw new Error(`Unsupported format: ${tournament.format}`);
     }
+  }
 
-    return matches;
+  // ---- Swiss ----
+
+  /**
+   * Pair the next Swiss round once every match in the current one is done
+   * After the last round, the top swiss_cut players are seeded into a
+   * knockout by their Swiss standing
+   */
+  async generateSwissRound(tournamentId: string): Promise<TournamentMatch[]> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) throw new Error('Tournament not found');
+    if (tournament.format !== 'swiss') throw new Error('Not a Swiss tournament');
+
+    const matches = await this.getMatches(tournamentId);
+    if (matches.some(m => m.stage === 'knockout')) throw new Error('The Swiss rounds are over');
+    if (matches.some(m => m.status !== 'completed' && m.status !== 'bye')) {
+      throw new Error('The current round is not finished');
+    }
+
+    const standings = await this.getSwissStandings(tournamentId, matches);
+    const round = Math.max(0, ...matches.map(m => m.round)) + 1;
+    const played = Math.max(0, ...matches.map(m => m.match_number));
+
+    if (round <= (tournament.swiss_rounds ?? getSwissRoundCount(standings.length))) {
+      const ranking = standings.map(s => s.player_id);
+      return this.insertMatches(pairSwissRound(tournamentId, ranking, matches, round, played + 1));
+    }
+
+    if (!tournament.swiss_cut) throw new Error('All Swiss rounds have been played');
+
+    const qualifiers = standings
+      .slice(0, tournament.swiss_cut)
+      .map((s, i) => ({ playerId: s.player_id, seed: i + 1 }));
+
+    return this.insertKnockout(tournamentId, qualifiers, played);
+  }
+
+  /**
+   * Swiss table - points, then Buchholz, median-Buchholz and leg difference
+   */
+  async getSwissStandings(tournamentId: string, matches?: TournamentMatch[]): Promise<SwissStanding[]> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) throw new Error('Tournament not found');
+
+    const registrations = await this.getConfirmedRegistrations(tournamentId);
+    const entrants = getDrawEntrants(tournament, registrations);
+    return getSwissStandings(entrants, matches ?? await this.getMatches(tournamentId));
+  }
+
+  // ---- Group Stage ----
+
+  /**
+   * Draw the knockout once every group match is done
+   * The top group_qualifiers from each group go through, crossed over so
+   * group winners don't meet each other in the first round
+   */
+  async generateKnockoutStage(tournamentId: string): Promise<TournamentMatch[]> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) throw new Error('Tournament not found');
+    if (tournament.format !== 'group_stage_knockout') throw new Error('Not a group stage tournament');
+
+    const matches = await this.getMatches(tournamentId);
+    if (matches.some(m => m.stage === 'knockout')) throw new Error('The knockout has already been drawn');
+    if (matches.some(m => m.stage === 'group' && m.status !== 'completed')) {
+      throw new Error('The group stage is not finished');
+    }
+
+    const standings = getGroupStandings(getGroupsFromMatches(matches), matches, tournament.group_tiebreaks);
+    const qualifiers = getKnockoutQualifiers(standings, tournament.group_qualifiers ?? 2);
+    const played = Math.max(0, ...matches.map(m => m.match_number));
+
+    return this.insertKnockout(tournamentId, qualifiers, played);
+  }
+
+  /**
+   * Group tables, one per group, ranked by the tournament's tiebreaks
+   */
+  async getGroupStandings(tournamentId: string): Promise<GroupStanding[][]> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) throw new Error('Tournament not found');
+
+    const matches = await this.getMatches(tournamentId);
+    return getGroupStandings(getGroupsFromMatches(matches), matches, tournament.group_tiebreaks);
   }
 
-  private generateDoubleEliminationBracket(
+  // Seeded knockout after a Swiss or group stage, numbered after its matches
+  private async insertKnockout(
     tournamentId: string,
-    playerIds: string[]
-  ): Partial<TournamentMatch>[] {
-    // Similar to single elimination but with losers bracket
-    // This is a simplified version
-    const matches = this.generateSingleEliminationBracket(tournamentId, playerIds);
-    
-    // Add losers bracket matches
-    // Implementation depends on specific requirements
-    
-    return matches;
+    qualifiers: DrawEntrant[],
+    played: number
+  ): Promise<TournamentMatch[]> {
+    const knockout = buildSingleEliminationBracket(tournamentId, qualifiers)
+      .map(m => ({ ...m, stage: 'knockout' as const }));
+
+    return this.insertMatches(offsetMatchNumbers(knockout, played));
   }
 
-  private generateRoundRobinSchedule(
+  // ---- Pre-Match Odds ----
+
+  /**
+   * Pre-match win probability for each pairing still to be played,
+   * keyed by match id (X01 tournaments only - other modes give an empty map)
+   * Runs 200 simulations per pairing unless told otherwise. Nothing is
+   * cached here - profiles change as results come in, so callers that
+   * poll should keep the map for as long as they trust it.
+   */
+  async getPairingOdds(
     tournamentId: string,
-    playerIds: string[]
-  ): Partial<TournamentMatch>[] {
-    const matches: Partial<TournamentMatch>[] = [];
-    const n = playerIds.length;
-    let matchNumber = 1;
-
-    // Each player plays every other player once
-    for (let i = 0; i < n; i++) {
-      for (let j = i + 1; j < n; j++) {
-        // Calculate round (simplified)
-        const round = Math.floor(matchNumber / (n / 2)) + 1;
-        
-        matches.push({
-          tournament_id: tournamentId,
-          round,
-          match_number: matchNumber++,
-          player1_id: playerIds[i],
-          player2_id: playerIds[j],
-          player1_legs: 0,
-          player2_legs: 0,
-          status: 'pending'
-        });
-      }
+    options: PredictionOptions = {}
+  ): Promise<Map<string, WinProbability>> {
+    const tournament = await this.getTournament(tournamentId);
+    if (!tournament) throw new Error('Tournament not found');
+
+    const odds = new Map<string, WinProbability>();
+    const settings = resolveMatchSettings(tournament);
+    if (!isX01Settings(settings)) return odds;
+
+    const { data: matches, error } = await this.db
+      .from('tournament_matches')
+      .select('*')
+      .eq('tournament_id', tournamentId);
+
+    if (error) throw error;
+
+    const format = getMatchFormat(settings.game_config);
+    const simulations = options.simulations ?? PAIRING_ODDS_SIMULATIONS;
+    const profiles = new Map<string, Promise<PlayerProfile>>();
+    const profileFor = (playerId: string) => {
+      if (!profiles.has(playerId)) profiles.set(playerId, this.stats.getPlayerProfile(playerId));
+      return profiles.get(playerId)!;
+    };
+
+    for (const match of (matches || []) as TournamentMatch[]) {
+      if (!match.player1_id || !match.player2_id) continue;
+      if (match.status === 'completed' || match.status === 'bye') continue;
+
+      const pairing = await Promise.all([profileFor(match.player1_id), profileFor(match.player2_id)]);
+      odds.set(match.id, getPreMatchOdds(format, pairing, { ...options, simulations }));
     }
 
-    return matches;
+    return odds;
   }
 
   // ---- Match Management ----
@@ -474,6 +899,7 @@ export class TournamentService {
     if (!match) throw new Error('Match not found');
 
     const winnerId = player1Legs > player2Legs ? match.player1_id : match.player2_id;
+    const loserId = winnerId === match.player1_id ? match.player2_id : match.player1_id;
 
     await this.db
       .from('tournament_matches')
@@ -487,13 +913,27 @@ export class TournamentService {
       })
       .eq('id', matchId);
 
+    // The grand final reset is only played if the losers-bracket champion wins
+    if (match.bracket === 'grand_final' && match.next_match_id && winnerId === match.player1_id) {
+      await this.db
+        .from('tournament_matches')
+        .update({ status: 'bye' })
+        .eq('id', match.next_match_id);
+      return;
+    }
+
     // Progress winner to next match if applicable
     if (match.next_match_id) {
-      await this.advanceToNextMatch(match.next_match_id, winnerId);
+      await this.advanceToNextMatch(match.next_match_id, winnerId, match.next_match_slot);
+    }
+
+    // Double elimination: the loser drops into the losers bracket
+    if (match.loser_next_match_id && loserId) {
+      await this.advanceToNextMatch(match.loser_next_match_id, loserId, match.loser_next_match_slot);
     }
   }
 
-  private async advanceToNextMatch(nextMatchId: string, playerId: string): Promise<void> {
+  private async advanceToNextMatch(nextMatchId: string, playerId: string, slot?: MatchSlot): Promise<void> {
     const { data: nextMatch } = await this.db
       .from('tournament_matches')
       .select('*')
@@ -502,7 +942,11 @@ export class TournamentService {
 
     if (!nextMatch) return;
 
-    const update = nextMatch.player1_id ? { player2_id: playerId } : { player1_id: playerId };
+    // Linked brackets name the slot; otherwise take the first empty one
+    const target = slot ?? (nextMatch.player1_id ? 2 : 1);
+    const opponent = target === 1 ? nextMatch.player2_id : nextMatch.player1_id;
+    const update: Partial<TournamentMatch> = target === 1 ? { player1_id: playerId } : { player2_id: playerId };
+    if (opponent) update.status = 'ready';
     
     await this.db
       .from('tournament_matches')
@@ -515,16 +959,21 @@ export class TournamentService {
 
 export class LeagueService {
   private db: any;
+  private random: RandomSource;
 
-  constructor(dbClient: any) {
+  constructor(dbClient: any, options: { random?: RandomSource } = {}) {
     this.db = dbClient;
+    this.random = options.random ?? defaultRandom;
   }
 
+  // ---- League CRUD ----
+
   async createLeague(data: Partial<League>): Promise<League> {
     const { data: league, error } = await this.db
       .from('leagues')
       .insert([{
         ...data,
+        ...resolveMatchSettings(data),
         status: 'draft',
         created_at: new Date().toISOString(),
         updated_at: new Date().toISOString()
@@ -536,13 +985,134 @@ export class LeagueService {
     return league;
   }
 
+  async getLeague(id: string): Promise<League | null> {
+    const { data, error } = await this.db
+      .from('leagues')
+      .select('*')
+      .eq('id', id)
+      .single();
+
+    if (error) return null;
+    return data;
+  }
+
+  // ---- Divisions ----
+
+  /**
+   * Add a division under a parent league, below the existing ones
+   * Settings not given are copied from the parent
+   */
+  async createDivision(parentLeagueId: string, data: Partial<League>): Promise<League> {
+    const parent = await this.getLeague(parentLeagueId);
+    if (!parent) throw new Error('League not found');
+
+    const divisions = await this.getDivisions(parentLeagueId);
+
+    return this.createLeague({
+      ...getSeasonSettings(parent),
+      start_date: parent.start_date,
+      end_date: parent.end_date,
+      ...data,
+      parent_league_id: parentLeagueId,
+      division: data.division ?? divisions.length + 1
+    });
+  }
+
+  async getDivisions(parentLeagueId: string): Promise<League[]> {
+    const { data, error } = await this.db
+      .from('leagues')
+      .select('*')
+      .eq('parent_league_id', parentLeagueId)
+      .order('division');
+
+    if (error) throw error;
+    return data || [];
+  }
+
+  /**
+   * New-season wizard, step 1: next season's line-ups from the final
+   * standings, with promotions and relegations. The plan can be edited
+   * before it is passed to startNewSeason.
+   * A league without divisions keeps its players as they are.
+   */
+  async planNewSeason(leagueId: string): Promise<SeasonPlan> {
+    const league = await this.getLeague(leagueId);
+    if (!league) throw new Error('League not found');
+
+    const divisions = await this.getDivisions(leagueId);
+    const tables = await Promise.all(
+      (divisions.length > 0 ? divisions : [league]).map(async (division, i) => ({
+        division: division.division ?? i + 1,
+        promotion_places: division.promotion_places,
+        relegation_places: division.relegation_places,
+        standings: await this.getStandings(division.id)
+      }))
+    );
+
+    return planDivisionMovements(tables);
+  }
+
+  /**
+   * New-season wizard, step 2: copy the league and its divisions with
+   * their settings, and register each division's players from the plan
+   */
+  async startNewSeason(
+    leagueId: string,
+    options: { name?: string; start_date: string; end_date: string; plan?: SeasonPlan }
+  ): Promise<{ league: League; divisions: League[] }> {
+    const previous = await this.getLeague(leagueId);
+    if (!previous) throw new Error('League not found');
+
+    const plan = options.plan ?? await this.planNewSeason(leagueId);
+    const previousDivisions = await this.getDivisions(leagueId);
+    const dates = { start_date: options.start_date, end_date: options.end_date };
+
+    const league = await this.createLeague({
+      ...getSeasonSettings(previous),
+      ...dates,
+      name: options.name ?? previous.name,
+      previous_season_id: previous.id
+    });
+
+    const divisions: League[] = [];
+    for (const division of previousDivisions) {
+      divisions.push(await this.createLeague({
+        ...getSeasonSettings(division),
+        ...dates,
+        parent_league_id: league.id,
+        previous_season_id: division.id
+      }));
+    }
+
+    // Without divisions the plan's one line-up is the league's own
+    const targets = divisions.length > 0 ? divisions : [league];
+    for (const [i, target] of targets.entries()) {
+      const lineUp = plan.divisions.find(d => d.division === (target.division ?? i + 1));
+      for (const playerId of lineUp?.player_ids ?? []) {
+        await this.joinLeague(target.id, playerId);
+      }
+    }
+
+    return { league, divisions };
+  }
+
+  // ---- Players ----
+
+  /**
+   * Join a league (a team, in a team league) - once the season's fixtures
+   * are out, the newcomer gets fixtures against everyone still in from
+   * next week on
+   */
   async joinLeague(leagueId: string, playerId: string): Promise<void> {
+    const league = await this.getLeague(leagueId);
+    if (!league) throw new Error('League not found');
+
     // Create standing entry
     await this.db
       .from('league_standings')
       .insert([{
         league_id: leagueId,
-        player_id: playerId,
+        [getEntrantColumns(league).entrant]: playerId,
         position: 0,
         played: 0,
         won: 0,
@@ -552,50 +1122,182 @@ export class LeagueService {
         legs_against: 0,
         leg_difference: 0,
         points: 0,
+        bonus: 0,
+        deducted: 0,
+        playoff: false,
         average: 0,
         highest_checkout: 0,
         total_180s: 0
       }]);
+
+    const fixtures = await this.getFixtures(leagueId);
+    if (fixtures.length === 0) return;
+
+    const opponents = (await this.getActivePlayers(league)).filter(id => id !== playerId);
+    const season = getSeasonOptions(league);
+    const added = scheduleJoiner(playerId, opponents, fixtures, {
+      ...season,
+      fromWeek: getNextWeek(season.startDate, new Date().toISOString())
+    });
+
+    await this.insertFixtures(league, added);
   }
 
-  async generateWeeklyFixtures(leagueId: string, week: number): Promise<LeagueMatch[]> {
-    const { data: standings } = await this.db
+  /**
+   * Leave mid-season - fixtures not yet played are cancelled
+   */
+  async withdrawFromLeague(leagueId: string, playerId: string): Promise<void> {
+    const league = await this.getLeague(leagueId);
+    if (!league) throw new Error('League not found');
+
+    const columns = getEntrantColumns(league);
+    await this.db
       .from('league_standings')
-      .select('player_id')
-      .eq('league_id', leagueId);
+      .update({ withdrawn_at: new Date().toISOString() })
+      .eq('league_id', leagueId)
+      .eq(columns.entrant, playerId);
 
-    if (!standings || standings.length < 2) {
+    for (const side of [columns.home, columns.away]) {
+      await this.db
+        .from('league_matches')
+        .update({ status: 'cancelled' })
+        .eq('league_id', leagueId)
+        .eq(side, playerId)
+        .in('status', ['scheduled', 'postponed']);
+    }
+  }
+
+  // ---- Fixtures ----
+
+  /**
+   * Whole season's fixtures from the start date, end date and
+   * matches_per_week - the draw order is shuffled once per season
+   */
+  async generateSeasonFixtures(leagueId: string): Promise<LeagueMatch[]> {
+    const league = await this.getLeague(leagueId);
+    if (!league) throw new Error('League not found');
+
+    const existing = await this.getFixtures(leagueId);
+    if (existing.length > 0) throw new Error('Fixtures already generated');
+
+    const playerIds = await this.getActivePlayers(league);
+    if (playerIds.length < 2) {
       throw new Error('Not enough players');
     }
 
-    const playerIds = standings.map((s: any) => s.player_id);
-    const matches: Partial<LeagueMatch>[] = [];
+    const fixtures = scheduleSeason(shuffle(playerIds, this.random), getSeasonOptions(league));
+    return this.insertFixtures(league, fixtures);
+  }
 
-    // Simple fixture generation (rotate pairings)
-    // For a proper implementation, use a round-robin algorithm
-    const shuffled = [...playerIds].sort(() => Math.random() - 0.5);
-    
-    for (let i = 0; i < shuffled.length - 1; i += 2) {
-      matches.push({
-        league_id: leagueId,
+  /**
+   * Fixtures in week order - all weeks, or just one
+   */
+  async getFixtures(leagueId: string, week?: number): Promise<LeagueMatch[]> {
+    let query = this.db
+      .from('league_matches')
+      .select('*')
+      .eq('league_id', leagueId);
+
+    if (week !== undefined) {
+      query = query.eq('week', week);
+    }
+
+    const { data, error } = await query.order('week');
+    if (error) throw error;
+    return data || [];
+  }
+
+  async postponeLeagueMatch(matchId: string): Promise<void> {
+    await this.db
+      .from('league_matches')
+      .update({ status: 'postponed' })
+      .eq('id', matchId);
+  }
+
+  /**
+   * Put a postponed match back in the calendar - in the given week, or
+   * the earliest week to come where both players have room
+   */
+  async rescheduleLeagueMatch(matchId: string, options: { week?: number } = {}): Promise<LeagueMatch> {
+    const { data: match } = await this.db
+      .from('league_matches')
+      .select('*')
+      .eq('id', matchId)
+      .single();
+
+    if (!match) throw new Error('Match not found');
+    if (match.status !== 'postponed') throw new Error('Only postponed matches can be rescheduled');
+
+    const league = await this.getLeague(match.league_id);
+    if (!league) throw new Error('League not found');
+
+    const season = getSeasonOptions(league);
+    const others = (await this.getFixtures(match.league_id)).filter(f => f.id !== matchId);
+    const week = options.week ?? findFixtureWeek(
+      getMatchEntrants(match) as string[],
+      others,
+      { ...season, fromWeek: getNextWeek(season.startDate, new Date().toISOString()) }
+    );
+
+    if (week === null) throw new Error('The season has no weeks left to schedule');
+
+    const { data, error } = await this.db
+      .from('league_matches')
+      .update({
         week,
-        home_player_id: shuffled[i],
-        away_player_id: shuffled[i + 1],
-        home_legs: 0,
-        away_legs: 0,
+        scheduled_date: getWeekDate(season.startDate, week),
         status: 'scheduled'
-      });
-    }
+      })
+      .eq('id', matchId)
+      .select()
+      .single();
+
+    if (error) throw error;
+    return data;
+  }
 
+  private async insertFixtures(league: League, fixtures: LeagueFixture[]): Promise<LeagueMatch[]> {
+    if (fixtures.length === 0) return [];
+
+    const columns = getEntrantColumns(league);
     const { data, error } = await this.db
       .from('league_matches')
-      .insert(matches)
+      .insert(fixtures.map(fixture => ({
+        league_id: league.id,
+        week: fixture.week,
+        scheduled_date: fixture.scheduled_date,
+        [columns.home]: fixture.home_player_id,
+        [columns.away]: fixture.away_player_id,
+        home_legs: 0,
+        away_legs: 0,
+        status: 'scheduled'
+      })))
       .select();
 
     if (error) throw error;
     return data;
   }
 
+  /**
+   * Players (or teams) still in the league, in joining order
+   */
+  private async getActivePlayers(league: League): Promise<string[]> {
+    const { data: standings } = await this.db
+      .from('league_standings')
+      .select('*')
+      .eq('league_id', league.id);
+
+    return ((standings || []) as LeagueStanding[])
+      .filter(s => !s.withdrawn_at)
+      .map(getEntrantId);
+  }
+
+  // ---- Results ----
+
+  /**
+   * Record a result - recording it again corrects it, since the table is
+   * rebuilt from every result
+   */
   async recordLeagueMatchResult(
     matchId: string,
     homeLegs: number,
@@ -622,80 +1324,83 @@ export class LeagueService {
       })
       .eq('id', matchId);
 
-    // Get league for point values
-    const { data: league } = await this.db
-      .from('leagues')
-      .select('*')
-      .eq('id', match.league_id)
-      .single();
-
-    // Update standings
-    await this.updateStanding(match.league_id, match.home_player_id, homeLegs, awayLegs, league);
-    await this.updateStanding(match.league_id, match.away_player_id, awayLegs, homeLegs, league);
-
-    // Recalculate positions
-    await this.recalculatePositions(match.league_id);
+    await this.recalculateStandings(match.league_id);
   }
 
-  private async updateStanding(
+  /**
+   * Take points off a player (or team) - the reason is kept as an audit note
+   */
+  async deductPoints(
     leagueId: string,
     playerId: string,
-    legsFor: number,
-    legsAgainst: number,
-    league: League
-  ): Promise<void> {
-    const { data: standing } = await this.db
-      .from('league_standings')
-      .select('*')
-      .eq('league_id', leagueId)
-      .eq('player_id', playerId)
-      .single();
+    points: number,
+    reason: string,
+    createdBy?: string
+  ): Promise<LeagueDeduction> {
+    if (points <= 0) throw new Error('Deduction must be more than zero points');
+    if (!reason.trim()) throw new Error('A deduction needs a reason');
 
-    if (!standing) return;
+    const league = await this.getLeague(leagueId);
+    if (!league) throw new Error('League not found');
+
+    const { data, error } = await this.db
+      .from('league_point_deductions')
+      .insert([{
+        league_id: leagueId,
+        [getEntrantColumns(league).entrant]: playerId,
+        points,
+        reason: reason.trim(),
+        created_by: createdBy,
+        created_at: new Date().toISOString()
+      }])
+      .select()
+      .single();
 
-    const isWin = legsFor > legsAgainst;
-    const isDraw = legsFor === legsAgainst;
+    if (error) throw error;
 
-    const points = isWin 
-      ? league.points_for_win 
-      : isDraw 
-        ? league.points_for_draw 
-        : league.points_for_loss;
+    await this.recalculateStandings(leagueId);
+    return data;
+  }
 
-    await this.db
-      .from('league_standings')
-      .update({
-        played: standing.played + 1,
-        won: standing.won + (isWin ? 1 : 0),
-        drawn: standing.drawn + (isDraw ? 1 : 0),
-        lost: standing.lost + (!isWin && !isDraw ? 1 : 0),
-        legs_for: standing.legs_for + legsFor,
-        legs_against: standing.legs_against + legsAgainst,
-        leg_difference: standing.leg_difference + (legsFor - legsAgainst),
-        points: standing.points + points
-      })
+  async getDeductions(leagueId: string): Promise<LeagueDeduction[]> {
+    const { data, error } = await this.db
+      .from('league_point_deductions')
+      .select('*')
       .eq('league_id', leagueId)
-      .eq('player_id', playerId);
+      .order('created_at');
+
+    if (error) throw error;
+    return data || [];
   }
 
-  private async recalculatePositions(leagueId: string): Promise<void> {
-    const { data: standings } = await this.db
+  /**
+   * Rebuild the whole table from completed matches and deductions
+   */
+  async recalculateStandings(leagueId: string): Promise<LeagueStanding[]> {
+    const league = await this.getLeague(leagueId);
+    if (!league) throw new Error('League not found');
+
+    const { data: rows } = await this.db
       .from('league_standings')
       .select('*')
-      .eq('league_id', leagueId)
-      .order('points', { ascending: false })
-      .order('leg_difference', { ascending: false })
-      .order('legs_for', { ascending: false });
+      .eq('league_id', leagueId);
 
-    if (!standings) return;
+    const entrantIds = ((rows || []) as LeagueStanding[]).map(getEntrantId);
+    const matches = await this.getFixtures(leagueId);
+    const deductions = await this.getDeductions(leagueId);
+    const standings = getLeagueStandings(leagueId, entrantIds, matches, league, deductions);
+    const column = getEntrantColumns(league).entrant;
 
-    for (let i = 0; i < standings.length; i++) {
+    for (const standing of standings) {
+      const { league_id: _leagueId, player_id: _playerId, team_id: _teamId, ...values } = standing;
       await this.db
         .from('league_standings')
-        .update({ position: i + 1 })
+        .update(values)
         .eq('league_id', leagueId)
-        .eq('player_id', standings[i].player_id);
+        .eq(column, getEntrantId(standing));
     }
+
+    return standings;
   }
 
   async getStandings(leagueId: string): Promise<LeagueStanding[]> {
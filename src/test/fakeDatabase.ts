@@ -0,0 +1,141 @@
+/**
+ * Fake Database
+ * In-memory stand-in for the Supabase-style client the services take,
+ * for tests. Supports the query builder calls the services make; column
+ * lists and joins in select() are ignored (whole rows come back).
+ */
+
+import type { DatabaseClient, DatabaseQueryBuilder, DatabaseResult } from '../types';
+
+// ==================== TYPES ====================
+
+export type Row = Record<string, any>;
+
+export interface FakeDatabase extends DatabaseClient {
+  tables: Record<string, Row[]>;
+  failOn?: (table: string, action: QueryAction) => boolean;   // Return an error instead
+}
+
+type QueryAction = 'select' | 'insert' | 'update' | 'delete';
+
+// ==================== FAKE CLIENT ====================
+
+export function createFakeDatabase(tables: Record<string, Row[]> = {}): FakeDatabase {
+  let nextId = 1;
+
+  const db: FakeDatabase = {
+    tables,
+    from(table: string): DatabaseQueryBuilder {
+      tables[table] ??= [];
+      const filters: ((row: Row) => boolean)[] = [];
+      const orders: { column: string; ascending: boolean }[] = [];
+      let action: QueryAction = 'select';
+      let values: Row[] = [];
+      let returning = false;
+      let limit = Infinity;
+
+      const run = (): DatabaseResult<Row[]> => {
+        if (db.failOn?.(table, action)) return { data: null, error: new Error(`${action} on ${table} failed`) };
+
+        const rows = tables[table];
+        const matching = rows.filter(row => filters.every(f => f(row)));
+
+        switch (action) {
+          case 'insert': {
+            const inserted = values.map(v => ({ id: `${table}-${nextId++}`, ...v }));
+            rows.push(...inserted);
+            return { data: returning ? inserted : null, error: null };
+          }
+          case 'update':
+            matching.forEach(row => Object.assign(row, values[0]));
+            return { data: returning ? matching : null, error: null };
+          case 'delete':
+            tables[table] = rows.filter(row => !matching.includes(row));
+            return { data: null, error: null };
+          default: {
+            const sorted = [...matching].sort((a, b) => {
+              for (const { column, ascending } of orders) {
+                if (a[column] === b[column]) continue;
+                return (a[column] < b[column] ? -1 : 1) * (ascending ? 1 : -1);
+              }
+              return 0;
+            });
+            return { data: sorted.slice(0, limit), error: null };
+          }
+        }
+      };
+
+      const compare = (column: string, test: (value: any) => boolean) => {
+        filters.push(row => test(row[column]));
+        return builder;
+      };
+
+      const builder: DatabaseQueryBuilder = {
+        select() {
+          returning = true;
+          return builder;
+        },
+        insert(data: unknown[]) {
+          action = 'insert';
+          values = data as Row[];
+          return builder;
+        },
+        update(data: unknown) {
+          action = 'update';
+          values = [data as Row];
+          return builder;
+        },
+        delete() {
+          action = 'delete';
+          return builder;
+        },
+        eq: (column, value) => compare(column, v => v === value),
+        neq: (column, value) => compare(column, v => v !== value),
+        gt: (column, value) => compare(column, v => v > (value as any)),
+        gte: (column, value) => compare(column, v => v >= (value as any)),
+        lt: (column, value) => compare(column, v => v < (value as any)),
+        lte: (column, value) => compare(column, v => v <= (value as any)),
+        ilike: (column, value) => compare(column, v => String(v).toLowerCase() === value.toLowerCase()),
+        or(filter: string) {
+          // Only the column.eq.value form
+          const tests = filter.split(',').map(part => {
+            const [column, , value] = part.split('.');
+            return (row: Row) => String(row[column]) === value;
+          });
+          filters.push(row => tests.some(t => t(row)));
+          return builder;
+        },
+        order(column, options = {}) {
+          orders.push({ column, ascending: options.ascending ?? true });
+          return builder;
+        },
+        limit(count) {
+          limit = count;
+          return builder;
+        },
+        range(from, to) {
+          limit = to - from + 1;
+          return builder;
+        },
+        async single() {
+          const { data, error } = run();
+          if (error) return { data: null, error };
+          const row = data?.[0] ?? null;
+          return { data: row, error: row ? null : new Error('No rows') };
+        },
+        then(onfulfilled, onrejected) {
+          return Promise.resolve(run()).then(onfulfilled, onrejected);
+        }
+      };
+
+      // Supabase also has in(); the services use it on any builder
+      return Object.assign(builder, {
+        in: (column: string, list: unknown[]) => compare(column, v => list.includes(v))
+      });
+    }
+  };
+
+  return db;
+}
+
+export default createFakeDatabase;
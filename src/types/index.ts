@@ -43,13 +43,22 @@ export interface PlayerStats {
 
 // ==================== MATCH TYPES ====================
 
+/**
+ * Which darts may start or finish a leg
+ * straight = any dart, double = double/bullseye, master = double or treble
+ */
+export type InOutRule = 'straight' | 'double' | 'master';
+
 export interface MatchConfig {
   startingScore: 501 | 301 | 170 | 121 | number;
   matchType: 'first_to' | 'best_of';
-  targetLegs: number;
+  targetLegs: number;     // Legs per set when targetSets is set
   targetSets?: number;
+  legsMatchType?: 'first_to' | 'best_of';  // Leg rule inside a set (defaults to matchType)
   doubleIn?: boolean;
   doubleOut?: boolean;
+  inRule?: InOutRule;     // Takes precedence over doubleIn
+  outRule?: InOutRule;    // Takes precedence over doubleOut
 }
 
 export interface MatchStats {
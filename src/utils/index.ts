@@ -0,0 +1,15 @@
+/**
+ * Utilities Module
+ * Shared helpers used across scoring, services and online play
+ */
+
+export {
+  createRandom,
+  generateSeed,
+  defaultRandom,
+  setRandomSource,
+  randomInt,
+  pickRandom,
+  shuffle,
+  type RandomSource
+} from './random';
@@ -0,0 +1,50 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import {
+  createRandom,
+  defaultRandom,
+  generateSeed,
+  setRandomSource,
+  shuffle
+} from './random';
+
+const take = (random: () => number, count = 10) => Array.from({ length: count }, random);
+
+describe('createRandom', () => {
+  it('gives the same sequence for the same seed', () => {
+    expect(take(createRandom(42))).toEqual(take(createRandom(42)));
+    expect(take(createRandom('spring-open-2026'))).toEqual(take(createRandom('spring-open-2026')));
+  });
+
+  it('gives different sequences for different seeds', () => {
+    expect(take(createRandom(1))).not.toEqual(take(createRandom(2)));
+    expect(take(createRandom('a'))).not.toEqual(take(createRandom('b')));
+  });
+
+  it('stays in [0, 1)', () => {
+    for (const value of take(createRandom('range'), 1000)) {
+      expect(value).toBeGreaterThanOrEqual(0);
+      expect(value).toBeLessThan(1);
+    }
+  });
+});
+
+describe('seeded helpers', () => {
+  afterEach(() => setRandomSource(null));
+
+  it('shuffles the same way for the same seed', () => {
+    const items = Array.from({ length: 16 }, (_, i) => i);
+    const shuffled = shuffle(items, createRandom('draw'));
+    expect(shuffle(items, createRandom('draw'))).toEqual(shuffled);
+    expect([...shuffled].sort((a, b) => a - b)).toEqual(items);
+  });
+
+  it('makes 8-character seeds, reproducibly from a seeded default', () => {
+    setRandomSource(createRandom(7));
+    const seed = generateSeed();
+    expect(seed).toMatch(/^[0-9a-z]{8}$/);
+
+    setRandomSource(createRandom(7));
+    expect(generateSeed()).toBe(seed);
+    expect(take(defaultRandom, 1)).toEqual(take(createRandom(7), 9).slice(8));
+  });
+});
@@ -0,0 +1,103 @@
+/**
+ * Random Source
+ * Seedable PRNG behind every random decision in the library - bot darts,
+ * draws, blind-draw teams, room codes and slugs
+ *
+ * Anything random takes a RandomSource (default: defaultRandom). Seed a
+ * source with createRandom(seed) to make a run reproducible, or swap the
+ * library-wide default with setRandomSource for tests and simulations.
+ */
+
+// ==================== TYPES ====================
+
+/**
+ * Returns a float in [0, 1), like Math.random
+ */
+export type RandomSource = () => number;
+
+// ==================== SEEDED PRNG ====================
+
+/**
+ * Seeded PRNG (mulberry32) - the same seed always gives the same sequence
+ * String seeds are hashed, so a draw can be seeded with e.g. 'spring-open-2026'
+ */
+export function createRandom(seed: string | number): RandomSource {
+  let state = typeof seed === 'number' ? seed >>> 0 : hashSeed(seed);
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * New random seed string (8 base-36 characters)
+ * Uses the library default source, so a seeded default gives seeded seeds
+ */
+export function generateSeed(random: RandomSource = defaultRandom): string {
+  let seed = '';
+  for (let i = 0; i < 8; i++) {
+    seed += Math.floor(random() * 36).toString(36);
+  }
+  return seed;
+}
+
+// FNV-1a, 32-bit
+function hashSeed(seed: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// ==================== LIBRARY DEFAULT ====================
+
+let currentSource: RandomSource = Math.random;
+
+/**
+ * The library-wide source - delegates to whatever setRandomSource installed
+ */
+export const defaultRandom: RandomSource = () => currentSource();
+
+/**
+ * Replace the library-wide source (null restores Math.random)
+ */
+export function setRandomSource(random: RandomSource | null): void {
+  currentSource = random ?? Math.random;
+}
+
+// ==================== HELPERS ====================
+
+/**
+ * Integer in [0, max)
+ */
+export function randomInt(max: number, random: RandomSource = defaultRandom): number {
+  return Math.floor(random() * max);
+}
+
+/**
+ * One item at random
+ */
+export function pickRandom<T>(items: readonly T[], random: RandomSource = defaultRandom): T {
+  if (items.length === 0) throw new Error('Cannot pick from an empty list');
+  return items[randomInt(items.length, random)];
+}
+
+/**
+ * Unbiased shuffle (Fisher-Yates) into a new array
+ */
+export function shuffle<T>(items: readonly T[], random: RandomSource = defaultRandom): T[] {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = randomInt(i + 1, random);
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+}
+
+export default createRandom;